@@ -0,0 +1,7 @@
+-- Flag events that have no attributed citation
+
+-- migrate:up
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS unsourced BOOLEAN DEFAULT FALSE;
+
+-- migrate:down
+ALTER TABLE market_events DROP COLUMN IF EXISTS unsourced;
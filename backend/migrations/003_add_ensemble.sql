@@ -0,0 +1,9 @@
+-- Ensemble confidence and consensus metadata of events
+
+-- migrate:up
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS confidence NUMERIC(3, 2); -- Agreement score (0-1), NULL for single-provider runs
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS consensus JSONB; -- Ensemble providers and their disagreements
+
+-- migrate:down
+ALTER TABLE market_events DROP COLUMN IF EXISTS consensus;
+ALTER TABLE market_events DROP COLUMN IF EXISTS confidence;
@@ -0,0 +1,33 @@
+-- Token usage and cost of AI generation runs, one row per provider/model per run
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  week_start DATE NOT NULL, -- Week the run generated events for
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  requests INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  reasoning_tokens INTEGER NOT NULL DEFAULT 0,
+  tool_calls INTEGER NOT NULL DEFAULT 0,
+  search_calls INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6), -- NULL when the model is missing from the rate table
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_week_start ON ai_usage(week_start);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access on ai_usage" ON ai_usage;
+CREATE POLICY "Allow public read access on ai_usage" ON ai_usage
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow authenticated insert on ai_usage" ON ai_usage;
+CREATE POLICY "Allow authenticated insert on ai_usage" ON ai_usage
+    FOR INSERT WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE IF EXISTS ai_usage;
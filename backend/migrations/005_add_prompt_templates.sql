@@ -0,0 +1,38 @@
+-- Versioned prompt templates, editable through /api/admin/prompts, and the version behind each event
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL, -- e.g. "market-events"
+  version INTEGER NOT NULL,
+  template TEXT NOT NULL, -- Text with {{weekStart}}, {{weekEnd}}, {{categories}}, {{targetCount}} placeholders
+  description TEXT, -- What changed in this version
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (name, version)
+);
+
+-- At most one active version per template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_active ON prompt_templates(name) WHERE is_active;
+
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access on prompt_templates" ON prompt_templates;
+CREATE POLICY "Allow public read access on prompt_templates" ON prompt_templates
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow authenticated insert on prompt_templates" ON prompt_templates;
+CREATE POLICY "Allow authenticated insert on prompt_templates" ON prompt_templates
+    FOR INSERT WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated update on prompt_templates" ON prompt_templates;
+CREATE POLICY "Allow authenticated update on prompt_templates" ON prompt_templates
+    FOR UPDATE USING (true);
+
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS prompt_name TEXT; -- Prompt template that generated the event
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS prompt_version INTEGER; -- Version of that template (0 = built-in default)
+
+-- migrate:down
+ALTER TABLE market_events DROP COLUMN IF EXISTS prompt_version;
+ALTER TABLE market_events DROP COLUMN IF EXISTS prompt_name;
+DROP TABLE IF EXISTS prompt_templates;
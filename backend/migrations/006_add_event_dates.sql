@@ -0,0 +1,24 @@
+-- Structured event dates alongside the free-text date column.
+-- Fill them on events stored before this migration with `npm run backfill:dates`.
+
+-- migrate:up
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS start_date DATE; -- Parsed from date
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS end_date DATE; -- Same as start_date for single-day events
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS release_time TIME; -- Local time in timezone
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS timezone TEXT; -- IANA zone, e.g. America/New_York
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS all_day BOOLEAN DEFAULT TRUE; -- No release time known
+
+ALTER TABLE market_events DROP CONSTRAINT IF EXISTS market_events_date_range_check;
+ALTER TABLE market_events ADD CONSTRAINT market_events_date_range_check CHECK (end_date >= start_date);
+
+-- Week, range and upcoming queries compare against both ends of the range
+CREATE INDEX IF NOT EXISTS idx_market_events_start_date ON market_events(start_date);
+CREATE INDEX IF NOT EXISTS idx_market_events_end_date ON market_events(end_date);
+
+-- migrate:down
+ALTER TABLE market_events DROP CONSTRAINT IF EXISTS market_events_date_range_check;
+ALTER TABLE market_events DROP COLUMN IF EXISTS all_day;
+ALTER TABLE market_events DROP COLUMN IF EXISTS timezone;
+ALTER TABLE market_events DROP COLUMN IF EXISTS release_time;
+ALTER TABLE market_events DROP COLUMN IF EXISTS end_date;
+ALTER TABLE market_events DROP COLUMN IF EXISTS start_date;
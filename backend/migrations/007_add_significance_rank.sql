@@ -0,0 +1,12 @@
+-- Sortable significance for GET /api/market-events?sort=significance
+
+-- migrate:up
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS significance_rank SMALLINT
+  GENERATED ALWAYS AS (CASE significance WHEN 'High' THEN 3 WHEN 'Medium' THEN 2 ELSE 1 END) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_market_events_significance_rank ON market_events(significance_rank);
+CREATE INDEX IF NOT EXISTS idx_market_events_sentiment ON market_events(market_sentiment);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_market_events_sentiment;
+ALTER TABLE market_events DROP COLUMN IF EXISTS significance_rank;
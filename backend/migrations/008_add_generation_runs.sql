@@ -0,0 +1,45 @@
+-- Log of AI generation runs with the prompt and raw responses they produced
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS generation_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'startup', 'manual', 'clear-regenerate')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  week_start DATE, -- Week the run generated events for
+  provider TEXT, -- "ensemble" for multi-provider runs
+  model TEXT,
+  prompt_name TEXT,
+  prompt_version INTEGER,
+  prompt TEXT, -- Rendered prompt sent to the provider(s)
+  raw_response TEXT, -- First generation response
+  citations JSONB NOT NULL DEFAULT '[]', -- Citations returned with the generation responses
+  responses JSONB NOT NULL DEFAULT '[]', -- Every provider response, including repair round-trips
+  parsed_count INTEGER,
+  rejected_count INTEGER,
+  created_count INTEGER,
+  skipped_count INTEGER,
+  duration_ms INTEGER,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_runs_started_at ON generation_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generation_runs_week_start ON generation_runs(week_start);
+
+ALTER TABLE generation_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access on generation_runs" ON generation_runs;
+CREATE POLICY "Allow public read access on generation_runs" ON generation_runs
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow authenticated insert on generation_runs" ON generation_runs;
+CREATE POLICY "Allow authenticated insert on generation_runs" ON generation_runs
+    FOR INSERT WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated update on generation_runs" ON generation_runs;
+CREATE POLICY "Allow authenticated update on generation_runs" ON generation_runs
+    FOR UPDATE USING (true);
+
+-- migrate:down
+DROP TABLE IF EXISTS generation_runs;
@@ -0,0 +1,36 @@
+-- Persistent queue of background jobs (AI generation), polled through GET /api/jobs/:id
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL, -- e.g. "generate-week"
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  params JSONB NOT NULL DEFAULT '{}',
+  progress JSONB, -- Latest { phase, message, completed, total } report
+  result JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE, -- Refreshed by the worker; stale running jobs are picked up again
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status ON generation_jobs(status, created_at);
+
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access on generation_jobs" ON generation_jobs;
+CREATE POLICY "Allow public read access on generation_jobs" ON generation_jobs
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow authenticated insert on generation_jobs" ON generation_jobs;
+CREATE POLICY "Allow authenticated insert on generation_jobs" ON generation_jobs
+    FOR INSERT WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated update on generation_jobs" ON generation_jobs;
+CREATE POLICY "Allow authenticated update on generation_jobs" ON generation_jobs
+    FOR UPDATE USING (true);
+
+-- migrate:down
+DROP TABLE IF EXISTS generation_jobs;
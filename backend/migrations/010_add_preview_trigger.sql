@@ -0,0 +1,12 @@
+-- Log preview (dry-run) generations with their own trigger
+
+-- migrate:up
+ALTER TABLE generation_runs DROP CONSTRAINT IF EXISTS generation_runs_trigger_check;
+ALTER TABLE generation_runs ADD CONSTRAINT generation_runs_trigger_check
+    CHECK (trigger IN ('cron', 'startup', 'manual', 'clear-regenerate', 'preview'));
+
+-- migrate:down
+DELETE FROM generation_runs WHERE trigger = 'preview';
+ALTER TABLE generation_runs DROP CONSTRAINT IF EXISTS generation_runs_trigger_check;
+ALTER TABLE generation_runs ADD CONSTRAINT generation_runs_trigger_check
+    CHECK (trigger IN ('cron', 'startup', 'manual', 'clear-regenerate'));
@@ -0,0 +1,36 @@
+-- Atomic replace of a week's events, used by clear-regenerate
+
+-- migrate:up
+-- Deletes, updates and inserts run in the function's transaction: either all apply or none do.
+-- p_updates is an array of { "id": uuid, "changes": { column: value, ... } }; columns missing from
+-- changes keep their stored value. p_inserts is an array of market_events rows without ids.
+CREATE OR REPLACE FUNCTION replace_week_events(p_inserts JSONB, p_updates JSONB, p_deletes UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  item JSONB;
+BEGIN
+  DELETE FROM market_events WHERE id = ANY(p_deletes);
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_updates) LOOP
+    UPDATE market_events AS m
+    SET (date, start_date, end_date, release_time, timezone, all_day, event, type, description,
+         significance, market_sentiment, citations, unsourced, confidence, consensus, prompt_name, prompt_version) = (
+      SELECT r.date, r.start_date, r.end_date, r.release_time, r.timezone, r.all_day, r.event, r.type, r.description,
+             r.significance, r.market_sentiment, r.citations, r.unsourced, r.confidence, r.consensus, r.prompt_name, r.prompt_version
+      FROM jsonb_populate_record(m, item->'changes') AS r
+    )
+    WHERE m.id = (item->>'id')::UUID;
+  END LOOP;
+
+  INSERT INTO market_events (date, start_date, end_date, release_time, timezone, all_day, event, type, description,
+                             significance, market_sentiment, citations, unsourced, confidence, consensus, prompt_name, prompt_version)
+  SELECT date, start_date, end_date, release_time, timezone, COALESCE(all_day, TRUE), event, type, description,
+         significance, market_sentiment, COALESCE(citations, '{}'), COALESCE(unsourced, FALSE), confidence, consensus, prompt_name, prompt_version
+  FROM jsonb_populate_recordset(NULL::market_events, p_inserts);
+END;
+$$;
+
+-- migrate:down
+DROP FUNCTION IF EXISTS replace_week_events(JSONB, JSONB, UUID[]);
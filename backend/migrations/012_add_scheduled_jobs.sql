@@ -0,0 +1,35 @@
+-- Named cron schedules (weekly generation, retention cleanup, ...) with their last and next runs.
+-- The lock columns keep two backend instances from running the same occurrence.
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  name TEXT PRIMARY KEY,
+  cron TEXT NOT NULL,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_finished_at TIMESTAMP WITH TIME ZONE,
+  last_status TEXT CHECK (last_status IN ('succeeded', 'failed')),
+  last_result TEXT,
+  last_error TEXT,
+  locked_by TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE scheduled_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access on scheduled_jobs" ON scheduled_jobs;
+CREATE POLICY "Allow public read access on scheduled_jobs" ON scheduled_jobs
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow authenticated insert on scheduled_jobs" ON scheduled_jobs;
+CREATE POLICY "Allow authenticated insert on scheduled_jobs" ON scheduled_jobs
+    FOR INSERT WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated update on scheduled_jobs" ON scheduled_jobs;
+CREATE POLICY "Allow authenticated update on scheduled_jobs" ON scheduled_jobs
+    FOR UPDATE USING (true);
+
+-- migrate:down
+DROP TABLE IF EXISTS scheduled_jobs;
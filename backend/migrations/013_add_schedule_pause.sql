@@ -0,0 +1,7 @@
+-- Pausing scheduled jobs from the admin API (POST /api/admin/schedules/:name/pause)
+
+-- migrate:up
+ALTER TABLE scheduled_jobs ADD COLUMN IF NOT EXISTS paused BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- migrate:down
+ALTER TABLE scheduled_jobs DROP COLUMN IF EXISTS paused;
@@ -0,0 +1,31 @@
+-- Weeks handled by the Vercel Cron routes of the Next.js app (GET /api/cron/weekly-generation).
+-- A week is claimed by inserting its row, so retried or overlapping invocations don't generate it twice.
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS cron_runs (
+  name TEXT NOT NULL, -- e.g. "weekly-generation"
+  week_start DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  result JSONB,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (name, week_start)
+);
+
+ALTER TABLE cron_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access on cron_runs" ON cron_runs;
+CREATE POLICY "Allow public read access on cron_runs" ON cron_runs
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow authenticated insert on cron_runs" ON cron_runs;
+CREATE POLICY "Allow authenticated insert on cron_runs" ON cron_runs
+    FOR INSERT WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated update on cron_runs" ON cron_runs;
+CREATE POLICY "Allow authenticated update on cron_runs" ON cron_runs
+    FOR UPDATE USING (true);
+
+-- migrate:down
+DROP TABLE IF EXISTS cron_runs;
@@ -0,0 +1,44 @@
+-- Daily refresh: event status (postponed/cancelled events are flagged, not deleted) and a log of
+-- every change a refresh makes, with its reason and the sources supporting it
+
+-- migrate:up
+ALTER TABLE market_events ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'scheduled'
+    CONSTRAINT market_events_status_check CHECK (status IN ('scheduled', 'postponed', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_market_events_status ON market_events(status);
+
+CREATE TABLE IF NOT EXISTS event_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES market_events(id) ON DELETE CASCADE,
+  run_id UUID REFERENCES generation_runs(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('updated', 'added', 'postponed', 'cancelled')),
+  changes JSONB NOT NULL DEFAULT '[]', -- [{ field, from, to }]
+  reason TEXT NOT NULL DEFAULT '',
+  citations TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_changes_event_id ON event_changes(event_id, created_at DESC);
+
+ALTER TABLE event_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read access on event_changes" ON event_changes;
+CREATE POLICY "Allow public read access on event_changes" ON event_changes
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow authenticated insert on event_changes" ON event_changes;
+CREATE POLICY "Allow authenticated insert on event_changes" ON event_changes
+    FOR INSERT WITH CHECK (true);
+
+-- Refresh runs are logged with their own trigger
+ALTER TABLE generation_runs DROP CONSTRAINT IF EXISTS generation_runs_trigger_check;
+ALTER TABLE generation_runs ADD CONSTRAINT generation_runs_trigger_check
+    CHECK (trigger IN ('cron', 'startup', 'manual', 'clear-regenerate', 'preview', 'refresh'));
+
+-- migrate:down
+DELETE FROM generation_runs WHERE trigger = 'refresh';
+ALTER TABLE generation_runs DROP CONSTRAINT IF EXISTS generation_runs_trigger_check;
+ALTER TABLE generation_runs ADD CONSTRAINT generation_runs_trigger_check
+    CHECK (trigger IN ('cron', 'startup', 'manual', 'clear-regenerate', 'preview'));
+DROP TABLE IF EXISTS event_changes;
+ALTER TABLE market_events DROP COLUMN IF EXISTS status;
@@ -0,0 +1,17 @@
+-- Event status lifecycle: scheduled -> confirmed -> completed, with postponed and cancelled along the way
+-- (allowed transitions are enforced by the backend, see backend/src/utils/event-status.ts)
+
+-- migrate:up
+ALTER TABLE market_events DROP CONSTRAINT IF EXISTS market_events_status_check;
+ALTER TABLE market_events ADD CONSTRAINT market_events_status_check
+    CHECK (status IN ('scheduled', 'confirmed', 'postponed', 'cancelled', 'completed'));
+
+-- Events that have already ended
+UPDATE market_events SET status = 'completed'
+WHERE status = 'scheduled' AND end_date < CURRENT_DATE;
+
+-- migrate:down
+UPDATE market_events SET status = 'scheduled' WHERE status IN ('confirmed', 'completed');
+ALTER TABLE market_events DROP CONSTRAINT IF EXISTS market_events_status_check;
+ALTER TABLE market_events ADD CONSTRAINT market_events_status_check
+    CHECK (status IN ('scheduled', 'postponed', 'cancelled'));
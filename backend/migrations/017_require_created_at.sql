@@ -0,0 +1,19 @@
+-- Creation and update times are always set by their defaults; make the columns say so, as the row types do
+
+-- migrate:up
+UPDATE market_events SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE market_events SET updated_at = created_at WHERE updated_at IS NULL;
+ALTER TABLE market_events ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE market_events ALTER COLUMN updated_at SET NOT NULL;
+
+UPDATE ai_usage SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE ai_usage ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE prompt_templates SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE prompt_templates ALTER COLUMN created_at SET NOT NULL;
+
+-- migrate:down
+ALTER TABLE prompt_templates ALTER COLUMN created_at DROP NOT NULL;
+ALTER TABLE ai_usage ALTER COLUMN created_at DROP NOT NULL;
+ALTER TABLE market_events ALTER COLUMN updated_at DROP NOT NULL;
+ALTER TABLE market_events ALTER COLUMN created_at DROP NOT NULL;
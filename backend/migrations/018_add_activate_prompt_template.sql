@@ -0,0 +1,24 @@
+-- Atomic switch of a template's active version, used by /api/admin/prompts
+
+-- migrate:up
+-- Clears the active version and sets the new one in the function's transaction, so a failure never leaves
+-- the template without an active version. Returns the activated row, or nothing when the version doesn't exist.
+CREATE OR REPLACE FUNCTION activate_prompt_template(p_name TEXT, p_version INTEGER)
+RETURNS SETOF prompt_templates
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM prompt_templates WHERE name = p_name AND version = p_version) THEN
+    RETURN;
+  END IF;
+
+  -- Only one version may be active, so clear the current one first
+  UPDATE prompt_templates SET is_active = FALSE WHERE name = p_name AND is_active AND version <> p_version;
+
+  RETURN QUERY
+  UPDATE prompt_templates SET is_active = TRUE WHERE name = p_name AND version = p_version RETURNING *;
+END;
+$$;
+
+-- migrate:down
+DROP FUNCTION IF EXISTS activate_prompt_template(TEXT, INTEGER);
@@ -0,0 +1,35 @@
+-- Atomic event update and change log entry, used by the daily refresh
+
+-- migrate:up
+-- Updates the event and records the change in the function's transaction, so a refreshed event is never
+-- left without its event_changes row. p_changes holds market_events columns; columns missing from it keep
+-- their stored value. p_change is an event_changes row without id. Returns the recorded change, or nothing
+-- when the event doesn't exist.
+CREATE OR REPLACE FUNCTION update_event_with_change(p_id UUID, p_changes JSONB, p_change JSONB)
+RETURNS SETOF event_changes
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE market_events AS m
+  SET (date, start_date, end_date, release_time, timezone, all_day, event, type, description,
+       significance, market_sentiment, citations, unsourced, status) = (
+    SELECT r.date, r.start_date, r.end_date, r.release_time, r.timezone, r.all_day, r.event, r.type, r.description,
+           r.significance, r.market_sentiment, r.citations, r.unsourced, r.status
+    FROM jsonb_populate_record(m, p_changes) AS r
+  )
+  WHERE m.id = p_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO event_changes (event_id, run_id, kind, changes, reason, citations)
+  SELECT p_id, r.run_id, r.kind, COALESCE(r.changes, '[]'), COALESCE(r.reason, ''), COALESCE(r.citations, '{}')
+  FROM jsonb_populate_record(NULL::event_changes, p_change) AS r
+  RETURNING *;
+END;
+$$;
+
+-- migrate:down
+DROP FUNCTION IF EXISTS update_event_with_change(UUID, JSONB, JSONB);
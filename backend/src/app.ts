@@ -2,8 +2,14 @@ import express, { Express } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import marketEventsRoutes from './routes/market-events';
+import usageRoutes from './routes/usage';
+import promptTemplateRoutes from './routes/prompt-templates';
+import generationRunRoutes from './routes/generation-runs';
+import jobRoutes from './routes/jobs';
+import scheduleRoutes from './routes/schedules';
 import { errorHandler, notFoundHandler } from './middleware/error-handler';
-import { testSupabaseConnection } from './utils/supabase';
+import { repositories } from './repositories';
+import { getCircuitBreakerStatuses } from './services/ai-providers';
 import debug from 'debug';
 
 const log = debug('market-events:app');
@@ -62,14 +68,19 @@ app.use((req, res, next) => {
 app.get('/health', async (req, res) => {
   try {
     // Test database connection
-    const dbHealthy = await testSupabaseConnection();
+    const dbHealthy = await repositories.ping();
+    // AI provider circuit breakers (open = failing fast, falling back if configured)
+    const circuitBreakers = getCircuitBreakerStatuses();
 
     res.json({
       status: 'healthy',
       timestamp: new Date().toISOString(),
       services: {
-        database: dbHealthy ? 'healthy' : 'unhealthy'
-      }
+        database: dbHealthy ? 'healthy' : 'unhealthy',
+        storage: repositories.backend,
+        ai: circuitBreakers.some(breaker => breaker.state === 'open') ? 'degraded' : 'healthy'
+      },
+      circuitBreakers
     });
   } catch (error) {
     res.status(503).json({
@@ -82,6 +93,11 @@ app.get('/health', async (req, res) => {
 
 // API routes
 app.use('/api/market-events', marketEventsRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/admin/prompts', promptTemplateRoutes);
+app.use('/api/admin/schedules', scheduleRoutes);
+app.use('/api/generation-runs', generationRunRoutes);
+app.use('/api/jobs', jobRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
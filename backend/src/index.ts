@@ -3,17 +3,25 @@ dotenv.config();
 
 import app from './app';
 import { schedulerService } from './services/scheduler.service';
+import { jobService } from './services/job.service';
+import { migrationService } from './services/migration.service';
+import { repositories } from './repositories';
 import debug from 'debug';
 
 const log = debug('market-events:main');
 
 const PORT = process.env.PORT || 3001;
 
+// Migrations are SQL for the Supabase database; the in-memory backend has no schema
+const migrateOnStartup = process.env.MIGRATE_ON_STARTUP === 'true' && repositories.backend === 'supabase';
+
 // Validate required environment variables
 const requiredEnvVars = [
-  'SUPABASE_URL',
-  'SUPABASE_ANON_KEY',
-  'AI_API_KEY'
+  // The in-memory storage backend runs without a Supabase project
+  ...(repositories.backend === 'supabase' ? ['SUPABASE_URL', 'SUPABASE_ANON_KEY'] : []),
+  ...(migrateOnStartup ? ['SUPABASE_ACCESS_TOKEN'] : []),
+  // Self-hosted OpenAI-compatible endpoints (Ollama, vLLM) and fixture replay run without a key
+  ...(process.env.AI_PROVIDER === 'openai-compatible' || process.env.AI_FIXTURES_MODE === 'replay' ? [] : ['AI_API_KEY'])
 ];
 
 const missingEnvVars = requiredEnvVars.filter(envVar => !process.env[envVar]);
@@ -24,12 +32,32 @@ if (missingEnvVars.length > 0) {
   process.exit(1);
 }
 
+/**
+ * Apply pending migrations and report row types that drift from the resulting schema.
+ * A failed migration stops the backend rather than running it against a half-migrated database.
+ */
+const migrateDatabase = async (): Promise<void> => {
+  try {
+    await migrationService.migrate();
+    const drift = await migrationService.checkDrift();
+    drift.forEach(problem => log(`⚠️ Schema drift: ${problem}`));
+  } catch (error) {
+    console.error('Database migration failed:', error);
+    process.exit(1);
+  }
+};
+
+// Everything that touches the database waits for the migrations
+const migrated = migrateOnStartup ? migrateDatabase() : Promise.resolve();
+
 // Start the server
 const server = app.listen(PORT, async () => {
   log(`🚀 Server running on port ${PORT}`);
   log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
-  log(`🤖 AI Provider: ${process.env.AI_PROVIDER || 'gemini'}`);
-  log(`🗄️ Database: Supabase`);
+  log(`🤖 AI Provider: ${process.env.AI_PROVIDER || 'xai'}`);
+  log(`🗄️ Storage: ${repositories.backend === 'supabase' ? 'Supabase' : `in-memory${process.env.STORAGE_FILE ? ` (snapshot: ${process.env.STORAGE_FILE})` : ''}`}`);
+
+  await migrated;
 
   // Generate current week events on startup (if not already generated)
   try {
@@ -40,14 +68,23 @@ const server = app.listen(PORT, async () => {
   }
 });
 
-// Start the weekly event generation scheduler
-schedulerService.startWeeklyEventGeneration();
-log('📅 Weekly upcoming event generation scheduler started');
+migrated.then(() => {
+  // Start the scheduled jobs (weekly generation, retention cleanup), catching up on runs missed while down
+  schedulerService.start();
+  log('📅 Scheduler started');
+
+  // Start the background job worker (picks up jobs queued before a restart too)
+  jobService.start();
+  log('🧵 Background job worker started');
+});
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   log('SIGTERM received, shutting down gracefully');
+  schedulerService.stop();
+  jobService.stop();
   server.close(() => {
+    repositories.close();
     log('Process terminated');
     process.exit(0);
   });
@@ -55,7 +92,10 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   log('SIGINT received, shutting down gracefully');
+  schedulerService.stop();
+  jobService.stop();
   server.close(() => {
+    repositories.close();
     log('Process terminated');
     process.exit(0);
   });
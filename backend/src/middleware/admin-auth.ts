@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import debug from 'debug';
+
+const log = debug('market-events:admin-auth');
+
+/**
+ * Protect admin routes with ADMIN_API_KEY, sent as "Authorization: Bearer <key>" or "X-Admin-Key".
+ * Without a key configured the admin API is open in development and disabled in production.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    if (process.env.NODE_ENV === 'production') {
+      res.status(503).json({
+        success: false,
+        error: 'Admin API is disabled (ADMIN_API_KEY not set)'
+      });
+      return;
+    }
+    next();
+    return;
+  }
+
+  const bearer = req.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const provided = req.get('X-Admin-Key') || bearer;
+
+  if (provided !== adminKey) {
+    log(`Rejected admin request ${req.method} ${req.url}`);
+    res.status(401).json({
+      success: false,
+      error: 'Unauthorized'
+    });
+    return;
+  }
+
+  next();
+};
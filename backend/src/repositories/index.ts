@@ -0,0 +1,26 @@
+import { createSupabaseRepositories } from './supabase.repository';
+import { createMemoryRepositories } from './memory.repository';
+import { Repositories, StorageBackend } from './types';
+
+export * from './types';
+
+type Env = Record<string, string | undefined>;
+
+const STORAGE_BACKENDS: StorageBackend[] = ['supabase', 'memory'];
+
+/**
+ * Create the storage described by STORAGE_* environment variables.
+ * STORAGE_BACKEND=supabase (default) uses the Supabase project from SUPABASE_URL / SUPABASE_ANON_KEY;
+ * STORAGE_BACKEND=memory keeps everything in the process, snapshotted to STORAGE_FILE when set.
+ */
+export function createRepositoriesFromEnv(env: Env = process.env): Repositories {
+  const backend = (env.STORAGE_BACKEND || 'supabase') as StorageBackend;
+
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(`Unknown storage backend: ${backend}. Available: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+
+  return backend === 'memory' ? createMemoryRepositories(env.STORAGE_FILE) : createSupabaseRepositories();
+}
+
+export const repositories = createRepositoriesFromEnv();
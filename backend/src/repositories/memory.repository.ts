@@ -0,0 +1,684 @@
+import { randomUUID } from 'crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { CreateMarketEvent, EventChange, EventsQuery, MarketEvent, UpdateMarketEvent } from '../types/market-event';
+import { Job, JobKind, JobStatus } from '../types/job';
+import { ScheduledJob } from '../types/schedule';
+import { GenerationRun, GenerationRunSummary } from '../types/generation-run';
+import { UsageEntry, UsageRecord } from '../types/usage';
+import { PromptTemplate } from '../types/prompt-template';
+import { CronRun, CronRunOutcome } from '../types/cron-run';
+import { EventStatus } from '../utils/event-status';
+import {
+  CronRunRepository,
+  EventPage,
+  EventPageQuery,
+  EventRepository,
+  GenerationRunFilters,
+  GenerationRunRepository,
+  JobChanges,
+  JobRepository,
+  PromptTemplateRepository,
+  Repositories,
+  ScheduleChanges,
+  ScheduleRepository,
+  UsageRepository,
+  WeekReplacement
+} from './types';
+import debug from 'debug';
+
+const log = debug('market-events:storage');
+
+// Writes are batched into one snapshot per this interval
+const SNAPSHOT_DELAY_MS = 250;
+
+// Mirrors the generated significance_rank column used to sort by significance
+const SIGNIFICANCE_RANKS: Record<MarketEvent['significance'], number> = { High: 3, Medium: 2, Low: 1 };
+
+type StoredEvent = MarketEvent & { significance_rank: number };
+type SortValue = string | number | boolean | null;
+
+interface MemoryTables {
+  market_events: StoredEvent[];
+  event_changes: EventChange[];
+  generation_jobs: Job[];
+  scheduled_jobs: ScheduledJob[];
+  generation_runs: GenerationRun[];
+  ai_usage: UsageRecord[];
+  prompt_templates: PromptTemplate[];
+  cron_runs: CronRun[];
+}
+
+const emptyTables = (): MemoryTables => ({
+  market_events: [],
+  event_changes: [],
+  generation_jobs: [],
+  scheduled_jobs: [],
+  generation_runs: [],
+  ai_usage: [],
+  prompt_templates: [],
+  cron_runs: []
+});
+
+// Rows leave the store as copies, so callers can't change stored state by mutating what they got
+const copy = <T>(value: T): T => structuredClone(value);
+
+/**
+ * The tables of the in-memory backend. With a file, the tables are loaded from it on startup and
+ * written back shortly after each change, so data survives restarts of a single instance.
+ */
+export class MemoryStore {
+  readonly tables: MemoryTables;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+
+  constructor(private file?: string) {
+    this.tables = emptyTables();
+
+    if (file && existsSync(file)) {
+      Object.assign(this.tables, JSON.parse(readFileSync(file, 'utf8')));
+      log(`Loaded storage snapshot from ${file}`);
+    }
+  }
+
+  /**
+   * Schedule a snapshot after a change
+   */
+  changed(): void {
+    if (!this.file || this.snapshotTimer) {
+      return;
+    }
+
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      this.flush();
+    }, SNAPSHOT_DELAY_MS);
+  }
+
+  /**
+   * Write the snapshot now; the temporary file keeps a crash mid-write from corrupting the last snapshot
+   */
+  flush(): void {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      writeFileSync(`${this.file}.tmp`, JSON.stringify(this.tables));
+      renameSync(`${this.file}.tmp`, this.file);
+    } catch (error) {
+      log(`Error writing storage snapshot to ${this.file}:`, error);
+    }
+  }
+}
+
+/**
+ * Postgres ordering: nulls go first or last whatever the direction
+ */
+const compareValues = (a: SortValue | undefined, b: SortValue | undefined, ascending: boolean, nullsFirst: boolean): number => {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) {
+    return aNull && bNull ? 0 : (aNull ? -1 : 1) * (nullsFirst ? 1 : -1);
+  }
+
+  const order = a! < b! ? -1 : a! > b! ? 1 : 0;
+  return ascending ? order : -order;
+};
+
+const compareKeys = (a: SortValue[], b: SortValue[], ascending: boolean, nullsFirst: boolean): number => {
+  for (let i = 0; i < a.length; i++) {
+    const order = compareValues(a[i], b[i], ascending, nullsFirst);
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return 0;
+};
+
+const chronological = (a: MarketEvent, b: MarketEvent): number => {
+  return compareKeys([a.start_date ?? null, a.release_time ?? null], [b.start_date ?? null, b.release_time ?? null], true, true);
+};
+
+export class MemoryEventRepository implements EventRepository {
+  constructor(private store: MemoryStore) {}
+
+  private get rows(): StoredEvent[] {
+    return this.store.tables.market_events;
+  }
+
+  async findPage(page: EventPageQuery): Promise<EventPage> {
+    const keysOf = (event: StoredEvent) => page.columns.map(column => (event as Record<string, unknown>)[column] as SortValue ?? null);
+    const matching = this.rows.filter(event => this.matches(event, page.filters));
+
+    const events = matching
+      .filter(event => !page.after || compareKeys(keysOf(event), page.after, page.ascending, page.nullsFirst) > 0)
+      .sort((a, b) => compareKeys(keysOf(a), keysOf(b), page.ascending, page.nullsFirst))
+      .slice(page.offset, page.offset + page.limit);
+
+    return { events: copy(events), total: matching.length };
+  }
+
+  async findById(id: string): Promise<MarketEvent | null> {
+    const event = this.rows.find(row => row.id === id);
+    return event ? copy(event) : null;
+  }
+
+  async findByNameAndDate(name: string, date: string): Promise<MarketEvent | null> {
+    const event = this.rows.find(row => row.event === name && row.date === date);
+    return event ? copy(event) : null;
+  }
+
+  async findInRange(from: string, to: string): Promise<MarketEvent[]> {
+    return copy(this.rows
+      .filter(event => !!event.start_date && event.start_date <= to && !!event.end_date && event.end_date >= from)
+      .sort(chronological));
+  }
+
+  async findUpcoming(options: { from: string; until?: string; limit?: number }): Promise<MarketEvent[]> {
+    const events = this.rows
+      .filter(event => !!event.end_date && event.end_date >= options.from)
+      .filter(event => !options.until || (!!event.start_date && event.start_date <= options.until))
+      .sort(chronological);
+
+    return copy(options.limit ? events.slice(0, options.limit) : events);
+  }
+
+  async findWithoutDates(): Promise<MarketEvent[]> {
+    return copy(this.rows.filter(event => !event.start_date));
+  }
+
+  async insert(events: CreateMarketEvent[]): Promise<MarketEvent[]> {
+    return copy(this.insertRows(events));
+  }
+
+  async update(id: string, changes: UpdateMarketEvent): Promise<MarketEvent | null> {
+    const event = this.updateRow(id, changes);
+    return event ? copy(event) : null;
+  }
+
+  async setStatusEndedBefore(date: string, from: readonly EventStatus[], to: EventStatus): Promise<number> {
+    const now = new Date().toISOString();
+    const ended = this.rows.filter(event => from.includes(event.status || 'scheduled') && !!event.end_date && event.end_date < date);
+    ended.forEach(event => Object.assign(event, { status: to, updated_at: now }));
+
+    if (ended.length > 0) {
+      this.store.changed();
+    }
+    return ended.length;
+  }
+
+  async replaceWeek(replacement: WeekReplacement): Promise<void> {
+    // Check every update first so a missing row leaves the week untouched, like the rolled back transaction.
+    // The rest runs without yielding, so no other request sees the week half replaced.
+    const missing = replacement.updates.find(({ id }) => !this.rows.some(row => row.id === id));
+    if (missing) {
+      throw new Error(`Failed to replace week events: event ${missing.id} not found`);
+    }
+
+    this.deleteRows(row => replacement.deletes.includes(row.id!));
+    replacement.updates.forEach(({ id, changes }) => this.updateRow(id, changes));
+    this.insertRows(replacement.inserts);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.deleteRows(row => row.id === id);
+  }
+
+  async deleteAll(): Promise<number> {
+    return this.deleteRows(() => true);
+  }
+
+  async deleteEndedBefore(date: string): Promise<number> {
+    return this.deleteRows(row => !!row.end_date && row.end_date < date);
+  }
+
+  async insertChanges(changes: Omit<EventChange, 'id' | 'created_at'>[]): Promise<EventChange[]> {
+    return copy(this.insertChangeRows(changes));
+  }
+
+  async updateWithChange(id: string, changes: UpdateMarketEvent, change: Omit<EventChange, 'id' | 'created_at'>): Promise<EventChange | null> {
+    // Runs without yielding, so no other request sees the update without its change
+    if (!this.updateRow(id, changes)) {
+      return null;
+    }
+    return copy(this.insertChangeRows([change])[0]!);
+  }
+
+  async findChanges(eventId: string): Promise<EventChange[]> {
+    return copy(this.store.tables.event_changes
+      .filter(change => change.event_id === eventId)
+      .sort((a, b) => compareValues(a.created_at, b.created_at, false, false)));
+  }
+
+  private insertChangeRows(changes: Omit<EventChange, 'id' | 'created_at'>[]): EventChange[] {
+    const now = new Date().toISOString();
+    const recorded = changes.map(change => ({ ...copy(change), id: randomUUID(), created_at: now }));
+
+    this.store.tables.event_changes.push(...recorded);
+    this.store.changed();
+    return recorded;
+  }
+
+  private insertRows(events: CreateMarketEvent[]): StoredEvent[] {
+    const now = new Date().toISOString();
+    const created = events.map(event => this.withRank({
+      start_date: null,
+      end_date: null,
+      release_time: null,
+      timezone: null,
+      all_day: true,
+      status: 'scheduled',
+      citations: [],
+      unsourced: false,
+      confidence: null,
+      consensus: null,
+      prompt_name: null,
+      prompt_version: null,
+      ...copy(event),
+      id: randomUUID(),
+      created_at: now,
+      updated_at: now
+    } as MarketEvent));
+
+    this.rows.push(...created);
+    this.store.changed();
+    return created;
+  }
+
+  private updateRow(id: string, changes: UpdateMarketEvent): StoredEvent | null {
+    const index = this.rows.findIndex(row => row.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    this.rows[index] = this.withRank({ ...this.rows[index]!, ...copy(changes), updated_at: new Date().toISOString() });
+    this.store.changed();
+    return this.rows[index]!;
+  }
+
+  /**
+   * Delete the matching events and, like the foreign key cascade, their recorded changes
+   */
+  private deleteRows(predicate: (event: StoredEvent) => boolean): number {
+    const deleted = new Set(this.rows.filter(predicate).map(row => row.id));
+    if (deleted.size === 0) {
+      return 0;
+    }
+
+    this.store.tables.market_events = this.rows.filter(row => !deleted.has(row.id));
+    this.store.tables.event_changes = this.store.tables.event_changes.filter(change => !deleted.has(change.event_id));
+    this.store.changed();
+    return deleted.size;
+  }
+
+  private withRank(event: MarketEvent): StoredEvent {
+    return { ...event, significance_rank: SIGNIFICANCE_RANKS[event.significance] ?? 1 };
+  }
+
+  /**
+   * The filters of GET /api/market-events, as the Supabase backend applies them
+   */
+  private matches(event: StoredEvent, filters: EventsQuery): boolean {
+    if (filters.type?.length && !filters.type.includes(event.type)) return false;
+    if (filters.significance?.length && !filters.significance.includes(event.significance)) return false;
+    if (filters.sentiment?.length && !filters.sentiment.includes(event.market_sentiment)) return false;
+    if (filters.status?.length && !filters.status.includes(event.status || 'scheduled')) return false;
+    if (filters.date && !event.date.toLowerCase().includes(filters.date.toLowerCase())) return false;
+    // Date bounds select events overlapping the range, so multi-day events starting earlier are included
+    if (filters.from && !(event.end_date && event.end_date >= filters.from)) return false;
+    if (filters.to && !(event.start_date && event.start_date <= filters.to)) return false;
+
+    const hasCitations = (event.citations?.length || 0) > 0;
+    if (filters.has_citations !== undefined && filters.has_citations !== hasCitations) return false;
+
+    return true;
+  }
+}
+
+export class MemoryJobRepository implements JobRepository {
+  constructor(private store: MemoryStore) {}
+
+  private get rows(): Job[] {
+    return this.store.tables.generation_jobs;
+  }
+
+  async create(kind: JobKind, params: Record<string, unknown>): Promise<Job> {
+    const job: Job = {
+      id: randomUUID(),
+      kind,
+      status: 'queued',
+      params: copy(params),
+      progress: null,
+      result: null,
+      error: null,
+      attempts: 0,
+      created_at: new Date().toISOString(),
+      started_at: null,
+      heartbeat_at: null,
+      finished_at: null
+    };
+
+    this.rows.push(job);
+    this.store.changed();
+    return copy(job);
+  }
+
+  async findById(id: string): Promise<Job | null> {
+    const job = this.rows.find(row => row.id === id);
+    return job ? copy(job) : null;
+  }
+
+  async findQueued(limit: number): Promise<Job[]> {
+    return copy(this.rows
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => compareValues(a.created_at, b.created_at, true, false))
+      .slice(0, limit));
+  }
+
+  async findStale(heartbeatBefore: string): Promise<Job[]> {
+    return copy(this.rows.filter(job => job.status === 'running' && this.heartbeatBefore(job, heartbeatBefore)));
+  }
+
+  async transition(id: string, from: JobStatus, changes: JobChanges, heartbeatBefore?: string): Promise<Job | null> {
+    const job = this.rows.find(row => row.id === id);
+    if (!job || job.status !== from || (heartbeatBefore && !this.heartbeatBefore(job, heartbeatBefore))) {
+      return null;
+    }
+
+    Object.assign(job, copy(changes));
+    this.store.changed();
+    return copy(job);
+  }
+
+  async update(id: string, changes: JobChanges): Promise<void> {
+    const job = this.rows.find(row => row.id === id);
+    if (job) {
+      Object.assign(job, copy(changes));
+      this.store.changed();
+    }
+  }
+
+  private heartbeatBefore(job: Job, timestamp: string): boolean {
+    return job.heartbeat_at !== null && new Date(job.heartbeat_at).getTime() < new Date(timestamp).getTime();
+  }
+}
+
+export class MemoryScheduleRepository implements ScheduleRepository {
+  constructor(private store: MemoryStore) {}
+
+  private get rows(): ScheduledJob[] {
+    return this.store.tables.scheduled_jobs;
+  }
+
+  async list(): Promise<ScheduledJob[]> {
+    return copy(this.rows);
+  }
+
+  async insertIfMissing(job: Pick<ScheduledJob, 'name' | 'cron' | 'next_run_at'>): Promise<void> {
+    if (!this.rows.some(row => row.name === job.name)) {
+      await this.upsert(job);
+    }
+  }
+
+  async upsert(job: Pick<ScheduledJob, 'name' | 'cron'> & ScheduleChanges): Promise<ScheduledJob> {
+    let row = this.rows.find(existing => existing.name === job.name);
+    if (!row) {
+      const now = new Date().toISOString();
+      row = {
+        name: job.name,
+        cron: job.cron,
+        paused: false,
+        next_run_at: null,
+        last_run_at: null,
+        last_finished_at: null,
+        last_status: null,
+        last_result: null,
+        last_error: null,
+        locked_by: null,
+        locked_until: null,
+        created_at: now,
+        updated_at: now
+      };
+      this.rows.push(row);
+    }
+
+    Object.assign(row, copy(job));
+    this.store.changed();
+    return copy(row);
+  }
+
+  async update(name: string, changes: ScheduleChanges): Promise<void> {
+    const row = this.rows.find(existing => existing.name === name);
+    if (row) {
+      Object.assign(row, copy(changes));
+      this.store.changed();
+    }
+  }
+
+  async lock(name: string, changes: ScheduleChanges, conditions: { now: string; dueBy?: string }): Promise<ScheduledJob | null> {
+    const row = this.rows.find(existing => existing.name === name);
+    if (!row) {
+      return null;
+    }
+
+    const time = (value: string) => new Date(value).getTime();
+    const due = !conditions.dueBy
+      || (!row.paused && row.next_run_at !== null && time(row.next_run_at) <= time(conditions.dueBy));
+    const free = row.locked_until === null || time(row.locked_until) < time(conditions.now);
+    if (!due || !free) {
+      return null;
+    }
+
+    Object.assign(row, copy(changes));
+    this.store.changed();
+    return copy(row);
+  }
+
+  async release(name: string, lockedBy: string, changes: ScheduleChanges): Promise<void> {
+    const row = this.rows.find(existing => existing.name === name);
+    if (row && row.locked_by === lockedBy) {
+      Object.assign(row, copy(changes));
+      this.store.changed();
+    }
+  }
+}
+
+export class MemoryGenerationRunRepository implements GenerationRunRepository {
+  constructor(private store: MemoryStore) {}
+
+  private get rows(): GenerationRun[] {
+    return this.store.tables.generation_runs;
+  }
+
+  async create(run: Pick<GenerationRun, 'trigger' | 'status' | 'provider' | 'model'>): Promise<GenerationRun> {
+    const created: GenerationRun = {
+      id: randomUUID(),
+      ...run,
+      week_start: null,
+      prompt_name: null,
+      prompt_version: null,
+      prompt: null,
+      raw_response: null,
+      citations: [],
+      responses: [],
+      parsed_count: null,
+      rejected_count: null,
+      created_count: null,
+      skipped_count: null,
+      duration_ms: null,
+      error: null,
+      started_at: new Date().toISOString(),
+      finished_at: null
+    };
+
+    this.rows.push(created);
+    this.store.changed();
+    return copy(created);
+  }
+
+  async update(id: string, changes: Partial<Omit<GenerationRun, 'id'>>): Promise<GenerationRun> {
+    const run = this.rows.find(row => row.id === id);
+    if (!run) {
+      throw new Error(`Failed to update generation run: run ${id} not found`);
+    }
+
+    Object.assign(run, copy(changes));
+    this.store.changed();
+    return copy(run);
+  }
+
+  async list(filters: GenerationRunFilters): Promise<{ runs: GenerationRunSummary[]; total: number }> {
+    const matching = this.rows
+      .filter(run => !filters.trigger || run.trigger === filters.trigger)
+      .filter(run => !filters.status || run.status === filters.status)
+      .filter(run => !filters.week || run.week_start === filters.week)
+      .sort((a, b) => compareValues(a.started_at, b.started_at, false, false));
+
+    // Listings leave out the archived prompt and responses
+    const runs = matching
+      .slice(filters.offset, filters.offset + filters.limit)
+      .map(({ prompt, raw_response, citations, responses, ...summary }) => summary);
+
+    return { runs: copy(runs), total: matching.length };
+  }
+
+  async findById(id: string): Promise<GenerationRun | null> {
+    const run = this.rows.find(row => row.id === id);
+    return run ? copy(run) : null;
+  }
+}
+
+export class MemoryUsageRepository implements UsageRepository {
+  constructor(private store: MemoryStore) {}
+
+  async insert(weekStart: string, entries: UsageEntry[]): Promise<void> {
+    const now = new Date().toISOString();
+    this.store.tables.ai_usage.push(...entries.map(entry => ({
+      ...copy(entry),
+      id: randomUUID(),
+      week_start: weekStart,
+      created_at: now
+    })));
+    this.store.changed();
+  }
+
+  async find(filters: { from?: string; to?: string; createdSince?: string }): Promise<UsageRecord[]> {
+    return copy(this.store.tables.ai_usage
+      .filter(record => !filters.from || record.week_start >= filters.from)
+      .filter(record => !filters.to || record.week_start <= filters.to)
+      .filter(record => !filters.createdSince || new Date(record.created_at).getTime() >= new Date(filters.createdSince).getTime())
+      .sort((a, b) => compareValues(a.created_at, b.created_at, false, false)));
+  }
+}
+
+export class MemoryPromptTemplateRepository implements PromptTemplateRepository {
+  constructor(private store: MemoryStore) {}
+
+  private get rows(): PromptTemplate[] {
+    return this.store.tables.prompt_templates;
+  }
+
+  async listNames(): Promise<string[]> {
+    return Array.from(new Set(this.rows.map(row => row.name)));
+  }
+
+  async findVersions(name: string): Promise<PromptTemplate[]> {
+    return copy(this.rows
+      .filter(row => row.name === name)
+      .sort((a, b) => b.version - a.version));
+  }
+
+  async findActive(name: string): Promise<PromptTemplate | null> {
+    const template = this.rows.find(row => row.name === name && row.is_active);
+    return template ? copy(template) : null;
+  }
+
+  async insert(template: Omit<PromptTemplate, 'id' | 'created_at'>): Promise<PromptTemplate> {
+    // Same guarantee as the unique (name, version) constraint
+    if (this.rows.some(row => row.name === template.name && row.version === template.version)) {
+      throw new Error(`Failed to create prompt template: ${template.name} v${template.version} already exists`);
+    }
+
+    const created: PromptTemplate = { ...copy(template), id: randomUUID(), created_at: new Date().toISOString() };
+    this.rows.push(created);
+    this.store.changed();
+    return copy(created);
+  }
+
+  async deactivate(name: string): Promise<void> {
+    this.rows
+      .filter(row => row.name === name && row.is_active)
+      .forEach(row => { row.is_active = false; });
+    this.store.changed();
+  }
+
+  async activate(name: string, version: number): Promise<PromptTemplate | null> {
+    const template = this.rows.find(row => row.name === name && row.version === version);
+    if (!template) {
+      return null;
+    }
+
+    this.rows
+      .filter(row => row.name === name && row.is_active)
+      .forEach(row => { row.is_active = false; });
+    template.is_active = true;
+    this.store.changed();
+    return copy(template);
+  }
+}
+
+export class MemoryCronRunRepository implements CronRunRepository {
+  constructor(private store: MemoryStore) {}
+
+  private get rows(): CronRun[] {
+    return this.store.tables.cron_runs;
+  }
+
+  async claim(name: string, weekStart: string, staleBefore: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const row = this.rows.find(existing => existing.name === name && existing.week_start === weekStart);
+
+    if (!row) {
+      this.rows.push({ name, week_start: weekStart, status: 'running', result: null, error: null, started_at: now, finished_at: null });
+      this.store.changed();
+      return true;
+    }
+
+    const stale = row.status === 'running' && new Date(row.started_at).getTime() < new Date(staleBefore).getTime();
+    if (row.status !== 'failed' && !stale) {
+      return false;
+    }
+
+    Object.assign(row, { status: 'running', started_at: now, finished_at: null, error: null });
+    this.store.changed();
+    return true;
+  }
+
+  async finish(name: string, weekStart: string, outcome: CronRunOutcome): Promise<void> {
+    const row = this.rows.find(existing => existing.name === name && existing.week_start === weekStart);
+    if (row) {
+      Object.assign(row, copy(outcome), { finished_at: new Date().toISOString() });
+      this.store.changed();
+    }
+  }
+}
+
+/**
+ * Repositories kept in this process's memory, snapshotted to file when one is given. Locks and
+ * conditional updates only hold within the process, so run a single backend instance with them.
+ */
+export function createMemoryRepositories(file?: string): Repositories {
+  const store = new MemoryStore(file);
+
+  return {
+    backend: 'memory',
+    events: new MemoryEventRepository(store),
+    jobs: new MemoryJobRepository(store),
+    schedules: new MemoryScheduleRepository(store),
+    generationRuns: new MemoryGenerationRunRepository(store),
+    usage: new MemoryUsageRepository(store),
+    promptTemplates: new MemoryPromptTemplateRepository(store),
+    cronRuns: new MemoryCronRunRepository(store),
+    ping: async () => true,
+    close: () => store.flush()
+  };
+}
@@ -0,0 +1,118 @@
+import { SupabaseCronRunRepository, SupabaseEventRepository } from './supabase.repository';
+
+// Supabase calls made by the repository (table, then each builder method with its arguments),
+// answered in order from mockResponses
+const mockCalls: unknown[][][] = [];
+const mockResponses: { data?: unknown; error: { code?: string; message: string } | null }[] = [];
+
+jest.mock('../utils/supabase', () => ({
+  getSupabase: () => ({
+    from: (table: string) => {
+      const calls: unknown[][] = [['from', table]];
+      mockCalls.push(calls);
+
+      const builder: Record<string, unknown> = {
+        then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve(mockResponses.shift()).then(resolve, reject)
+      };
+      ['insert', 'update', 'eq', 'or', 'select'].forEach(method => {
+        builder[method] = (...args: unknown[]) => {
+          calls.push([method, ...args]);
+          return builder;
+        };
+      });
+      return builder;
+    },
+    rpc: (name: string, args: unknown) => {
+      mockCalls.push([['rpc', name, args]]);
+      return { maybeSingle: () => Promise.resolve(mockResponses.shift()) };
+    }
+  }),
+  testSupabaseConnection: async () => true
+}));
+
+describe('SupabaseCronRunRepository.claim', () => {
+  const cronRuns = new SupabaseCronRunRepository();
+  const staleBefore = '2025-11-24T11:00:00.000Z';
+
+  beforeEach(() => {
+    mockCalls.length = 0;
+    mockResponses.length = 0;
+  });
+
+  it('claims an unclaimed week by inserting its run', async () => {
+    mockResponses.push({ error: null });
+
+    await expect(cronRuns.claim('weekly-generation', '2025-11-23', staleBefore)).resolves.toBe(true);
+    expect(mockCalls).toEqual([[
+      ['from', 'cron_runs'],
+      ['insert', { name: 'weekly-generation', week_start: '2025-11-23', status: 'running' }]
+    ]]);
+  });
+
+  it('takes over a week whose run failed or went stale', async () => {
+    mockResponses.push({ error: { code: '23505', message: 'duplicate key value violates unique constraint' } });
+    mockResponses.push({ data: [{ name: 'weekly-generation' }], error: null });
+
+    await expect(cronRuns.claim('weekly-generation', '2025-11-23', staleBefore)).resolves.toBe(true);
+    expect(mockCalls[1]).toEqual([
+      ['from', 'cron_runs'],
+      ['update', { status: 'running', started_at: expect.any(String), finished_at: null, error: null }],
+      ['eq', 'name', 'weekly-generation'],
+      ['eq', 'week_start', '2025-11-23'],
+      ['or', `status.eq.failed,and(status.eq.running,started_at.lt."${staleBefore}")`],
+      ['select', 'name']
+    ]);
+  });
+
+  it('leaves a week to the run that holds it', async () => {
+    mockResponses.push({ error: { code: '23505', message: 'duplicate key value violates unique constraint' } });
+    mockResponses.push({ data: [], error: null });
+
+    await expect(cronRuns.claim('weekly-generation', '2025-11-23', staleBefore)).resolves.toBe(false);
+  });
+
+  it('fails on any other database error', async () => {
+    mockResponses.push({ error: { code: '42P01', message: 'relation "cron_runs" does not exist' } });
+
+    await expect(cronRuns.claim('weekly-generation', '2025-11-23', staleBefore))
+      .rejects.toThrow('Failed to claim cron run: relation "cron_runs" does not exist');
+    expect(mockCalls).toHaveLength(1);
+  });
+});
+
+describe('SupabaseEventRepository.updateWithChange', () => {
+  const events = new SupabaseEventRepository();
+  const change = {
+    event_id: 'event-1',
+    run_id: 'run-1',
+    kind: 'updated' as const,
+    changes: [{ field: 'date' as const, from: '2025-11-25', to: '2025-11-26' }],
+    reason: 'Moved a day',
+    citations: ['https://example.com/calendar']
+  };
+
+  beforeEach(() => {
+    mockCalls.length = 0;
+    mockResponses.length = 0;
+  });
+
+  it('updates the event and records its change in one call', async () => {
+    const recorded = { ...change, id: 'change-1', created_at: '2025-11-24T12:00:00.000Z' };
+    mockResponses.push({ data: recorded, error: null });
+
+    await expect(events.updateWithChange('event-1', { date: '2025-11-26' }, change)).resolves.toEqual(recorded);
+    expect(mockCalls).toEqual([[
+      ['rpc', 'update_event_with_change', { p_id: 'event-1', p_changes: { date: '2025-11-26' }, p_change: change }]
+    ]]);
+  });
+
+  it('returns null for a missing event and fails on a database error', async () => {
+    mockResponses.push({ data: null, error: null });
+    await expect(events.updateWithChange('event-1', { date: '2025-11-26' }, change)).resolves.toBeNull();
+
+    mockResponses.push({ error: { message: 'function update_event_with_change does not exist' } });
+    await expect(events.updateWithChange('event-1', { date: '2025-11-26' }, change))
+      .rejects.toThrow('Failed to update market event: function update_event_with_change does not exist');
+  });
+});
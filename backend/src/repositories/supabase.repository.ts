@@ -0,0 +1,834 @@
+import { getSupabase, testSupabaseConnection } from '../utils/supabase';
+import { Database } from '../types/database-types';
+import { CreateMarketEvent, EventChange, EventsQuery, MarketEvent, UpdateMarketEvent } from '../types/market-event';
+import { Job, JobKind, JobStatus } from '../types/job';
+import { ScheduledJob } from '../types/schedule';
+import { GenerationRun, GenerationRunSummary } from '../types/generation-run';
+import { UsageEntry, UsageRecord } from '../types/usage';
+import { PromptTemplate } from '../types/prompt-template';
+import { CronRunOutcome } from '../types/cron-run';
+import { EventStatus } from '../utils/event-status';
+import {
+  CronRunRepository,
+  EventPage,
+  EventPageQuery,
+  EventRepository,
+  GenerationRunFilters,
+  GenerationRunRepository,
+  JobChanges,
+  JobRepository,
+  PromptTemplateRepository,
+  Repositories,
+  ScheduleChanges,
+  ScheduleRepository,
+  UsageRepository,
+  WeekReplacement
+} from './types';
+import debug from 'debug';
+
+const log = debug('market-events:storage');
+
+// Columns returned when listing runs; the archived prompt and responses are only loaded per run
+const RUN_SUMMARY_COLUMNS = 'id, trigger, status, week_start, provider, model, prompt_name, prompt_version, parsed_count, rejected_count, created_count, skipped_count, duration_ms, error, started_at, finished_at';
+
+type MarketEventRow = Database['public']['Tables']['market_events']['Row'];
+
+// Nullable columns come back as null where MarketEvent leaves the field out; callers treat both as missing
+const toEvent = (row: MarketEventRow): MarketEvent => row as unknown as MarketEvent;
+
+// Filter methods shared by the page and count queries
+interface EventsFilterBuilder {
+  in(column: string, values: readonly unknown[]): this;
+  ilike(column: string, pattern: string): this;
+  gte(column: string, value: unknown): this;
+  lte(column: string, value: unknown): this;
+  neq(column: string, value: unknown): this;
+  or(filters: string): this;
+}
+
+export class SupabaseEventRepository implements EventRepository {
+  async findPage(page: EventPageQuery): Promise<EventPage> {
+    const orFilters = this.buildFilters(page.filters);
+    if (page.after) {
+      orFilters.push(this.buildKeysetFilter(page.columns, page.after, page.ascending, page.nullsFirst));
+    }
+
+    let query = getSupabase()
+      .from('market_events')
+      .select('*');
+    query = this.applyFilters(query, page.filters, orFilters);
+    for (const column of page.columns) {
+      query = query.order(column, { ascending: page.ascending, nullsFirst: page.nullsFirst });
+    }
+    query = query.range(page.offset, page.offset + page.limit - 1);
+
+    // Totals count every match, not just the rows after the cursor
+    const countQuery = this.applyFilters(
+      getSupabase().from('market_events').select('*', { count: 'exact', head: true }),
+      page.filters,
+      this.buildFilters(page.filters)
+    );
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([query, countQuery]);
+
+    if (error || countError) {
+      const message = (error || countError)!.message;
+      log('Error fetching market events:', error || countError);
+      throw new Error(`Failed to fetch market events: ${message}`);
+    }
+
+    return { events: (data || []).map(toEvent), total: count || 0 };
+  }
+
+  async findById(id: string): Promise<MarketEvent | null> {
+    const { data, error } = await getSupabase()
+      .from('market_events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      log('Error fetching market event by ID:', error);
+      throw new Error(`Failed to fetch market event: ${error.message}`);
+    }
+
+    return data ? toEvent(data) : null;
+  }
+
+  async findByNameAndDate(event: string, date: string): Promise<MarketEvent | null> {
+    const { data, error } = await getSupabase()
+      .from('market_events')
+      .select('*')
+      .eq('event', event)
+      .eq('date', date)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      log('Error checking for existing event:', error);
+      throw new Error(`Failed to check for existing event: ${error.message}`);
+    }
+
+    return data ? toEvent(data) : null;
+  }
+
+  async findInRange(from: string, to: string): Promise<MarketEvent[]> {
+    const { data, error } = await getSupabase()
+      .from('market_events')
+      .select('*')
+      .lte('start_date', to)
+      .gte('end_date', from)
+      .order('start_date', { ascending: true })
+      .order('release_time', { ascending: true, nullsFirst: true });
+
+    if (error) {
+      log('Error fetching market events in range:', error);
+      throw new Error(`Failed to fetch market events: ${error.message}`);
+    }
+
+    return (data || []).map(toEvent);
+  }
+
+  async findUpcoming(options: { from: string; until?: string; limit?: number }): Promise<MarketEvent[]> {
+    let query = getSupabase()
+      .from('market_events')
+      .select('*')
+      .gte('end_date', options.from)
+      .order('start_date', { ascending: true })
+      .order('release_time', { ascending: true, nullsFirst: true });
+
+    if (options.until) {
+      query = query.lte('start_date', options.until);
+    }
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      log('Error fetching upcoming market events:', error);
+      throw new Error(`Failed to fetch upcoming market events: ${error.message}`);
+    }
+
+    return (data || []).map(toEvent);
+  }
+
+  async findWithoutDates(): Promise<MarketEvent[]> {
+    const { data, error } = await getSupabase()
+      .from('market_events')
+      .select('*')
+      .is('start_date', null);
+
+    if (error) {
+      log('Error fetching events without dates:', error);
+      throw new Error(`Failed to fetch events without dates: ${error.message}`);
+    }
+
+    return (data || []).map(toEvent);
+  }
+
+  async insert(events: CreateMarketEvent[]): Promise<MarketEvent[]> {
+    const { data, error } = await getSupabase()
+      .from('market_events')
+      .insert(events)
+      .select();
+
+    if (error) {
+      log('Error creating market events:', error);
+      throw new Error(`Failed to create market events: ${error.message}`);
+    }
+
+    return data.map(toEvent);
+  }
+
+  async update(id: string, changes: UpdateMarketEvent): Promise<MarketEvent | null> {
+    const { data, error } = await getSupabase()
+      .from('market_events')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      log('Error updating market event:', error);
+      throw new Error(`Failed to update market event: ${error.message}`);
+    }
+
+    return data ? toEvent(data) : null;
+  }
+
+  async setStatusEndedBefore(date: string, from: readonly EventStatus[], to: EventStatus): Promise<number> {
+    const { data, error } = await getSupabase()
+      .from('market_events')
+      .update({ status: to })
+      .in('status', from)
+      .lt('end_date', date)
+      .select('id');
+
+    if (error) {
+      log('Error updating status of ended market events:', error);
+      throw new Error(`Failed to update status of ended market events: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  async replaceWeek(replacement: WeekReplacement): Promise<void> {
+    // replace_week_events applies the changes in one transaction
+    const { error } = await getSupabase().rpc('replace_week_events', {
+      p_inserts: replacement.inserts,
+      p_updates: replacement.updates,
+      p_deletes: replacement.deletes
+    });
+
+    if (error) {
+      log('Error replacing week events:', error);
+      throw new Error(`Failed to replace week events: ${error.message}`);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await getSupabase()
+      .from('market_events')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      log('Error deleting market event:', error);
+      throw new Error(`Failed to delete market event: ${error.message}`);
+    }
+  }
+
+  async deleteAll(): Promise<number> {
+    const { data, error } = await getSupabase()
+      .from('market_events')
+      .delete()
+      .neq('id', '00000000-0000-0000-0000-000000000000') // Delete all (using a non-existent UUID to delete everything)
+      .select('id');
+
+    if (error) {
+      log('Error deleting all market events:', error);
+      throw new Error(`Failed to delete market events: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  async deleteEndedBefore(date: string): Promise<number> {
+    const { data, error } = await getSupabase()
+      .from('market_events')
+      .delete()
+      .lt('end_date', date)
+      .select('id');
+
+    if (error) {
+      log('Error deleting old market events:', error);
+      throw new Error(`Failed to delete old market events: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  async insertChanges(changes: Omit<EventChange, 'id' | 'created_at'>[]): Promise<EventChange[]> {
+    const { data, error } = await getSupabase()
+      .from('event_changes')
+      .insert(changes)
+      .select();
+
+    if (error) {
+      log('Error recording event changes:', error);
+      throw new Error(`Failed to record event changes: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateWithChange(id: string, changes: UpdateMarketEvent, change: Omit<EventChange, 'id' | 'created_at'>): Promise<EventChange | null> {
+    // update_event_with_change updates the event and records the change in one transaction
+    const { data, error } = await getSupabase()
+      .rpc('update_event_with_change', { p_id: id, p_changes: changes, p_change: change })
+      .maybeSingle();
+
+    if (error) {
+      log('Error updating market event with its change:', error);
+      throw new Error(`Failed to update market event: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async findChanges(eventId: string): Promise<EventChange[]> {
+    const { data, error } = await getSupabase()
+      .from('event_changes')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      log('Error fetching event changes:', error);
+      throw new Error(`Failed to fetch event changes: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Filters that need PostgREST "or" syntax, combined by applyFilters
+   */
+  private buildFilters(options: EventsQuery): string[] {
+    return options.has_citations === false ? ['citations.is.null,citations.eq.{}'] : [];
+  }
+
+  /**
+   * Apply the query filters shared by the page and count queries
+   */
+  private applyFilters<Q extends EventsFilterBuilder>(query: Q, options: EventsQuery, orFilters: string[]): Q {
+    if (options.type?.length) {
+      query = query.in('type', options.type);
+    }
+    if (options.significance?.length) {
+      query = query.in('significance', options.significance);
+    }
+    if (options.sentiment?.length) {
+      query = query.in('market_sentiment', options.sentiment);
+    }
+    if (options.status?.length) {
+      query = query.in('status', options.status);
+    }
+    if (options.date) {
+      query = query.ilike('date', `%${options.date}%`);
+    }
+    // Date bounds select events overlapping the range, so multi-day events starting earlier are included
+    if (options.from) {
+      query = query.gte('end_date', options.from);
+    }
+    if (options.to) {
+      query = query.lte('start_date', options.to);
+    }
+    if (options.has_citations === true) {
+      query = query.neq('citations', '{}');
+    }
+
+    // A request carries a single "or" parameter, so several groups are nested under one "and"
+    if (orFilters.length === 1) {
+      query = query.or(orFilters[0]!);
+    } else if (orFilters.length > 1) {
+      query = query.or(`and(${orFilters.map(filter => `or(${filter})`).join(',')})`);
+    }
+
+    return query;
+  }
+
+  /**
+   * Rows after keys in the given order: (c1 > v1) or (c1 = v1 and c2 > v2) or ...
+   */
+  private buildKeysetFilter(columns: string[], keys: (string | number | null)[], ascending: boolean, nullsFirst: boolean): string {
+    const quote = (value: string | number) => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+    const equal = (column: string, value: string | number | null) =>
+      value === null ? `${column}.is.null` : `${column}.eq.${quote(value)}`;
+
+    // Nulls come first or last, so "after" also depends on which side of the non-null values they are on
+    const after = (column: string, value: string | number | null): string | null => {
+      if (value === null) {
+        return nullsFirst ? `${column}.not.is.null` : null;
+      }
+      const greater = `${column}.${ascending ? 'gt' : 'lt'}.${quote(value)}`;
+      return nullsFirst ? greater : `or(${greater},${column}.is.null)`;
+    };
+
+    const branches = columns.map((column, index) => {
+      const condition = after(column, keys[index] ?? null);
+      if (!condition) {
+        return null;
+      }
+      const equalities = columns.slice(0, index).map((previous, i) => equal(previous, keys[i] ?? null));
+      return equalities.length > 0 ? `and(${[...equalities, condition].join(',')})` : condition;
+    }).filter((branch): branch is string => branch !== null);
+
+    // No row can follow the cursor (only possible with a hand-made cursor)
+    return branches.length > 0 ? branches.join(',') : 'id.is.null';
+  }
+}
+
+export class SupabaseJobRepository implements JobRepository {
+  async create(kind: JobKind, params: Record<string, unknown>): Promise<Job> {
+    const { data, error } = await getSupabase()
+      .from('generation_jobs')
+      .insert({ kind, params, status: 'queued' })
+      .select()
+      .single();
+
+    if (error) {
+      log('Error queueing job:', error);
+      throw new Error(`Failed to queue job: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async findById(id: string): Promise<Job | null> {
+    const { data, error } = await getSupabase()
+      .from('generation_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      log('Error fetching job:', error);
+      throw new Error(`Failed to fetch job: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async findQueued(limit: number): Promise<Job[]> {
+    const { data, error } = await getSupabase()
+      .from('generation_jobs')
+      .select('*')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch queued jobs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async findStale(heartbeatBefore: string): Promise<Job[]> {
+    const { data, error } = await getSupabase()
+      .from('generation_jobs')
+      .select('*')
+      .eq('status', 'running')
+      .lt('heartbeat_at', heartbeatBefore);
+
+    if (error) {
+      throw new Error(`Failed to fetch stale jobs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async transition(id: string, from: JobStatus, changes: JobChanges, heartbeatBefore?: string): Promise<Job | null> {
+    let query = getSupabase()
+      .from('generation_jobs')
+      .update(changes)
+      .eq('id', id)
+      .eq('status', from);
+
+    if (heartbeatBefore) {
+      query = query.lt('heartbeat_at', heartbeatBefore);
+    }
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update job: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async update(id: string, changes: JobChanges): Promise<void> {
+    const { error } = await getSupabase()
+      .from('generation_jobs')
+      .update(changes)
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update job: ${error.message}`);
+    }
+  }
+}
+
+export class SupabaseScheduleRepository implements ScheduleRepository {
+  async list(): Promise<ScheduledJob[]> {
+    const { data, error } = await getSupabase()
+      .from('scheduled_jobs')
+      .select('*');
+
+    if (error) {
+      log('Error fetching scheduled jobs:', error);
+      throw new Error(`Failed to fetch scheduled jobs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async insertIfMissing(job: Pick<ScheduledJob, 'name' | 'cron' | 'next_run_at'>): Promise<void> {
+    // Another instance booting at the same time may insert it first
+    const { error } = await getSupabase()
+      .from('scheduled_jobs')
+      .upsert(job, { onConflict: 'name', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to store schedule: ${error.message}`);
+    }
+  }
+
+  async upsert(job: Pick<ScheduledJob, 'name' | 'cron'> & ScheduleChanges): Promise<ScheduledJob> {
+    const { data, error } = await getSupabase()
+      .from('scheduled_jobs')
+      .upsert(job, { onConflict: 'name' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store schedule: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async update(name: string, changes: ScheduleChanges): Promise<void> {
+    const { error } = await getSupabase()
+      .from('scheduled_jobs')
+      .update(changes)
+      .eq('name', name);
+
+    if (error) {
+      throw new Error(`Failed to update scheduled job: ${error.message}`);
+    }
+  }
+
+  async lock(name: string, changes: ScheduleChanges, conditions: { now: string; dueBy?: string }): Promise<ScheduledJob | null> {
+    let query = getSupabase()
+      .from('scheduled_jobs')
+      .update(changes)
+      .eq('name', name);
+
+    if (conditions.dueBy) {
+      query = query
+        .eq('paused', false)
+        .lte('next_run_at', conditions.dueBy);
+    }
+
+    const { data, error } = await query
+      .or(`locked_until.is.null,locked_until.lt."${conditions.now}"`)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to lock scheduled job: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async release(name: string, lockedBy: string, changes: ScheduleChanges): Promise<void> {
+    const { error } = await getSupabase()
+      .from('scheduled_jobs')
+      .update(changes)
+      .eq('name', name)
+      .eq('locked_by', lockedBy);
+
+    if (error) {
+      throw new Error(`Failed to release scheduled job: ${error.message}`);
+    }
+  }
+}
+
+export class SupabaseGenerationRunRepository implements GenerationRunRepository {
+  async create(run: Pick<GenerationRun, 'trigger' | 'status' | 'provider' | 'model'>): Promise<GenerationRun> {
+    const { data, error } = await getSupabase()
+      .from('generation_runs')
+      .insert(run)
+      .select()
+      .single();
+
+    if (error) {
+      log('Error creating generation run:', error);
+      throw new Error(`Failed to create generation run: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async update(id: string, changes: Partial<Omit<GenerationRun, 'id'>>): Promise<GenerationRun> {
+    const { data, error } = await getSupabase()
+      .from('generation_runs')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      log('Error updating generation run:', error);
+      throw new Error(`Failed to update generation run: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async list(filters: GenerationRunFilters): Promise<{ runs: GenerationRunSummary[]; total: number }> {
+    let query = getSupabase()
+      .from('generation_runs')
+      .select(RUN_SUMMARY_COLUMNS, { count: 'exact' })
+      .order('started_at', { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (filters.trigger) {
+      query = query.eq('trigger', filters.trigger);
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.week) {
+      query = query.eq('week_start', filters.week);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      log('Error listing generation runs:', error);
+      throw new Error(`Failed to list generation runs: ${error.message}`);
+    }
+
+    return { runs: data || [], total: count || 0 };
+  }
+
+  async findById(id: string): Promise<GenerationRun | null> {
+    const { data, error } = await getSupabase()
+      .from('generation_runs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      log('Error fetching generation run:', error);
+      throw new Error(`Failed to fetch generation run: ${error.message}`);
+    }
+
+    return data;
+  }
+}
+
+export class SupabaseUsageRepository implements UsageRepository {
+  async insert(weekStart: string, entries: UsageEntry[]): Promise<void> {
+    const { error } = await getSupabase()
+      .from('ai_usage')
+      .insert(entries.map(entry => ({ ...entry, week_start: weekStart })));
+
+    if (error) {
+      log('Error recording AI usage:', error);
+      throw new Error(`Failed to record AI usage: ${error.message}`);
+    }
+  }
+
+  async find(filters: { from?: string; to?: string; createdSince?: string }): Promise<UsageRecord[]> {
+    let query = getSupabase()
+      .from('ai_usage')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (filters.from) {
+      query = query.gte('week_start', filters.from);
+    }
+    if (filters.to) {
+      query = query.lte('week_start', filters.to);
+    }
+    if (filters.createdSince) {
+      query = query.gte('created_at', filters.createdSince);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      log('Error fetching AI usage:', error);
+      throw new Error(`Failed to fetch AI usage: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
+
+export class SupabasePromptTemplateRepository implements PromptTemplateRepository {
+  async listNames(): Promise<string[]> {
+    const { data, error } = await getSupabase()
+      .from('prompt_templates')
+      .select('name');
+
+    if (error) {
+      log('Error listing prompt templates:', error);
+      throw new Error(`Failed to list prompt templates: ${error.message}`);
+    }
+
+    return Array.from(new Set((data || []).map(row => row.name)));
+  }
+
+  async findVersions(name: string): Promise<PromptTemplate[]> {
+    const { data, error } = await getSupabase()
+      .from('prompt_templates')
+      .select('*')
+      .eq('name', name)
+      .order('version', { ascending: false });
+
+    if (error) {
+      log('Error fetching prompt template versions:', error);
+      throw new Error(`Failed to fetch prompt template versions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async findActive(name: string): Promise<PromptTemplate | null> {
+    const { data, error } = await getSupabase()
+      .from('prompt_templates')
+      .select('*')
+      .eq('name', name)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      log('Error fetching active prompt template:', error);
+      throw new Error(`Failed to fetch active prompt template: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async insert(template: Omit<PromptTemplate, 'id' | 'created_at'>): Promise<PromptTemplate> {
+    const { data, error } = await getSupabase()
+      .from('prompt_templates')
+      .insert(template)
+      .select()
+      .single();
+
+    if (error) {
+      log('Error creating prompt template:', error);
+      throw new Error(`Failed to create prompt template: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deactivate(name: string): Promise<void> {
+    const { error } = await getSupabase()
+      .from('prompt_templates')
+      .update({ is_active: false })
+      .eq('name', name)
+      .eq('is_active', true);
+
+    if (error) {
+      log('Error deactivating prompt template:', error);
+      throw new Error(`Failed to deactivate prompt template: ${error.message}`);
+    }
+  }
+
+  async activate(name: string, version: number): Promise<PromptTemplate | null> {
+    // activate_prompt_template deactivates the current version and activates this one in one transaction
+    const { data, error } = await getSupabase()
+      .rpc('activate_prompt_template', { p_name: name, p_version: version })
+      .maybeSingle();
+
+    if (error) {
+      log('Error activating prompt template:', error);
+      throw new Error(`Failed to activate prompt template: ${error.message}`);
+    }
+
+    return data;
+  }
+}
+
+export class SupabaseCronRunRepository implements CronRunRepository {
+  async claim(name: string, weekStart: string, staleBefore: string): Promise<boolean> {
+    const { error } = await getSupabase()
+      .from('cron_runs')
+      .insert({ name, week_start: weekStart, status: 'running' });
+
+    if (!error) {
+      return true;
+    }
+    if (error.code !== '23505') { // Anything but the week being claimed before
+      throw new Error(`Failed to claim cron run: ${error.message}`);
+    }
+
+    // Take the week over only if the earlier run failed or was cut off
+    const { data, error: updateError } = await getSupabase()
+      .from('cron_runs')
+      .update({ status: 'running', started_at: new Date().toISOString(), finished_at: null, error: null })
+      .eq('name', name)
+      .eq('week_start', weekStart)
+      .or(`status.eq.failed,and(status.eq.running,started_at.lt."${staleBefore}")`)
+      .select('name');
+
+    if (updateError) {
+      throw new Error(`Failed to claim cron run: ${updateError.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  async finish(name: string, weekStart: string, outcome: CronRunOutcome): Promise<void> {
+    const { error } = await getSupabase()
+      .from('cron_runs')
+      .update({ ...outcome, finished_at: new Date().toISOString() })
+      .eq('name', name)
+      .eq('week_start', weekStart);
+
+    if (error) {
+      throw new Error(`Failed to record cron run: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Repositories backed by the Supabase project in SUPABASE_URL / SUPABASE_ANON_KEY
+ */
+export function createSupabaseRepositories(): Repositories {
+  return {
+    backend: 'supabase',
+    events: new SupabaseEventRepository(),
+    jobs: new SupabaseJobRepository(),
+    schedules: new SupabaseScheduleRepository(),
+    generationRuns: new SupabaseGenerationRunRepository(),
+    usage: new SupabaseUsageRepository(),
+    promptTemplates: new SupabasePromptTemplateRepository(),
+    cronRuns: new SupabaseCronRunRepository(),
+    ping: testSupabaseConnection,
+    close: () => {}
+  };
+}
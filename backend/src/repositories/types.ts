@@ -0,0 +1,139 @@
+import { CreateMarketEvent, EventChange, EventsQuery, MarketEvent, UpdateMarketEvent } from '../types/market-event';
+import { Job, JobKind, JobStatus } from '../types/job';
+import { ScheduledJob } from '../types/schedule';
+import { GenerationRun, GenerationRunStatus, GenerationRunSummary, GenerationTrigger } from '../types/generation-run';
+import { UsageEntry, UsageRecord } from '../types/usage';
+import { PromptTemplate } from '../types/prompt-template';
+import { CronRunOutcome } from '../types/cron-run';
+import { EventStatus } from '../utils/event-status';
+
+// Storage behind the services. Each backend implements every repository; the services only see these
+// interfaces. Methods throw on storage errors and return null (or nothing) when a row isn't found.
+
+export type StorageBackend = 'supabase' | 'memory';
+
+// A page of events in the order of the sort columns, optionally starting after a row's sort keys
+export interface EventPageQuery {
+  filters: EventsQuery;
+  columns: string[]; // Sort columns, ending with id so every row has a unique position
+  ascending: boolean;
+  nullsFirst: boolean;
+  after: (string | number | null)[] | null; // Sort keys of the row the page starts after
+  offset: number;
+  limit: number;
+}
+
+export interface EventPage {
+  events: MarketEvent[];
+  total: number; // Rows matching the filters, wherever the page starts
+}
+
+export interface WeekReplacement {
+  inserts: CreateMarketEvent[];
+  updates: { id: string; changes: UpdateMarketEvent }[];
+  deletes: string[];
+}
+
+export interface EventRepository {
+  findPage(query: EventPageQuery): Promise<EventPage>;
+  findById(id: string): Promise<MarketEvent | null>;
+  findByNameAndDate(event: string, date: string): Promise<MarketEvent | null>;
+  // Events overlapping the date range (YYYY-MM-DD, inclusive), in chronological order
+  findInRange(from: string, to: string): Promise<MarketEvent[]>;
+  // Events ending on or after from (and starting on or before until), in chronological order
+  findUpcoming(options: { from: string; until?: string; limit?: number }): Promise<MarketEvent[]>;
+  findWithoutDates(): Promise<MarketEvent[]>;
+  insert(events: CreateMarketEvent[]): Promise<MarketEvent[]>;
+  update(id: string, changes: UpdateMarketEvent): Promise<MarketEvent | null>;
+  // Move events in one of the statuses whose end date is before the given day; returns how many moved
+  setStatusEndedBefore(date: string, from: readonly EventStatus[], to: EventStatus): Promise<number>;
+  // Apply all of a week's deletes, updates and inserts, or none of them
+  replaceWeek(replacement: WeekReplacement): Promise<void>;
+  delete(id: string): Promise<void>;
+  deleteAll(): Promise<number>;
+  // Delete events whose end date (YYYY-MM-DD) is before the given day; returns how many went
+  deleteEndedBefore(date: string): Promise<number>;
+  insertChanges(changes: Omit<EventChange, 'id' | 'created_at'>[]): Promise<EventChange[]>;
+  // Update an event and record the change together, or neither; null when the event doesn't exist
+  updateWithChange(id: string, changes: UpdateMarketEvent, change: Omit<EventChange, 'id' | 'created_at'>): Promise<EventChange | null>;
+  findChanges(eventId: string): Promise<EventChange[]>; // Newest first
+}
+
+export type JobChanges = Partial<Omit<Job, 'id' | 'kind'>>;
+
+export interface JobRepository {
+  create(kind: JobKind, params: Record<string, unknown>): Promise<Job>;
+  findById(id: string): Promise<Job | null>;
+  findQueued(limit: number): Promise<Job[]>; // Oldest first
+  findStale(heartbeatBefore: string): Promise<Job[]>; // Running jobs that stopped heartbeating
+  // Update a job only while it still has the given status (and, when set, a heartbeat older than
+  // heartbeatBefore); returns null when another worker changed it first
+  transition(id: string, from: JobStatus, changes: JobChanges, heartbeatBefore?: string): Promise<Job | null>;
+  update(id: string, changes: JobChanges): Promise<void>;
+}
+
+export type ScheduleChanges = Partial<Omit<ScheduledJob, 'name' | 'created_at'>>;
+
+export interface ScheduleRepository {
+  list(): Promise<ScheduledJob[]>;
+  // Store a schedule unless a row with its name exists already
+  insertIfMissing(job: Pick<ScheduledJob, 'name' | 'cron' | 'next_run_at'>): Promise<void>;
+  upsert(job: Pick<ScheduledJob, 'name' | 'cron'> & ScheduleChanges): Promise<ScheduledJob>;
+  update(name: string, changes: ScheduleChanges): Promise<void>;
+  // Take a schedule's lock when it is free at now (and, with dueBy, the schedule is unpaused and due by then),
+  // applying changes in the same step; returns null when the conditions don't hold
+  lock(name: string, changes: ScheduleChanges, conditions: { now: string; dueBy?: string }): Promise<ScheduledJob | null>;
+  // Apply changes only while the given instance holds the lock
+  release(name: string, lockedBy: string, changes: ScheduleChanges): Promise<void>;
+}
+
+export interface GenerationRunFilters {
+  trigger?: GenerationTrigger;
+  status?: GenerationRunStatus;
+  week?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface GenerationRunRepository {
+  create(run: Pick<GenerationRun, 'trigger' | 'status' | 'provider' | 'model'>): Promise<GenerationRun>;
+  update(id: string, changes: Partial<Omit<GenerationRun, 'id'>>): Promise<GenerationRun>;
+  list(filters: GenerationRunFilters): Promise<{ runs: GenerationRunSummary[]; total: number }>; // Newest first
+  findById(id: string): Promise<GenerationRun | null>;
+}
+
+export interface UsageRepository {
+  insert(weekStart: string, entries: UsageEntry[]): Promise<void>;
+  // Week bounds (YYYY-MM-DD) and creation time are inclusive; newest first
+  find(filters: { from?: string; to?: string; createdSince?: string }): Promise<UsageRecord[]>;
+}
+
+export interface PromptTemplateRepository {
+  listNames(): Promise<string[]>;
+  findVersions(name: string): Promise<PromptTemplate[]>; // Newest first
+  findActive(name: string): Promise<PromptTemplate | null>;
+  insert(template: Omit<PromptTemplate, 'id' | 'created_at'>): Promise<PromptTemplate>;
+  deactivate(name: string): Promise<void>;
+  // Make the version the only active one, in one step; null (and nothing changed) when it doesn't exist
+  activate(name: string, version: number): Promise<PromptTemplate | null>;
+}
+
+export interface CronRunRepository {
+  // Claim a job's week, unless it already succeeded or a run started at or after staleBefore is still going;
+  // false when the week isn't free
+  claim(name: string, weekStart: string, staleBefore: string): Promise<boolean>;
+  finish(name: string, weekStart: string, outcome: CronRunOutcome): Promise<void>;
+}
+
+export interface Repositories {
+  backend: StorageBackend;
+  events: EventRepository;
+  jobs: JobRepository;
+  schedules: ScheduleRepository;
+  generationRuns: GenerationRunRepository;
+  usage: UsageRepository;
+  promptTemplates: PromptTemplateRepository;
+  cronRuns: CronRunRepository;
+  ping(): Promise<boolean>; // Whether the storage can be reached
+  close(): void; // Write anything still pending, before the process exits
+}
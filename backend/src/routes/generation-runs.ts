@@ -0,0 +1,125 @@
+import { Router, Request, Response } from 'express';
+import { Router as ExpressRouter } from 'express';
+import { generationRunService } from '../services/generation-run.service';
+import { getAIService } from '../services/ai.service';
+import { requireAdmin } from '../middleware/admin-auth';
+import { ApiResponse } from '../types/market-event';
+import {
+  GENERATION_TRIGGERS,
+  GenerationRun,
+  GenerationRunReparse,
+  GenerationRunSummary
+} from '../types/generation-run';
+import { z } from 'zod';
+import debug from 'debug';
+
+const log = debug('market-events:routes');
+const router: ExpressRouter = Router();
+
+// Archived prompts and raw provider responses are for operators, so the routes exposing them take requireAdmin
+
+// Query parameters validation
+const GetRunsQuerySchema = z.object({
+  trigger: z.enum(GENERATION_TRIGGERS).optional(),
+  status: z.enum(['running', 'succeeded', 'failed']).optional(),
+  week: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+// GET /api/generation-runs - Runs newest first, without their archived responses
+router.get('/', async (req: Request, res: Response<ApiResponse<{ runs: GenerationRunSummary[]; total: number }>>) => {
+  try {
+    const queryParams = GetRunsQuerySchema.safeParse(req.query);
+
+    if (!queryParams.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+      });
+    }
+
+    const result = await generationRunService.listRuns(queryParams.data);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    log('Error listing generation runs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list generation runs',
+    });
+  }
+});
+
+// GET /api/generation-runs/:id - A run with its prompt, raw responses and citations
+router.get('/:id', requireAdmin, async (req: Request, res: Response<ApiResponse<GenerationRun>>) => {
+  try {
+    const run = await generationRunService.getRun(req.params.id!);
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Generation run not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    log('Error fetching generation run:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch generation run',
+    });
+  }
+});
+
+// POST /api/generation-runs/:id/reparse - Parse the archived responses again without calling the AI
+router.post('/:id/reparse', requireAdmin, async (req: Request, res: Response<ApiResponse<GenerationRunReparse>>) => {
+  try {
+    const run = await generationRunService.getRun(req.params.id!);
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Generation run not found',
+      });
+    }
+
+    // Repair responses only make sense next to the events they fixed, so only first responses are re-parsed
+    const responses = (run.responses || []).filter(response => response.purpose === 'generate');
+    if (!run.week_start || responses.length === 0) {
+      return res.status(409).json({
+        success: false,
+        error: 'Generation run has no archived response',
+      });
+    }
+
+    const weekStart = new Date(`${run.week_start}T00:00:00`);
+    const reparsed = responses.map(response => getAIService().reparseResponse(response, weekStart));
+
+    res.json({
+      success: true,
+      data: {
+        runId: run.id,
+        week_start: run.week_start,
+        parsed: reparsed.reduce((sum, response) => sum + response.events.length, 0),
+        rejected: reparsed.reduce((sum, response) => sum + response.rejected.length, 0),
+        responses: reparsed,
+      },
+    });
+  } catch (error) {
+    log('Error re-parsing generation run:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to re-parse generation run',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,152 @@
+import { Router, Request, Response } from 'express';
+import { Router as ExpressRouter } from 'express';
+import { JobEvent, jobService } from '../services/job.service';
+import { ApiResponse } from '../types/market-event';
+import { Job, JobProgress } from '../types/job';
+import debug from 'debug';
+
+const log = debug('market-events:routes');
+const router: ExpressRouter = Router();
+
+const STREAM_POLL_INTERVAL_MS = 2000; // For jobs run by another backend instance
+const STREAM_KEEPALIVE_MS = 15000;
+
+const isFinished = (job: Job) => job.status === 'succeeded' || job.status === 'failed';
+
+// GET /api/jobs/:id - Status, progress and result of a background job
+router.get('/:id', async (req: Request, res: Response<ApiResponse<Job>>) => {
+  try {
+    const job = await jobService.getJob(req.params.id!);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    log('Error fetching job:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch job',
+    });
+  }
+});
+
+// GET /api/jobs/:id/events - Server-Sent Events stream of a job's progress
+// Sends the progress reported so far, then "progress" events as they happen and a final "done" event with the job
+router.get('/:id/events', async (req: Request, res: Response) => {
+  try {
+    const job = await jobService.getJob(req.params.id!);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop proxies from buffering the stream
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let closed = false;
+    const timers: NodeJS.Timeout[] = [];
+    let unsubscribe = () => {};
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(timer => clearInterval(timer));
+      unsubscribe();
+      res.end();
+    };
+    req.on('close', close);
+
+    // Progress already reported; a reconnecting client receives it again
+    const localRun = jobService.getLocalRun(job.id);
+    (localRun ? localRun.progress : job.progress ? [job.progress] : []).forEach(progress => send('progress', progress));
+
+    const finished = localRun?.finished || (isFinished(job) ? job : null);
+    if (finished) {
+      send('done', finished);
+      return close();
+    }
+
+    timers.push(setInterval(() => res.write(': keep-alive\n\n'), STREAM_KEEPALIVE_MS));
+
+    // Running in this process: follow it live
+    const follow = () => {
+      unsubscribe = jobService.subscribe(job.id, (event: JobEvent) => {
+        if (event.type === 'progress') {
+          send('progress', event.progress);
+        } else {
+          send('done', event.job);
+          close();
+        }
+      });
+    };
+
+    if (localRun) {
+      return follow();
+    }
+
+    // Queued, or running elsewhere: follow the persisted progress until it finishes,
+    // switching to live events if this process picks the job up
+    let lastProgress: JobProgress | null = job.progress;
+    const poll = setInterval(async () => {
+      try {
+        const local = jobService.getLocalRun(job.id);
+        if (local) {
+          clearInterval(poll);
+          local.progress
+            .filter(progress => !lastProgress?.at || (progress.at || '') > lastProgress.at)
+            .forEach(progress => send('progress', progress));
+          if (local.finished) {
+            send('done', local.finished);
+            return close();
+          }
+          return follow();
+        }
+
+        const latest = await jobService.getJob(job.id);
+        if (closed || !latest) return;
+
+        if (latest.progress && JSON.stringify(latest.progress) !== JSON.stringify(lastProgress)) {
+          lastProgress = latest.progress;
+          send('progress', latest.progress);
+        }
+        if (isFinished(latest)) {
+          send('done', latest);
+          close();
+        }
+      } catch (error) {
+        log('Error polling job for stream:', error);
+      }
+    }, STREAM_POLL_INTERVAL_MS);
+    timers.push(poll);
+  } catch (error) {
+    log('Error streaming job events:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to stream job events',
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
+export default router;
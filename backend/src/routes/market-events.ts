@@ -1,8 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { Router as ExpressRouter } from 'express';
-import { MarketEventsService } from '../services/market-events.service';
-import { aiService } from '../services/ai.service';
-import { MarketEventSchema, ApiResponse, MarketEventsResponse } from '../types/market-event';
+import { InvalidStatusTransitionError, MarketEventsService } from '../services/market-events.service';
+import { generationService, PreviewNotReadyError } from '../services/generation.service';
+import { BudgetExceededError } from '../services/usage.service';
+import { requireAdmin } from '../middleware/admin-auth';
+import { MarketEventSchema, ApiResponse, MarketEventsResponse, EVENT_SORT_FIELDS, CreateEventsResult, EventChange } from '../types/market-event';
+import { Job } from '../types/job';
+import { InvalidCursorError } from '../utils/pagination';
 import { z } from 'zod';
 import debug from 'debug';
 
@@ -10,13 +14,43 @@ const log = debug('market-events:routes');
 const router: ExpressRouter = Router();
 const marketEventsService = new MarketEventsService();
 
+// Generation spends AI budget and bulk deletes can't be undone, so those routes take requireAdmin
+
+// Accept repeated (?type=Fed&type=Economic) or comma-separated (?type=Fed,Economic) values; "All" means no filter
+const multiValue = <T extends z.ZodType>(schema: T) => z.preprocess(val => {
+  if (val === undefined) return undefined;
+  const values = (Array.isArray(val) ? val : [val])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(item => item && item !== 'All');
+  return values.length > 0 ? values : undefined;
+}, z.array(schema).optional());
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
 // Query parameters validation
 const GetEventsQuerySchema = z.object({
   limit: z.string().optional().transform(val => val ? parseInt(val) : undefined),
   offset: z.string().optional().transform(val => val ? parseInt(val) : undefined),
-  type: z.string().optional(),
-  significance: z.string().optional(),
+  cursor: z.string().optional(),
+  type: multiValue(MarketEventSchema.shape.type),
+  significance: multiValue(MarketEventSchema.shape.significance),
+  sentiment: multiValue(MarketEventSchema.shape.market_sentiment),
+  status: multiValue(MarketEventSchema.shape.status.unwrap()),
   date: z.string().optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  has_citations: z.enum(['true', 'false']).optional().transform(val => val === undefined ? undefined : val === 'true'),
+  sort: z.enum(EVENT_SORT_FIELDS).optional(),
+  direction: z.enum(['asc', 'desc']).optional(),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: '"from" must not be after "to"',
+  path: ['from'],
+});
+
+const GetUpcomingQuerySchema = z.object({
+  days: z.string().optional().transform(val => val ? parseInt(val) : undefined), // Only events starting within this many days
+  limit: z.string().optional().transform(val => val ? parseInt(val) : undefined),
 });
 
 // GET /api/market-events - Get all market events with optional filtering
@@ -32,19 +66,28 @@ router.get('/', async (req: Request, res: Response<ApiResponse<MarketEventsRespo
     }
 
     const options = queryParams.data;
-    const { events, total } = await marketEventsService.getEvents(options);
+    const limit = options.limit || 10;
+    const { events, total, nextCursor, prevCursor } = await marketEventsService.getEvents(options);
 
     res.json({
       success: true,
       data: {
         events,
         total,
-        page: Math.floor((options.offset || 0) / (options.limit || 10)) + 1,
-        limit: options.limit || 10,
+        page: options.cursor ? undefined : Math.floor((options.offset || 0) / limit) + 1,
+        limit,
+        nextCursor,
+        prevCursor,
       },
     });
   } catch (error) {
     log('Error fetching market events:', error);
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to fetch market events',
@@ -70,6 +113,33 @@ router.get('/current-week', async (req: Request, res: Response<ApiResponse<Marke
   }
 });
 
+// GET /api/market-events/upcoming - Events that haven't finished yet, soonest first
+router.get('/upcoming', async (req: Request, res: Response<ApiResponse<MarketEventsResponse['events']>>) => {
+  try {
+    const queryParams = GetUpcomingQuerySchema.safeParse(req.query);
+
+    if (!queryParams.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+      });
+    }
+
+    const events = await marketEventsService.getUpcomingEvents(queryParams.data);
+
+    res.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    log('Error fetching upcoming events:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch upcoming events',
+    });
+  }
+});
+
 // GET /api/market-events/:id - Get a single market event by ID
 router.get('/:id', async (req: Request, res: Response<ApiResponse<any>>) => {
   try {
@@ -104,6 +174,24 @@ router.get('/:id', async (req: Request, res: Response<ApiResponse<any>>) => {
   }
 });
 
+// GET /api/market-events/:id/changes - Changes the daily refresh made to an event, with reasons and sources
+router.get('/:id/changes', async (req: Request, res: Response<ApiResponse<EventChange[]>>) => {
+  try {
+    const changes = await marketEventsService.getEventChanges(req.params.id!);
+
+    res.json({
+      success: true,
+      data: changes,
+    });
+  } catch (error) {
+    log('Error fetching market event changes:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch market event changes',
+    });
+  }
+});
+
 // POST /api/market-events - Create a new market event
 router.post('/', async (req: Request, res: Response<ApiResponse<any>>) => {
   try {
@@ -132,8 +220,8 @@ router.post('/', async (req: Request, res: Response<ApiResponse<any>>) => {
   }
 });
 
-// POST /api/market-events/generate - Generate new events using AI
-router.post('/generate', async (req: Request, res: Response<ApiResponse<any>>) => {
+// POST /api/market-events/generate - Queue AI generation as a background job (poll GET /api/jobs/:id)
+router.post('/generate', requireAdmin, async (req: Request, res: Response<ApiResponse<Job>>) => {
   try {
     const { weekStart } = req.body;
     let targetDate: Date | undefined;
@@ -148,20 +236,20 @@ router.post('/generate', async (req: Request, res: Response<ApiResponse<any>>) =
       }
     }
 
-    const events = await aiService.generateWeeklyMarketEvents(targetDate);
-    const result = await marketEventsService.createEvents(events);
+    const job = await generationService.enqueueWeek(targetDate);
 
-    res.status(201).json({
+    res.status(202).location(`/api/jobs/${job.id}`).json({
       success: true,
-      data: {
-        generated: events.length,
-        created: result.created.length,
-        skipped: result.skipped,
-        events: result.created,
-      },
+      data: job,
     });
   } catch (error) {
-    log('Error generating market events:', error);
+    log('Error queueing market events generation:', error);
+    if (error instanceof BudgetExceededError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message,
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to generate market events',
@@ -169,6 +257,175 @@ router.post('/generate', async (req: Request, res: Response<ApiResponse<any>>) =
   }
 });
 
+// POST /api/market-events/preview - Queue a dry-run generation; the job result lists candidates as new/duplicate/conflicting
+router.post('/preview', requireAdmin, async (req: Request, res: Response<ApiResponse<Job>>) => {
+  try {
+    const { weekStart } = req.body || {};
+    let targetDate: Date | undefined;
+
+    if (weekStart) {
+      targetDate = new Date(weekStart);
+      if (isNaN(targetDate.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid weekStart date format',
+        });
+      }
+    }
+
+    const job = await generationService.enqueueWeek(targetDate, 'preview-week');
+
+    res.status(202).location(`/api/jobs/${job.id}`).json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    log('Error queueing market events preview:', error);
+    if (error instanceof BudgetExceededError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview market events',
+    });
+  }
+});
+
+// A year of weeks is plenty for a backfill and keeps a single job's AI spend bounded
+const MAX_RANGE_DAYS = 371;
+
+const GenerateRangeSchema = z.object({
+  from: isoDate,
+  to: isoDate,
+  force: z.boolean().default(false), // Regenerate weeks that already have events
+  concurrency: z.number().int().min(1).max(4).optional(),
+}).refine(({ from, to }) => from <= to, {
+  message: 'from must not be after to',
+}).refine(({ from, to }) => {
+  const days = (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000;
+  return days <= MAX_RANGE_DAYS;
+}, {
+  message: `Range must span at most ${MAX_RANGE_DAYS} days`,
+});
+
+// POST /api/market-events/generate-range - Queue generation of every week from `from` to `to`; the job reports per-week results
+router.post('/generate-range', requireAdmin, async (req: Request, res: Response<ApiResponse<Job>>) => {
+  try {
+    const validationResult = GenerateRangeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+      });
+    }
+
+    const job = await generationService.enqueueRange(validationResult.data);
+
+    res.status(202).location(`/api/jobs/${job.id}`).json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    log('Error queueing market events range generation:', error);
+    if (error instanceof BudgetExceededError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate market events',
+    });
+  }
+});
+
+const RefreshSchema = z.object({
+  weekStart: isoDate.optional(), // Any day of the week, defaults to the current week
+});
+
+// POST /api/market-events/refresh - Queue a re-verification of a week's events; the job result lists every change
+router.post('/refresh', requireAdmin, async (req: Request, res: Response<ApiResponse<Job>>) => {
+  try {
+    const validationResult = RefreshSchema.safeParse(req.body || {});
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+      });
+    }
+
+    const { weekStart } = validationResult.data;
+    const job = await generationService.enqueueWeek(weekStart ? new Date(`${weekStart}T00:00:00`) : undefined, 'refresh-week');
+
+    res.status(202).location(`/api/jobs/${job.id}`).json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    log('Error queueing market events refresh:', error);
+    if (error instanceof BudgetExceededError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refresh market events',
+    });
+  }
+});
+
+const CommitPreviewSchema = z.object({
+  candidates: z.array(z.number().int().nonnegative()).min(1),
+});
+
+// POST /api/market-events/preview/:id/commit - Store the chosen candidates of a finished preview job
+router.post('/preview/:id/commit', requireAdmin, async (req: Request, res: Response<ApiResponse<CreateEventsResult>>) => {
+  try {
+    const validationResult = CommitPreviewSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+      });
+    }
+
+    const result = await generationService.commitPreview(req.params.id!, validationResult.data.candidates);
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Preview not found',
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    log('Error committing market events preview:', error);
+    if (error instanceof PreviewNotReadyError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to commit market events preview',
+    });
+  }
+});
+
 // PUT /api/market-events/:id - Update a market event
 router.put('/:id', async (req: Request, res: Response<ApiResponse<any>>) => {
   try {
@@ -206,6 +463,12 @@ router.put('/:id', async (req: Request, res: Response<ApiResponse<any>>) => {
     });
   } catch (error) {
     log('Error updating market event:', error);
+    if (error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to update market event',
@@ -214,7 +477,7 @@ router.put('/:id', async (req: Request, res: Response<ApiResponse<any>>) => {
 });
 
 // DELETE /api/market-events/delete-all - Delete all market events
-router.delete('/delete-all', async (req: Request, res: Response<ApiResponse<{ deletedCount: number }>>) => {
+router.delete('/delete-all', requireAdmin, async (req: Request, res: Response<ApiResponse<{ deletedCount: number }>>) => {
   try {
     const deletedCount = await marketEventsService.deleteAllEvents();
 
@@ -231,29 +494,38 @@ router.delete('/delete-all', async (req: Request, res: Response<ApiResponse<{ de
   }
 });
 
-// DELETE /api/market-events/clear-regenerate - Delete all events and regenerate for current week
-router.delete('/clear-regenerate', async (req: Request, res: Response<ApiResponse<any>>) => {
+const ClearRegenerateQuerySchema = z.object({
+  weekStart: isoDate.optional(), // Defaults to the current week
+});
+
+// DELETE /api/market-events/clear-regenerate - Regenerate a week and replace its events (background job)
+// Nothing is touched unless generation succeeds; the job result holds the diff (added, changed, removed)
+router.delete('/clear-regenerate', requireAdmin, async (req: Request, res: Response<ApiResponse<Job>>) => {
   try {
-    // Step 1: Delete all existing events
-    const deletedCount = await marketEventsService.deleteAllEvents();
-    log(`Cleared ${deletedCount} old events`);
+    const queryParams = ClearRegenerateQuerySchema.safeParse(req.query);
 
-    // Step 2: Generate fresh events for current week
-    const events = await aiService.generateWeeklyMarketEvents(); // Uses current week
-    const result = await marketEventsService.createEvents(events);
+    if (!queryParams.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+      });
+    }
 
-    res.json({
+    const { weekStart } = queryParams.data;
+    const job = await generationService.enqueueWeek(weekStart ? new Date(`${weekStart}T00:00:00`) : undefined, 'regenerate-week');
+
+    res.status(202).location(`/api/jobs/${job.id}`).json({
       success: true,
-      data: {
-        deleted: deletedCount,
-        generated: events.length,
-        created: result.created.length,
-        skipped: result.skipped,
-        events: result.created,
-      },
+      data: job,
     });
   } catch (error) {
     log('Error in clear-regenerate:', error);
+    if (error instanceof BudgetExceededError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message,
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to clear and regenerate market events',
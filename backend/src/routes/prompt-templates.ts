@@ -0,0 +1,155 @@
+import { Router, Request, Response } from 'express';
+import { Router as ExpressRouter } from 'express';
+import { promptTemplateService } from '../services/prompt-template.service';
+import { ApiResponse } from '../types/market-event';
+import { CreatePromptTemplateSchema, PromptTemplate } from '../types/prompt-template';
+import { requireAdmin } from '../middleware/admin-auth';
+import { z } from 'zod';
+import debug from 'debug';
+
+const log = debug('market-events:routes');
+const router: ExpressRouter = Router();
+
+router.use(requireAdmin);
+
+const VersionParamSchema = z.coerce.number().int().nonnegative();
+
+// GET /api/admin/prompts - List templates with their active version
+router.get('/', async (req: Request, res: Response<ApiResponse<PromptTemplate[]>>) => {
+  try {
+    const templates = await promptTemplateService.listTemplates();
+
+    res.json({
+      success: true,
+      data: templates,
+    });
+  } catch (error) {
+    log('Error listing prompt templates:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list prompt templates',
+    });
+  }
+});
+
+// GET /api/admin/prompts/:name - All versions of a template, newest first
+router.get('/:name', async (req: Request, res: Response<ApiResponse<PromptTemplate[]>>) => {
+  try {
+    const versions = await promptTemplateService.getVersions(req.params.name!);
+
+    if (versions.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prompt template not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+    });
+  } catch (error) {
+    log('Error fetching prompt template versions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch prompt template versions',
+    });
+  }
+});
+
+// GET /api/admin/prompts/:name/versions/:version - A single version
+router.get('/:name/versions/:version', async (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
+  try {
+    const version = VersionParamSchema.safeParse(req.params.version);
+
+    if (!version.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid version',
+      });
+    }
+
+    const template = await promptTemplateService.getVersion(req.params.name!, version.data);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prompt template version not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    log('Error fetching prompt template version:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch prompt template version',
+    });
+  }
+});
+
+// POST /api/admin/prompts/:name - Save a new version (active unless "activate": false)
+router.post('/:name', async (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
+  try {
+    const validationResult = CreatePromptTemplateSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues.map(issue => issue.message).join('; '),
+      });
+    }
+
+    const template = await promptTemplateService.createVersion(req.params.name!, validationResult.data);
+
+    res.status(201).json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    log('Error creating prompt template:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create prompt template',
+    });
+  }
+});
+
+// POST /api/admin/prompts/:name/versions/:version/activate - Switch to (or roll back to) a version
+router.post('/:name/versions/:version/activate', async (req: Request, res: Response<ApiResponse<PromptTemplate>>) => {
+  try {
+    const version = VersionParamSchema.safeParse(req.params.version);
+
+    if (!version.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid version',
+      });
+    }
+
+    const template = await promptTemplateService.activateVersion(req.params.name!, version.data);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prompt template version not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    log('Error activating prompt template:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to activate prompt template',
+    });
+  }
+});
+
+export default router;
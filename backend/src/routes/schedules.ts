@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { Router as ExpressRouter } from 'express';
+import { schedulerService, ScheduleBusyError } from '../services/scheduler.service';
+import { ApiResponse } from '../types/market-event';
+import { ScheduleStatus } from '../types/schedule';
+import { requireAdmin } from '../middleware/admin-auth';
+import debug from 'debug';
+
+const log = debug('market-events:routes');
+const router: ExpressRouter = Router();
+
+router.use(requireAdmin);
+
+// GET /api/admin/schedules - Scheduled jobs with their cron, next run, last run and last outcome
+router.get('/', async (req: Request, res: Response<ApiResponse<ScheduleStatus[]>>) => {
+  try {
+    const schedules = await schedulerService.listSchedules();
+
+    res.json({
+      success: true,
+      data: schedules,
+    });
+  } catch (error) {
+    log('Error listing schedules:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list schedules',
+    });
+  }
+});
+
+// POST /api/admin/schedules/:name/pause - Skip the schedule's occurrences until resumed
+router.post('/:name/pause', async (req: Request, res: Response<ApiResponse<ScheduleStatus>>) => {
+  try {
+    const schedule = await schedulerService.pauseSchedule(req.params.name!);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Schedule not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error) {
+    log('Error pausing schedule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to pause schedule',
+    });
+  }
+});
+
+// POST /api/admin/schedules/:name/resume - Run the schedule again from its next occurrence
+router.post('/:name/resume', async (req: Request, res: Response<ApiResponse<ScheduleStatus>>) => {
+  try {
+    const schedule = await schedulerService.resumeSchedule(req.params.name!);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Schedule not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error) {
+    log('Error resuming schedule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resume schedule',
+    });
+  }
+});
+
+// POST /api/admin/schedules/:name/trigger - Run the schedule now; the outcome shows up in the list once it finishes
+router.post('/:name/trigger', async (req: Request, res: Response<ApiResponse<ScheduleStatus>>) => {
+  try {
+    const schedule = await schedulerService.triggerSchedule(req.params.name!);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Schedule not found',
+      });
+    }
+
+    res.status(202).json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error) {
+    log('Error triggering schedule:', error);
+    if (error instanceof ScheduleBusyError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to trigger schedule',
+    });
+  }
+});
+
+export default router;
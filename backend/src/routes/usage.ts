@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express';
+import { Router as ExpressRouter } from 'express';
+import { usageService } from '../services/usage.service';
+import { ApiResponse } from '../types/market-event';
+import { CostSummary } from '../types/usage';
+import { z } from 'zod';
+import debug from 'debug';
+
+const log = debug('market-events:routes');
+const router: ExpressRouter = Router();
+
+const weekDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// Query parameters validation
+const GetUsageQuerySchema = z.object({
+  from: weekDate.optional(),
+  to: weekDate.optional(),
+});
+
+// GET /api/usage - Token usage and cost by provider, model and week
+router.get('/', async (req: Request, res: Response<ApiResponse<CostSummary>>) => {
+  try {
+    const queryParams = GetUsageQuerySchema.safeParse(req.query);
+
+    if (!queryParams.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+      });
+    }
+
+    const summary = await usageService.getCostSummary(queryParams.data);
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    log('Error fetching AI usage:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch AI usage',
+    });
+  }
+});
+
+export default router;
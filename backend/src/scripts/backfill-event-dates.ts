@@ -0,0 +1,22 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { MarketEventsService } from '../services/market-events.service';
+
+// Backfill start_date/end_date/release time for events stored as free-text dates only.
+// Run after migration 006 (add_event_dates): npm run backfill:dates
+const main = async () => {
+  const marketEventsService = new MarketEventsService();
+  const { updated, unparseable } = await marketEventsService.backfillEventDates();
+
+  console.log(`Backfilled ${updated} events`);
+  if (unparseable.length > 0) {
+    console.log(`Could not parse the date of ${unparseable.length} events, fix them by hand:`);
+    unparseable.forEach(event => console.log(`  ${event.id}: "${event.date}" ${event.event}`));
+  }
+};
+
+main().catch(error => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { migrationService } from '../services/migration.service';
+
+// Apply and inspect the database migrations in backend/migrations:
+//   npm run migrate                        apply every pending migration
+//   npm run migrate -- up [version]        apply pending migrations up to and including version
+//   npm run migrate -- down [steps]        roll back the latest applied migration (or the latest steps)
+//   npm run migrate -- status              list migrations and when they were applied
+//   npm run migrate -- baseline <version>  record migrations up to version as applied without running them
+//   npm run migrate -- check               fail when the row types drift from the applied schema
+const parseNumber = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = parseInt(value);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  }
+  return parsed;
+};
+
+const main = async (): Promise<number> => {
+  const [command = 'up', argument] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrationService.migrate(parseNumber(argument, 'version'));
+      applied.forEach(migration => console.log(`Applied ${migration.version}_${migration.name}`));
+      console.log(applied.length > 0 ? `Applied ${applied.length} migrations` : 'Database is up to date');
+      return 0;
+    }
+    case 'down': {
+      const rolledBack = await migrationService.rollback(parseNumber(argument, 'steps') ?? 1);
+      rolledBack.forEach(migration => console.log(`Rolled back ${migration.version}_${migration.name}`));
+      console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.length} migrations` : 'No migrations applied');
+      return 0;
+    }
+    case 'status': {
+      const statuses = await migrationService.getStatus();
+      statuses.forEach(status => {
+        const state = status.missing ? 'applied, file missing' : status.modified ? 'applied, file changed since' : status.applied_at ? 'applied' : 'pending';
+        console.log(`${String(status.version).padStart(3, '0')}_${status.name}: ${state}${status.applied_at ? ` (${status.applied_at})` : ''}`);
+      });
+      return 0;
+    }
+    case 'baseline': {
+      const version = parseNumber(argument, 'version');
+      if (version === undefined) {
+        throw new Error('Usage: npm run migrate -- baseline <version>');
+      }
+      console.log(`Recorded ${await migrationService.baseline(version)} migrations as applied`);
+      return 0;
+    }
+    case 'check': {
+      const problems = await migrationService.checkDrift();
+      if (problems.length === 0) {
+        console.log('Row types match the database schema');
+        return 0;
+      }
+      console.error('Row types (src/types/database-types.ts, src/types/database-schema.ts) drift from the database schema:');
+      problems.forEach(problem => console.error(`  ${problem}`));
+      return 1;
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Commands: up, down, status, baseline, check`);
+  }
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
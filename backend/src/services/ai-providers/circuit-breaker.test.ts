@@ -0,0 +1,71 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-11-24T12:00:00Z') });
+    breaker = new CircuitBreaker('xai:grok-4-fast', { failureThreshold: 3, cooldownMs: 60000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) breaker.recordFailure(new Error('503'));
+  };
+
+  it('opens after the failure threshold and resets on success', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+    expect(breaker.canRequest()).toBe(true);
+
+    fail(1);
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.status()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      lastFailure: '503',
+      openedAt: '2025-11-24T12:00:00.000Z',
+      retryAt: '2025-11-24T12:01:00.000Z'
+    });
+  });
+
+  it('lets a trial call through once the cooldown ends', () => {
+    fail(3);
+    jest.advanceTimersByTime(59999);
+    expect(breaker.canRequest()).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.status().state).toBe('half-open');
+
+    breaker.recordSuccess();
+    expect(breaker.status()).toMatchObject({ state: 'closed', consecutiveFailures: 0, retryAt: null });
+  });
+
+  it('holds other calls back while the trial call is in flight', () => {
+    fail(3);
+    jest.advanceTimersByTime(60000);
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getState()).toBe('half-open');
+
+    breaker.recordSuccess();
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('reopens straight away when the trial call fails', () => {
+    fail(3);
+    jest.advanceTimersByTime(60000);
+    expect(breaker.canRequest()).toBe(true);
+
+    fail(1);
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.status()).toMatchObject({ state: 'open', retryAt: '2025-11-24T12:02:00.000Z' });
+  });
+});
@@ -0,0 +1,117 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failed calls (after retries) before the circuit opens
+  cooldownMs: number; // How long the circuit stays open before a trial call
+}
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailure: string | null;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+/**
+ * Per-provider circuit breaker: opens after repeated failures so callers fail fast
+ * (and fall back) instead of hammering an unhealthy API
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private lastFailure: string | null = null;
+  private openedAt: Date | null = null;
+  private trialInFlight = false; // A half-open trial call has been let through and hasn't settled
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this.options = options;
+  }
+
+  /**
+   * Whether a call may go through. Moves an expired open circuit to half-open, where a single trial call
+   * goes through and the others are rejected until it succeeds or fails.
+   */
+  canRequest(): boolean {
+    this.refreshState();
+    if (this.state === 'open' || (this.state === 'half-open' && this.trialInFlight)) {
+      return false;
+    }
+    if (this.state === 'half-open') {
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: unknown): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+    this.lastFailure = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = new Date();
+    }
+  }
+
+  retryAt(): Date {
+    return new Date((this.openedAt?.getTime() || Date.now()) + this.options.cooldownMs);
+  }
+
+  status(): CircuitBreakerStatus {
+    this.refreshState();
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailure: this.lastFailure,
+      openedAt: this.openedAt ? this.openedAt.toISOString() : null,
+      retryAt: this.state === 'open' ? this.retryAt().toISOString() : null
+    };
+  }
+
+  // Open -> half-open once the cooldown has passed
+  private refreshState(): void {
+    if (this.state === 'open' && this.openedAt && Date.now() >= this.retryAt().getTime()) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get (or create) the shared breaker for a provider, so every caller sees the same state
+ */
+export const getCircuitBreaker = (name: string, options: CircuitBreakerOptions): CircuitBreaker => {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, options);
+    breakers.set(name, breaker);
+  }
+  return breaker;
+};
+
+/**
+ * Current state of every provider breaker (exposed on /health)
+ */
+export const getCircuitBreakerStatuses = (): CircuitBreakerStatus[] => {
+  return Array.from(breakers.values()).map(breaker => breaker.status());
+};
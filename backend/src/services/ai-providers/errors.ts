@@ -0,0 +1,58 @@
+// HTTP statuses worth retrying: timeouts, conflicts, rate limits and transient server errors
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Error raised by providers for failed API calls, carrying what the retry logic needs
+ */
+export class AIProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(provider: string, message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.provider = provider;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? (options.status !== undefined && RETRYABLE_STATUSES.has(options.status));
+  }
+
+  /**
+   * Build an error from a non-2xx fetch response, honouring its Retry-After header
+   */
+  static fromResponse(provider: string, label: string, response: Response): AIProviderError {
+    return new AIProviderError(provider, `${label} API error: ${response.status} ${response.statusText}`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+    });
+  }
+}
+
+/**
+ * Raised without calling the provider while its circuit breaker is open
+ */
+export class CircuitOpenError extends AIProviderError {
+  constructor(provider: string, retryAt: Date) {
+    super(provider, `Circuit breaker open for ${provider} until ${retryAt.toISOString()}`, { retryable: false });
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
@@ -0,0 +1,44 @@
+import { AIGenerateRequest, AIGenerateResult, AIProvider, AIProviderCapabilities } from './types';
+
+/**
+ * Tries providers in order, moving on when one fails or its circuit is open.
+ * Capabilities are the primary's; fallbacks ignore what they don't support.
+ */
+export class FallbackProvider implements AIProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly capabilities: AIProviderCapabilities;
+
+  private providers: AIProvider[];
+
+  constructor(providers: AIProvider[]) {
+    const primary = providers[0];
+    if (!primary) {
+      throw new Error('FallbackProvider needs at least one provider');
+    }
+
+    this.providers = providers;
+    this.name = primary.name;
+    this.model = primary.model;
+    this.capabilities = primary.capabilities;
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.providers[0]!.listModels();
+  }
+
+  async generate(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    let lastError: unknown;
+
+    for (const provider of this.providers) {
+      try {
+        const result = await provider.generate(request);
+        return { ...result, servedBy: result.servedBy || { provider: provider.name, model: provider.model } };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+}
@@ -0,0 +1,82 @@
+import { AIProviderError } from './errors';
+import { AIGenerateRequest, AIGenerateResult, AIProvider, AIProviderConfig } from './types';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const DEFAULT_MODEL = 'gemini-1.5-pro-latest';
+
+/**
+ * Google Gemini via the generative-ai SDK
+ */
+export class GeminiProvider implements AIProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  readonly capabilities = { citations: false, tools: false, structuredOutput: false };
+
+  private apiKey: string;
+  private baseUrl: string;
+  private client: any;
+
+  constructor(config: AIProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error(`Missing API key for AI provider: ${this.name}`);
+    }
+
+    this.apiKey = config.apiKey;
+    this.model = config.model || DEFAULT_MODEL;
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+
+    // Loaded lazily so deployments that never use Gemini don't pay for the SDK
+    const { GoogleGenerativeAI } = require('@google/generative-ai');
+    this.client = new GoogleGenerativeAI(config.apiKey);
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models?key=${encodeURIComponent(this.apiKey)}`);
+
+    if (!response.ok) {
+      throw AIProviderError.fromResponse(this.name, 'Gemini', response);
+    }
+
+    const data: any = await response.json();
+    return (data.models || []).map((model: any) => String(model.name).replace(/^models\//, ''));
+  }
+
+  async generate(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      ...(request.system && { systemInstruction: request.system })
+    });
+
+    let result;
+    try {
+      result = await model.generateContent(request.prompt, { signal: request.signal });
+    } catch (error: any) {
+      // The SDK throws GoogleGenerativeAIFetchError with the HTTP status for API failures
+      if (typeof error?.status === 'number') {
+        throw new AIProviderError(this.name, `Gemini API error: ${error.status} ${error.statusText || ''}`.trim(), { status: error.status });
+      }
+      throw error;
+    }
+
+    const text = result.response.text();
+
+    if (!text) {
+      throw new Error('Empty response from Gemini');
+    }
+
+    // Gemini doesn't provide citations in the same way
+    const usage = result.response.usageMetadata;
+    return {
+      content: text,
+      citations: [],
+      raw: { candidates: result.response.candidates, usageMetadata: usage },
+      usage: {
+        promptTokens: usage?.promptTokenCount || 0,
+        completionTokens: usage?.candidatesTokenCount || 0,
+        reasoningTokens: 0,
+        toolCalls: 0,
+        searchCalls: 0
+      }
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { AIProviderRegistry } from './registry';
+import { GeminiProvider } from './gemini.provider';
+import { XAIProvider } from './xai.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { FixtureMode, RecordReplayProvider } from './record-replay.provider';
+import { ResilienceOptions, ResilientProvider } from './resilient.provider';
+import { FallbackProvider } from './fallback.provider';
+import { AIProvider, AIProviderConfig } from './types';
+
+export * from './types';
+export * from './errors';
+export { AIProviderRegistry } from './registry';
+export { RecordReplayProvider } from './record-replay.provider';
+export { ResilientProvider } from './resilient.provider';
+export { FallbackProvider } from './fallback.provider';
+export { getCircuitBreakerStatuses } from './circuit-breaker';
+export type { FixtureMode } from './record-replay.provider';
+export type { ResilienceOptions } from './resilient.provider';
+export type { CircuitBreakerStatus, CircuitState } from './circuit-breaker';
+
+type Env = Record<string, string | undefined>;
+
+// Built-in providers. Additional backends can be registered at startup
+// without touching AIService.
+export const aiProviderRegistry = new AIProviderRegistry();
+
+aiProviderRegistry.register('xai', config => new XAIProvider(config), ['grok']);
+aiProviderRegistry.register('gemini', config => new GeminiProvider(config));
+aiProviderRegistry.register('openai-compatible', config => new OpenAICompatibleProvider(config));
+
+/**
+ * Create the provider described by AI_* environment variables.
+ * AI_FALLBACK_PROVIDER (provider[:model]) is tried when the primary fails or its circuit is open.
+ * AI_FIXTURES_MODE=record|replay wraps it to record responses or replay them offline.
+ */
+export function createAIProviderFromEnv(env: Env = process.env): AIProvider {
+  const name = env.AI_PROVIDER || 'xai'; // Default to xai
+
+  const primary = createConfiguredProvider(name, {
+    apiKey: env.AI_API_KEY,
+    model: env.AI_MODEL, // Each provider falls back to its own default model
+    baseUrl: env.AI_BASE_URL
+  }, env);
+
+  if (!env.AI_FALLBACK_PROVIDER) {
+    return primary;
+  }
+
+  return new FallbackProvider([primary, createProviderFromEntry(env.AI_FALLBACK_PROVIDER, env)]);
+}
+
+/**
+ * Create the ensemble members listed in AI_ENSEMBLE as comma-separated provider[:model]
+ * entries, e.g. "xai:grok-4-fast,gemini,openai-compatible:llama3.1". Credentials and
+ * endpoints come from AI_<PROVIDER>_API_KEY / AI_<PROVIDER>_BASE_URL, falling back to
+ * AI_API_KEY / AI_BASE_URL. Returns an empty list when no ensemble is configured.
+ */
+export function createEnsembleProvidersFromEnv(env: Env = process.env): AIProvider[] {
+  return (env.AI_ENSEMBLE || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => createProviderFromEntry(entry, env));
+}
+
+/**
+ * Create a provider from a "provider[:model]" entry with per-provider credentials
+ */
+function createProviderFromEntry(entry: string, env: Env): AIProvider {
+  const separator = entry.indexOf(':');
+  const name = separator === -1 ? entry : entry.slice(0, separator);
+  const model = separator === -1 ? undefined : entry.slice(separator + 1);
+  const prefix = `AI_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+
+  return createConfiguredProvider(name, {
+    apiKey: env[`${prefix}_API_KEY`] || env.AI_API_KEY,
+    model,
+    baseUrl: env[`${prefix}_BASE_URL`] || env.AI_BASE_URL
+  }, env);
+}
+
+function createConfiguredProvider(name: string, config: AIProviderConfig, env: Env): AIProvider {
+  const fixturesMode = env.AI_FIXTURES_MODE as FixtureMode | undefined;
+
+  if (fixturesMode && fixturesMode !== 'record' && fixturesMode !== 'replay') {
+    throw new Error(`Invalid AI_FIXTURES_MODE: ${fixturesMode}. Use "record" or "replay".`);
+  }
+
+  if (!fixturesMode) {
+    return new ResilientProvider(aiProviderRegistry.create(name, config), resilienceOptionsFromEnv(env));
+  }
+
+  return new RecordReplayProvider({
+    mode: fixturesMode,
+    dir: env.AI_FIXTURES_DIR || 'fixtures/ai',
+    name,
+    model: config.model || 'recorded',
+    fixtureKey: config.model ? `${name}-${config.model}` : name,
+    // Replay never touches the network, so it doesn't need credentials
+    delegate: fixturesMode === 'record'
+      ? new ResilientProvider(aiProviderRegistry.create(name, config), resilienceOptionsFromEnv(env))
+      : undefined
+  });
+}
+
+function resilienceOptionsFromEnv(env: Env): ResilienceOptions {
+  return {
+    timeoutMs: parseInt(env.AI_TIMEOUT_MS || '120000'), // Tool-assisted searches can take a while
+    maxRetries: parseInt(env.AI_MAX_RETRIES || '3'),
+    baseDelayMs: parseInt(env.AI_RETRY_BASE_DELAY_MS || '1000'),
+    maxDelayMs: parseInt(env.AI_RETRY_MAX_DELAY_MS || '30000'),
+    breaker: {
+      failureThreshold: parseInt(env.AI_BREAKER_FAILURE_THRESHOLD || '3'),
+      cooldownMs: parseInt(env.AI_BREAKER_COOLDOWN_MS || '60000')
+    }
+  };
+}
@@ -0,0 +1,95 @@
+import { AIProviderError } from './errors';
+import { AIGenerateRequest, AIGenerateResult, AIProvider, AIProviderConfig } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible endpoint
+const DEFAULT_MODEL = 'llama3.1';
+
+/**
+ * Generic OpenAI-compatible chat completions API (OpenAI, Ollama, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai-compatible';
+  readonly model: string;
+  readonly capabilities = { citations: false, tools: false, structuredOutput: true };
+
+  private apiKey?: string;
+  private baseUrl: string;
+
+  constructor(config: AIProviderConfig) {
+    // Self-hosted servers usually run without authentication, so the key is optional
+    this.apiKey = config.apiKey;
+    this.model = config.model || DEFAULT_MODEL;
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: this.headers(),
+    });
+
+    if (!response.ok) {
+      throw AIProviderError.fromResponse(this.name, 'OpenAI-compatible', response);
+    }
+
+    const data: any = await response.json();
+    return (data.data || []).map((model: any) => model.id);
+  }
+
+  async generate(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        ...(request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: request.responseSchema.name,
+              schema: request.responseSchema.schema,
+              strict: true
+            }
+          }
+        })
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw AIProviderError.fromResponse(this.name, 'OpenAI-compatible', response);
+    }
+
+    const data: any = await response.json();
+    const content = data.choices?.[0]?.message?.content || '';
+
+    if (!content) {
+      throw new Error(`No content received from ${this.baseUrl}`);
+    }
+
+    return {
+      content,
+      citations: [],
+      raw: data,
+      usage: {
+        promptTokens: data.usage?.prompt_tokens || 0,
+        completionTokens: data.usage?.completion_tokens || 0,
+        reasoningTokens: data.usage?.completion_tokens_details?.reasoning_tokens || 0,
+        toolCalls: 0,
+        searchCalls: 0
+      }
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+    };
+  }
+}
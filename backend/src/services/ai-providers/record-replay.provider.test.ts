@@ -0,0 +1,67 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { RecordReplayProvider } from './record-replay.provider';
+import { AIGenerateRequest, AIProvider } from './types';
+
+const request: AIGenerateRequest = {
+  system: 'You are a financial analyst.',
+  prompt: 'List the market events of the week.',
+  useTools: true,
+  week: '2025-11-23'
+};
+
+const liveProvider = (content: string): AIProvider => ({
+  name: 'xai',
+  model: 'grok-4-fast',
+  capabilities: { citations: true, tools: true, structuredOutput: true },
+  listModels: async () => ['grok-4-fast'],
+  generate: jest.fn(async () => ({ content, citations: [{ url: 'https://www.bls.gov/' }] }))
+});
+
+describe('RecordReplayProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'ai-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays what it recorded without calling a provider', async () => {
+    const live = liveProvider('[]');
+    const recorder = new RecordReplayProvider({ mode: 'record', dir, name: 'xai', model: 'grok-4-fast', delegate: live });
+    const recorded = await recorder.generate(request);
+
+    expect(readdirSync(path.join(dir, '2025-11-23'))).toHaveLength(1);
+
+    const replayer = new RecordReplayProvider({ mode: 'replay', dir, name: 'xai', model: 'grok-4-fast' });
+    await expect(replayer.generate(request)).resolves.toEqual(recorded);
+    expect(live.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys fixtures by week and prompt', async () => {
+    const recorder = new RecordReplayProvider({ mode: 'record', dir, name: 'xai', model: 'grok-4-fast', delegate: liveProvider('[]') });
+    await recorder.generate(request);
+
+    const replayer = new RecordReplayProvider({ mode: 'replay', dir, name: 'xai', model: 'grok-4-fast' });
+    await expect(replayer.generate({ ...request, week: '2025-11-30' })).rejects.toThrow('No recorded AI fixture for week 2025-11-30');
+    await expect(replayer.generate({ ...request, prompt: 'Something else' })).rejects.toThrow('No recorded AI fixture');
+  });
+
+  it('replays prompts that only differ in the current date', async () => {
+    const dated = (today: string) => ({ ...request, prompt: `Today is ${today}. Re-check this week's events.` });
+    const recorder = new RecordReplayProvider({ mode: 'record', dir, name: 'xai', model: 'grok-4-fast', delegate: liveProvider('[]') });
+    await recorder.generate(dated('November 24, 2025'));
+
+    const replayer = new RecordReplayProvider({ mode: 'replay', dir, name: 'xai', model: 'grok-4-fast' });
+    await expect(replayer.generate(dated('November 26, 2025'))).resolves.toMatchObject({ content: '[]' });
+  });
+
+  it('needs a live provider to record', () => {
+    expect(() => new RecordReplayProvider({ mode: 'record', dir, name: 'xai', model: 'grok-4-fast' }))
+      .toThrow('Recording AI fixtures requires a live provider');
+  });
+});
@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AIGenerateRequest, AIGenerateResult, AIProvider, AIProviderCapabilities } from './types';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface RecordReplayOptions {
+  mode: FixtureMode;
+  dir: string;
+  name: string;
+  model: string;
+  fixtureKey?: string; // Separates fixtures of providers that share a prompt (ensemble members)
+  delegate?: AIProvider; // Required when recording
+}
+
+// Prompt text that changes from run to run without changing what is asked ("Today is December 3, 2025."),
+// left out of the fixture key so recorded refreshes replay on later days
+const VOLATILE_PROMPT_TEXT: RegExp[] = [/Today is [^.\n]*\./g];
+
+interface Fixture {
+  provider: string;
+  model: string;
+  week: string | null;
+  recordedAt: string;
+  request: AIGenerateRequest;
+  result: AIGenerateResult;
+}
+
+const stripVolatileText = (text: string): string => {
+  return VOLATILE_PROMPT_TEXT.reduce((stripped, pattern) => stripped.replace(pattern, ''), text);
+};
+
+/**
+ * Records raw provider responses to fixture files, or replays them without network access.
+ * Fixtures are keyed by target week, provider and a hash of the prompt (without VOLATILE_PROMPT_TEXT),
+ * so the same week and prompt always yield the same response.
+ */
+export class RecordReplayProvider implements AIProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly capabilities: AIProviderCapabilities;
+
+  private mode: FixtureMode;
+  private dir: string;
+  private fixtureKey: string;
+  private delegate?: AIProvider;
+
+  constructor(options: RecordReplayOptions) {
+    if (options.mode === 'record' && !options.delegate) {
+      throw new Error('Recording AI fixtures requires a live provider');
+    }
+
+    this.mode = options.mode;
+    this.dir = options.dir;
+    this.fixtureKey = (options.fixtureKey || options.name).replace(/[^a-zA-Z0-9._-]/g, '_');
+    this.delegate = options.delegate;
+    this.name = options.delegate?.name || options.name;
+    this.model = options.delegate?.model || options.model;
+    // Replay assumes the recorded provider had full capabilities so prompts are built identically
+    this.capabilities = options.delegate?.capabilities || { citations: true, tools: true, structuredOutput: true };
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.delegate ? this.delegate.listModels() : [this.model];
+  }
+
+  async generate(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    const file = this.fixturePath(request);
+
+    if (this.mode === 'replay') {
+      let fixture: Fixture;
+      try {
+        fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch (error) {
+        throw new Error(`No recorded AI fixture for week ${request.week || 'unknown'} at ${file}. Record one with AI_FIXTURES_MODE=record.`);
+      }
+      return fixture.result;
+    }
+
+    const result = await this.delegate!.generate(request);
+    const fixture: Fixture = {
+      provider: this.name,
+      model: this.model,
+      week: request.week || null,
+      recordedAt: new Date().toISOString(),
+      request: {
+        system: request.system,
+        prompt: request.prompt,
+        useTools: request.useTools,
+        week: request.week,
+        responseSchema: request.responseSchema
+      },
+      result,
+    };
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2));
+
+    return result;
+  }
+
+  /**
+   * Fixture location: <dir>/<week>/<fixture key>/<prompt hash>.json
+   */
+  private fixturePath(request: AIGenerateRequest): string {
+    const hash = createHash('sha256')
+      .update(stripVolatileText(`${request.system || ''}\n${request.prompt}`))
+      .digest('hex')
+      .slice(0, 16);
+
+    return path.join(this.dir, request.week || 'no-week', this.fixtureKey, `${hash}.json`);
+  }
+}
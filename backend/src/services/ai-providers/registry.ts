@@ -0,0 +1,55 @@
+import { AIProvider, AIProviderConfig, AIProviderFactory } from './types';
+
+interface RegisteredProvider {
+  factory: AIProviderFactory;
+  aliases: string[];
+}
+
+/**
+ * Registry of AI provider factories, keyed by name (e.g. AI_PROVIDER=xai)
+ */
+export class AIProviderRegistry {
+  private providers = new Map<string, RegisteredProvider>();
+  private aliases = new Map<string, string>();
+
+  /**
+   * Register a provider factory under a name and optional aliases
+   */
+  register(name: string, factory: AIProviderFactory, aliases: string[] = []): void {
+    const key = name.toLowerCase();
+    this.providers.set(key, { factory, aliases });
+    aliases.forEach(alias => this.aliases.set(alias.toLowerCase(), key));
+  }
+
+  /**
+   * Check whether a provider (or alias) is registered
+   */
+  has(name: string): boolean {
+    return this.providers.has(this.resolve(name));
+  }
+
+  /**
+   * Create a provider instance for the given name and config
+   */
+  create(name: string, config: AIProviderConfig = {}): AIProvider {
+    const registered = this.providers.get(this.resolve(name));
+
+    if (!registered) {
+      throw new Error(`Unsupported AI provider: ${name}. Available providers: ${this.list().join(', ')}`);
+    }
+
+    return registered.factory(config);
+  }
+
+  /**
+   * List registered provider names (without aliases)
+   */
+  list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  private resolve(name: string): string {
+    const key = name.toLowerCase();
+    return this.aliases.get(key) || key;
+  }
+}
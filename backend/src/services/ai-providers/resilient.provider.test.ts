@@ -0,0 +1,128 @@
+import { AIProviderError, CircuitOpenError } from './errors';
+import { ResilienceOptions, ResilientProvider } from './resilient.provider';
+import { AIGenerateRequest, AIGenerateResult, AIProvider } from './types';
+
+const request: AIGenerateRequest = {
+  system: 'You are a financial analyst.',
+  prompt: 'List the market events of the week.',
+  useTools: false
+};
+
+const ok: AIGenerateResult = { content: '[]', citations: [] };
+
+const options: ResilienceOptions = {
+  timeoutMs: 1000,
+  maxRetries: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 5000,
+  breaker: { failureThreshold: 2, cooldownMs: 60000 }
+};
+
+// Breakers are shared per provider:model, so every test gets its own model
+let models = 0;
+const delegate = (generate: AIProvider['generate']): AIProvider & { generate: jest.Mock } => ({
+  name: 'flaky',
+  model: `model-${++models}`,
+  capabilities: { citations: false, tools: false, structuredOutput: false },
+  listModels: async () => [],
+  generate: jest.fn(generate)
+});
+
+const unavailable = (retryAfterMs?: number) =>
+  new AIProviderError('flaky', 'flaky API error: 503 Service Unavailable', { status: 503, retryAfterMs });
+
+describe('ResilientProvider', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(0); // No jitter
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('retries retryable errors until a call succeeds', async () => {
+    const live = delegate(async () => ok);
+    live.generate.mockRejectedValueOnce(unavailable()).mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    const call = new ResilientProvider(live, options).generate(request);
+    await jest.runAllTimersAsync();
+
+    await expect(call).resolves.toBe(ok);
+    expect(live.generate).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits for Retry-After before the next attempt', async () => {
+    const live = delegate(async () => ok);
+    live.generate.mockRejectedValueOnce(unavailable(2000));
+
+    const call = new ResilientProvider(live, options).generate(request);
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(live.generate).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(call).resolves.toBe(ok);
+    expect(live.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when Retry-After is longer than the longest backoff', async () => {
+    const live = delegate(async () => { throw unavailable(10000); });
+
+    await expect(new ResilientProvider(live, options).generate(request)).rejects.toThrow('503');
+    expect(live.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const live = delegate(async () => {
+      throw new AIProviderError('flaky', 'flaky API error: 401 Unauthorized', { status: 401 });
+    });
+
+    await expect(new ResilientProvider(live, options).generate(request)).rejects.toThrow('401');
+    expect(live.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts attempts that run past the timeout', async () => {
+    const live = delegate(({ signal }) => new Promise((_, reject) => {
+      signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    const call = new ResilientProvider(live, { ...options, maxRetries: 0 }).generate(request);
+    const assertion = expect(call).rejects.toThrow('flaky request timed out after 1000ms');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await assertion;
+  });
+
+  it('opens the circuit after repeated failed calls and fails fast until the cooldown ends', async () => {
+    const live = delegate(async () => { throw new Error('bad response'); });
+    const provider = new ResilientProvider(live, options);
+
+    await expect(provider.generate(request)).rejects.toThrow('bad response');
+    await expect(provider.generate(request)).rejects.toThrow('bad response');
+    await expect(provider.generate(request)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(live.generate).toHaveBeenCalledTimes(2);
+
+    live.generate.mockResolvedValueOnce(ok);
+    jest.advanceTimersByTime(60000);
+    await expect(provider.generate(request)).resolves.toBe(ok);
+    expect(live.generate).toHaveBeenCalledTimes(3);
+  });
+
+  it('sends one trial call through a half-open circuit and lets it retry', async () => {
+    const live = delegate(async () => { throw new Error('bad response'); });
+    const provider = new ResilientProvider(live, options);
+    await expect(provider.generate(request)).rejects.toThrow('bad response');
+    await expect(provider.generate(request)).rejects.toThrow('bad response');
+
+    jest.advanceTimersByTime(60000);
+    live.generate.mockReset().mockRejectedValueOnce(unavailable()).mockResolvedValue(ok);
+
+    const trial = provider.generate(request);
+    await expect(provider.generate(request)).rejects.toBeInstanceOf(CircuitOpenError);
+    await jest.runAllTimersAsync();
+
+    await expect(trial).resolves.toBe(ok);
+    expect(live.generate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,111 @@
+import { CircuitBreaker, CircuitBreakerOptions, getCircuitBreaker } from './circuit-breaker';
+import { AIProviderError, CircuitOpenError } from './errors';
+import { AIGenerateRequest, AIGenerateResult, AIProvider, AIProviderCapabilities } from './types';
+
+export interface ResilienceOptions {
+  timeoutMs: number; // Per attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // Also the longest Retry-After we are willing to wait
+  breaker: CircuitBreakerOptions;
+}
+
+/**
+ * Wraps a provider with per-call timeouts, jittered exponential backoff that respects
+ * Retry-After, and a circuit breaker
+ */
+export class ResilientProvider implements AIProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly capabilities: AIProviderCapabilities;
+
+  private delegate: AIProvider;
+  private options: ResilienceOptions;
+  private breaker: CircuitBreaker;
+
+  constructor(delegate: AIProvider, options: ResilienceOptions) {
+    this.delegate = delegate;
+    this.options = options;
+    this.name = delegate.name;
+    this.model = delegate.model;
+    this.capabilities = delegate.capabilities;
+    this.breaker = getCircuitBreaker(`${delegate.name}:${delegate.model}`, options.breaker);
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.delegate.listModels();
+  }
+
+  async generate(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    let holdsTrial = false; // This call is the half-open trial, so its retries don't ask the breaker again
+
+    for (let attempt = 0; ; attempt++) {
+      if (!holdsTrial) {
+        if (!this.breaker.canRequest()) {
+          throw new CircuitOpenError(this.breaker.name, this.breaker.retryAt());
+        }
+        holdsTrial = this.breaker.getState() === 'half-open';
+      }
+
+      try {
+        const result = await this.withTimeout(request);
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        const delay = this.retryDelay(error, attempt);
+        if (delay === null) {
+          // Only calls that fail after exhausting their retries count against the breaker
+          this.breaker.recordFailure(error);
+          throw error;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async withTimeout(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      return await this.delegate.generate({ ...request, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new AIProviderError(this.name, `${this.name} request timed out after ${this.options.timeoutMs}ms`, { retryable: true });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Milliseconds to wait before the next attempt, or null when the error shouldn't be retried
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    if (attempt >= this.options.maxRetries || !this.isRetryable(error)) {
+      return null;
+    }
+
+    // Full jitter: a random delay up to the exponential ceiling
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    const jittered = Math.random() * ceiling;
+
+    const retryAfterMs = error instanceof AIProviderError ? error.retryAfterMs : undefined;
+    if (retryAfterMs === undefined) {
+      return jittered;
+    }
+
+    // Give up rather than block for longer than we'd ever back off
+    return retryAfterMs > this.options.maxDelayMs ? null : Math.max(retryAfterMs, jittered);
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof AIProviderError) {
+      return error.retryable;
+    }
+    // fetch rejects with a TypeError on network failures (DNS, reset connections)
+    return error instanceof TypeError;
+  }
+}
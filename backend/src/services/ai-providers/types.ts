@@ -0,0 +1,75 @@
+// Shared contract for AI backends. This module is imported by both the Express
+// backend and the Next.js app, so it must stay free of runtime dependencies.
+
+export interface AIProviderCapabilities {
+  citations: boolean; // Returns source URLs alongside the generated text
+  tools: boolean; // Can run server-side tools such as web and X search
+  structuredOutput: boolean; // Can constrain output to a JSON schema
+}
+
+export interface AIProviderConfig {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string; // Override the API endpoint (self-hosted or proxied deployments)
+}
+
+export interface AIGenerateRequest {
+  system?: string;
+  prompt: string;
+  useTools?: boolean; // Ignored by providers without tool support
+  week?: string; // Target week (YYYY-MM-DD), used to key recorded fixtures
+  responseSchema?: AIResponseSchema; // Ignored by providers without structured output
+  signal?: AbortSignal; // Aborts the underlying HTTP request (timeouts)
+}
+
+export interface AIResponseSchema {
+  name: string;
+  schema: Record<string, unknown>; // JSON schema with an object at the root
+}
+
+export interface AICitation {
+  url: string;
+  startIndex?: number; // Character offsets of the cited span within content, when the provider reports them
+  endIndex?: number;
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number; // Included in completionTokens where the provider reports both
+  toolCalls: number; // Server-side tool invocations of any kind
+  searchCalls: number; // Web / X search invocations
+}
+
+// A server-side tool invocation reported by the provider (e.g. an xAI web_search_call output item)
+export interface AIToolCall {
+  type: string; // e.g. "web_search_call", "x_search_call"
+  query?: string;
+}
+
+export interface AIGenerateResult {
+  content: string;
+  citations: AICitation[];
+  toolCalls?: AIToolCall[]; // Tool invocations in the order the provider ran them
+  raw?: unknown; // Unmodified provider response body, kept for recording and debugging
+  usage?: AIUsage;
+  servedBy?: { provider: string; model: string }; // Which provider answered, set by FallbackProvider
+}
+
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly capabilities: AIProviderCapabilities;
+
+  /**
+   * List the model identifiers available to the configured credentials
+   */
+  listModels(): Promise<string[]>;
+
+  /**
+   * Run a single prompt and return the text response
+   */
+  generate(request: AIGenerateRequest): Promise<AIGenerateResult>;
+}
+
+export type AIProviderFactory = (config: AIProviderConfig) => AIProvider;
@@ -0,0 +1,129 @@
+import { AIProviderError } from './errors';
+import { AICitation, AIGenerateRequest, AIGenerateResult, AIProvider, AIProviderConfig, AIToolCall, AIUsage } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.x.ai/v1';
+const DEFAULT_MODEL = 'grok-4-fast';
+
+/**
+ * xAI (Grok) responses API with web_search and x_search tools
+ */
+export class XAIProvider implements AIProvider {
+  readonly name = 'xai';
+  readonly model: string;
+  readonly capabilities = { citations: true, tools: true, structuredOutput: true };
+
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(config: AIProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error(`Missing API key for AI provider: ${this.name}`);
+    }
+
+    this.apiKey = config.apiKey;
+    this.model = config.model || DEFAULT_MODEL;
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: { 'Authorization': `Bearer ${this.apiKey}` },
+    });
+
+    if (!response.ok) {
+      throw AIProviderError.fromResponse(this.name, 'xAI', response);
+    }
+
+    const data: any = await response.json();
+    return (data.data || []).map((model: any) => model.id);
+  }
+
+  async generate(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    const input = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    const response = await fetch(`${this.baseUrl}/responses`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input,
+        ...(request.useTools && {
+          tools: [
+            { type: 'web_search' },
+            { type: 'x_search' }
+          ]
+        }),
+        ...(request.responseSchema && {
+          text: {
+            format: {
+              type: 'json_schema',
+              name: request.responseSchema.name,
+              schema: request.responseSchema.schema,
+              strict: true
+            }
+          }
+        })
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw AIProviderError.fromResponse(this.name, 'xAI', response);
+    }
+
+    const data: any = await response.json();
+
+    // Extract content from xAI responses API format
+    const message = data.output?.find((item: any) => item.type === 'message' && item.content);
+    const content = message?.content?.[0]?.text || '';
+
+    if (!content) {
+      throw new Error('No content received from xAI');
+    }
+
+    // Extract citations (with character offsets into content) from annotations
+    const citations: AICitation[] = message?.content?.[0]?.annotations
+      ?.filter((ann: any) => ann.type === 'url_citation')
+      ?.map((ann: any) => ({
+        url: ann.url,
+        startIndex: ann.start_index,
+        endIndex: ann.end_index
+      })) || [];
+
+    return { content, citations, toolCalls: this.extractToolCalls(data), raw: data, usage: this.extractUsage(data) };
+  }
+
+  /**
+   * Tool invocations from the output items, with the search query when one is reported
+   */
+  private extractToolCalls(data: any): AIToolCall[] {
+    return (data.output || [])
+      .filter((item: any) => typeof item.type === 'string' && item.type.endsWith('_call'))
+      .map((item: any) => {
+        const query = item.action?.query ?? item.query ?? item.arguments?.query;
+        return typeof query === 'string' ? { type: item.type, query } : { type: item.type };
+      });
+  }
+
+  /**
+   * Token counts from `usage`, tool invocations from the output items (web_search_call, x_search_call, ...)
+   */
+  private extractUsage(data: any): AIUsage {
+    const toolItems = (data.output || []).filter((item: any) => typeof item.type === 'string' && item.type.endsWith('_call'));
+    const searchItems = toolItems.filter((item: any) => /search/.test(item.type));
+
+    return {
+      promptTokens: data.usage?.input_tokens || 0,
+      completionTokens: data.usage?.output_tokens || 0,
+      reasoningTokens: data.usage?.output_tokens_details?.reasoning_tokens || 0,
+      toolCalls: toolItems.length,
+      searchCalls: searchItems.length
+    };
+  }
+}
@@ -0,0 +1,359 @@
+import path from 'path';
+import { AICitation, AIGenerateRequest, AIGenerateResult, AIProvider, aiProviderRegistry } from './ai-providers';
+
+type Script = (AIGenerateResult | Error)[];
+
+// Stand-in for a live provider: answers with the responses scripted for its model, in order,
+// and keeps the requests it got
+class ScriptedProvider implements AIProvider {
+  readonly name = 'scripted';
+  readonly capabilities = { citations: true, tools: true, structuredOutput: true };
+  readonly requests: AIGenerateRequest[] = [];
+
+  constructor(readonly model: string, private script: Script) {}
+
+  async listModels(): Promise<string[]> {
+    return [this.model];
+  }
+
+  async generate(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    this.requests.push(request);
+    const next = this.script.shift();
+    if (!next) {
+      throw new Error(`No scripted response left for ${this.model}`);
+    }
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  }
+}
+
+const scripts: Record<string, Script> = {};
+const providers: Record<string, ScriptedProvider> = {};
+
+aiProviderRegistry.register('scripted', config => {
+  const model = config.model || 'default';
+  providers[model] = new ScriptedProvider(model, scripts[model] || []);
+  return providers[model]!;
+});
+
+const respond = (events: unknown[], citations: AICitation[] = []): AIGenerateResult => ({ content: JSON.stringify({ events }), citations });
+
+const aiEvent = (overrides: Record<string, unknown> = {}) => ({
+  date: 'November 25 2025',
+  event: 'Producer Price Index (PPI)',
+  type: 'Economic',
+  description: 'September producer prices.',
+  significance: 'Medium',
+  marketSentiment: 'Neutral',
+  ...overrides
+});
+
+const REPLAY_ENV = {
+  AI_PROVIDER: 'xai',
+  AI_FIXTURES_MODE: 'replay',
+  AI_FIXTURES_DIR: path.join(__dirname, '__fixtures__/ai')
+};
+
+let AIService: typeof import('./ai.service')['AIService'];
+let repositories: typeof import('../repositories')['repositories'];
+
+/**
+ * A service configured by env (AI_* variables), as it would be at startup
+ */
+const createService = (env: Record<string, string>) => {
+  Object.assign(process.env, env);
+  try {
+    return new AIService();
+  } finally {
+    Object.keys(env).forEach(name => delete process.env[name]);
+  }
+};
+
+let getAIService: typeof import('./ai.service')['getAIService'];
+
+beforeAll(async () => {
+  delete process.env.AI_MODEL;
+  delete process.env.STORAGE_FILE;
+  // Usage and prompt templates go to the in-memory storage, which is created from the environment on import
+  process.env.STORAGE_BACKEND = 'memory';
+  ({ AIService, getAIService } = await import('./ai.service'));
+  ({ repositories } = await import('../repositories'));
+});
+
+describe('getAIService', () => {
+  it('leaves creating the providers, and needing their API keys, to the first use', () => {
+    delete process.env.AI_PROVIDER;
+    delete process.env.AI_API_KEY;
+
+    // Importing the module above worked without a key
+    expect(() => getAIService()).toThrow('Missing API key for AI provider: xai');
+  });
+});
+
+describe('generateWeeklyMarketEvents', () => {
+  it('parses the recorded response', async () => {
+    const result = await createService(REPLAY_ENV).generateWeeklyMarketEvents(new Date(2025, 10, 23));
+
+    expect(result.report).toEqual({ accepted: 3, repaired: 0, rejected: 0, rejections: [] });
+    expect(result.events).toEqual([
+      {
+        date: 'November 25 2025 8:30 AM ET',
+        event: 'Producer Price Index (PPI)',
+        type: 'Economic',
+        description: 'September producer prices, delayed by the government shutdown.',
+        significance: 'Medium',
+        market_sentiment: 'Neutral',
+        citations: ['https://www.bls.gov/ppi/'],
+        unsourced: false,
+        prompt_name: 'market-events',
+        prompt_version: 0,
+        start_date: '2025-11-25',
+        end_date: '2025-11-25',
+        release_time: '08:30',
+        timezone: 'America/New_York',
+        all_day: false
+      },
+      expect.objectContaining({ event: 'Fed Beige Book', type: 'Fed', market_sentiment: 'Mixed' }),
+      expect.objectContaining({ event: 'Thanksgiving Day Market Closure', type: 'Holiday', unsourced: true })
+    ]);
+  });
+
+  it('prices and stores the usage of the run', async () => {
+    scripts['grok-4-fast'] = [{
+      ...respond([aiEvent()]),
+      usage: { promptTokens: 1200, completionTokens: 600, reasoningTokens: 0, toolCalls: 1, searchCalls: 1 }
+    }];
+
+    const result = await createService({ AI_PROVIDER: 'scripted', AI_MODEL: 'grok-4-fast' })
+      .generateWeeklyMarketEvents(new Date(2025, 10, 23));
+
+    const usage = {
+      provider: 'scripted',
+      model: 'grok-4-fast',
+      requests: 1,
+      prompt_tokens: 1200,
+      completion_tokens: 600,
+      reasoning_tokens: 0,
+      tool_calls: 1,
+      search_calls: 1,
+      cost_usd: 0.02554
+    };
+    expect(result.usage).toEqual([usage]);
+    const stored = await repositories.usage.find({});
+    expect(stored.filter(record => record.model === 'grok-4-fast')).toEqual([
+      expect.objectContaining({ ...usage, week_start: '2025-11-23' })
+    ]);
+  });
+
+  it('fails for a week without a recorded response', async () => {
+    await expect(createService(REPLAY_ENV).generateWeeklyMarketEvents(new Date(2025, 10, 30)))
+      .rejects.toThrow('No recorded AI fixture for week 2025-11-30');
+  });
+});
+
+describe('repairing invalid responses', () => {
+  const generate = (model: string, script: Script, repairAttempts = '2') => {
+    scripts[model] = script;
+    return createService({ AI_PROVIDER: 'scripted', AI_MODEL: model, AI_REPAIR_ATTEMPTS: repairAttempts })
+      .generateWeeklyMarketEvents(new Date(2025, 10, 23));
+  };
+
+  it('sends invalid events back with their errors and keeps the repaired ones', async () => {
+    const result = await generate('repair-events', [
+      respond([aiEvent(), aiEvent({ event: 'Fed Beige Book', significance: 'Huge' })]),
+      respond([aiEvent({ event: 'Fed Beige Book', significance: 'High' })])
+    ]);
+
+    expect(result.report).toEqual({ accepted: 1, repaired: 1, rejected: 0, rejections: [] });
+    expect(result.events.map(event => [event.event, event.significance])).toEqual([
+      ['Producer Price Index (PPI)', 'Medium'],
+      ['Fed Beige Book', 'High']
+    ]);
+
+    const repair = providers['repair-events']!.requests[1]!;
+    expect(repair.useTools).toBe(false);
+    expect(repair.prompt).toContain('"significance": "Huge"');
+    expect(repair.prompt).toContain('- significance: Invalid option');
+  });
+
+  it('asks again for a response that is not valid JSON', async () => {
+    const result = await generate('repair-json', [
+      { content: '{"events": [{"date": "November 25 2025", "event": "PPI"', citations: [] },
+      respond([aiEvent()])
+    ]);
+
+    expect(result.report).toMatchObject({ accepted: 0, repaired: 1, rejected: 0 });
+    expect(providers['repair-json']!.requests[1]!.prompt).toContain('could not be parsed');
+  });
+
+  it('rejects events still invalid after the last attempt, ignoring repairs that change the event count', async () => {
+    const result = await generate('repair-give-up', [
+      respond([aiEvent(), aiEvent({ event: 'Fed Beige Book', significance: 'Huge' })]),
+      respond([aiEvent({ event: 'Fed Beige Book', significance: 'High' }), aiEvent({ event: 'Extra' })]),
+      respond([aiEvent({ event: 'Fed Beige Book', significance: 'Enormous' })])
+    ]);
+
+    expect(result.events.map(event => event.event)).toEqual(['Producer Price Index (PPI)']);
+    expect(result.report).toMatchObject({ accepted: 1, repaired: 0, rejected: 1 });
+    expect(result.report.rejections[0]).toEqual({
+      event: aiEvent({ event: 'Fed Beige Book', significance: 'Enormous' }),
+      errors: [expect.stringContaining('significance: Invalid option')]
+    });
+    expect(providers['repair-give-up']!.requests).toHaveLength(3);
+  });
+
+  it('rejects without calling again when repairs are turned off', async () => {
+    const result = await generate('repair-off', [
+      respond([aiEvent(), aiEvent({ marketSentiment: 'Sideways' })])
+    ], '0');
+
+    expect(result.report).toMatchObject({ accepted: 1, repaired: 0, rejected: 1 });
+    expect(providers['repair-off']!.requests).toHaveLength(1);
+  });
+
+  it('fails when no event survives', async () => {
+    await expect(generate('repair-none', [respond([aiEvent({ significance: 'Huge' })])], '0'))
+      .rejects.toThrow('No valid events found in AI response (1 rejected)');
+  });
+});
+
+describe('citation attribution', () => {
+  const generate = (model: string, content: string, citations: AICitation[]) => {
+    scripts[model] = [{ content, citations }];
+    return createService({ AI_PROVIDER: 'scripted', AI_MODEL: model, AI_REPAIR_ATTEMPTS: '0' })
+      .generateWeeklyMarketEvents(new Date(2025, 10, 23));
+  };
+
+  // A citation annotating the text at the first occurrence of marker
+  const citeAt = (content: string, marker: string, url: string): AICitation => {
+    const startIndex = content.indexOf(marker);
+    return { url, startIndex, endIndex: startIndex + marker.length };
+  };
+
+  it('gives each event the annotations that fall inside its JSON', async () => {
+    const content = JSON.stringify({ events: [
+      aiEvent({ sources: ['https://listed.example/ppi'] }),
+      aiEvent({ event: 'Fed Beige Book', type: 'Fed', description: 'Regional conditions.' })
+    ] });
+
+    const result = await generate('cite-spans', content, [
+      citeAt(content, 'September producer prices', 'https://www.bls.gov/ppi/'),
+      citeAt(content, 'Regional conditions', 'https://www.federalreserve.gov/'),
+      citeAt(content, 'Regional conditions', 'https://www.federalreserve.gov/')
+    ]);
+
+    expect(result.events.map(event => [event.event, event.citations, event.unsourced])).toEqual([
+      ['Producer Price Index (PPI)', ['https://www.bls.gov/ppi/'], false],
+      ['Fed Beige Book', ['https://www.federalreserve.gov/'], false]
+    ]);
+  });
+
+  it('falls back to the sources the model listed, and flags events with neither', async () => {
+    const content = JSON.stringify({ events: [
+      aiEvent({ sources: ['https://www.bls.gov/ppi/', 'not a url'] }),
+      aiEvent({ event: 'Fed Beige Book', type: 'Fed' })
+    ] });
+
+    const result = await generate('cite-sources', content, [{ url: 'https://unplaced.example/' }]);
+
+    expect(result.events.map(event => [event.citations, event.unsourced])).toEqual([
+      [['https://www.bls.gov/ppi/'], false],
+      [undefined, true]
+    ]);
+  });
+
+  it('ignores annotation offsets when the events in the text cannot be lined up', async () => {
+    // The string entry has no span, so offsets can't be mapped to events safely
+    const content = JSON.stringify([
+      aiEvent({ sources: ['https://www.bls.gov/ppi/'] }),
+      'not an event',
+      aiEvent({ event: 'Fed Beige Book', type: 'Fed', description: 'Regional conditions.' })
+    ]);
+
+    const result = await generate('cite-misaligned', content, [
+      citeAt(content, 'Regional conditions', 'https://www.federalreserve.gov/')
+    ]);
+
+    expect(result.events.map(event => [event.event, event.citations])).toEqual([
+      ['Producer Price Index (PPI)', ['https://www.bls.gov/ppi/']],
+      ['Fed Beige Book', undefined]
+    ]);
+    expect(result.report.rejected).toBe(1);
+  });
+});
+
+describe('ensemble generation', () => {
+  const ENSEMBLE_ENV = { AI_PROVIDER: 'scripted', AI_ENSEMBLE: 'scripted:ens-a,scripted:ens-b,scripted:ens-c' };
+
+  it('merges matching events by majority and holds back the ones too few providers agree on', async () => {
+    scripts['ens-a'] = [respond([aiEvent({ sources: ['https://www.bls.gov/ppi/'] })])];
+    scripts['ens-b'] = [respond([aiEvent({ sources: ['https://www.bls.gov/ppi/', 'https://www.reuters.com/'] })])];
+    scripts['ens-c'] = [respond([
+      aiEvent({ significance: 'High' }),
+      aiEvent({ event: 'Retail Sales', description: 'October retail sales.' })
+    ])];
+
+    const result = await createService(ENSEMBLE_ENV).generateWeeklyMarketEvents(new Date(2025, 10, 23));
+
+    expect(result.events).toEqual([
+      expect.objectContaining({
+        event: 'Producer Price Index (PPI)',
+        significance: 'Medium',
+        citations: ['https://www.bls.gov/ppi/', 'https://www.reuters.com/'],
+        unsourced: false,
+        confidence: 0.89,
+        consensus: {
+          providers: ['scripted:ens-a', 'scripted:ens-b', 'scripted:ens-c'],
+          disagreements: [{
+            field: 'significance',
+            values: { 'scripted:ens-a': 'Medium', 'scripted:ens-b': 'Medium', 'scripted:ens-c': 'High' }
+          }]
+        }
+      })
+    ]);
+    expect(result.heldBack).toEqual([
+      expect.objectContaining({ event: 'Retail Sales', confidence: 0.33, unsourced: true })
+    ]);
+    expect(result.report.providers).toEqual([
+      { provider: 'scripted', model: 'ens-a', events: 1 },
+      { provider: 'scripted', model: 'ens-b', events: 1 },
+      { provider: 'scripted', model: 'ens-c', events: 2 }
+    ]);
+  });
+
+  it('lets an earlier provider break a tie', async () => {
+    scripts['ens-a'] = [respond([aiEvent({ marketSentiment: 'Bullish' })])];
+    scripts['ens-b'] = [respond([aiEvent({ marketSentiment: 'Bearish' })])];
+
+    const result = await createService({ ...ENSEMBLE_ENV, AI_ENSEMBLE: 'scripted:ens-a,scripted:ens-b', AI_ENSEMBLE_MIN_CONFIDENCE: '0' })
+      .generateWeeklyMarketEvents(new Date(2025, 10, 23));
+
+    expect(result.events).toEqual([
+      expect.objectContaining({ market_sentiment: 'Bullish', confidence: 0.83 })
+    ]);
+  });
+
+  it('reports failed members and scores agreement against the whole ensemble', async () => {
+    scripts['ens-a'] = [respond([aiEvent()])];
+    scripts['ens-b'] = [new Error('upstream timeout')];
+    scripts['ens-c'] = [respond([aiEvent()])];
+
+    const result = await createService(ENSEMBLE_ENV).generateWeeklyMarketEvents(new Date(2025, 10, 23));
+
+    expect(result.events).toEqual([
+      expect.objectContaining({ confidence: 0.67, consensus: { providers: ['scripted:ens-a', 'scripted:ens-c'], disagreements: [] } })
+    ]);
+    expect(result.report.providers?.[1]).toEqual({ provider: 'scripted', model: 'ens-b', events: 0, error: 'upstream timeout' });
+  });
+
+  it('fails when every member fails', async () => {
+    scripts['ens-a'] = [new Error('down')];
+    scripts['ens-b'] = [new Error('down')];
+    scripts['ens-c'] = [new Error('down')];
+
+    await expect(createService(ENSEMBLE_ENV).generateWeeklyMarketEvents(new Date(2025, 10, 23)))
+      .rejects.toThrow('All ensemble providers failed');
+  });
+});
@@ -1,305 +1,951 @@
-import { CreateMarketEvent } from '../types/market-event';
+import { z } from 'zod';
+import {
+    AIEventCheckSchema,
+    AIMarketEventSchema,
+    AIMarketEventsResponseSchema,
+    AIWeekRefreshResponseSchema,
+    Consensus,
+    CreateMarketEvent,
+    EnsembleProviderReport,
+    EventCheck,
+    GenerationReport,
+    GenerationResult,
+    MarketEvent,
+    RefreshResult,
+    RejectedEvent,
+    UpdateMarketEvent
+} from '../types/market-event';
+import {
+    AICitation,
+    AIGenerateResult,
+    AIProvider,
+    AIResponseSchema,
+    createAIProviderFromEnv,
+    createEnsembleProvidersFromEnv
+} from './ai-providers';
+import { usageService } from './usage.service';
+import { promptTemplateService } from './prompt-template.service';
+import { PromptRef, PromptTemplate } from '../types/prompt-template';
+import { GenerationPhase, GenerationResponse, GenerationTrace, ReparsedResponse } from '../types/generation-run';
+import { nameSimilarity, normalizeDateText } from '../utils/event-matching';
+import { parseEventDates } from '../utils/event-dates';
+import {
+    buildPromptVariables,
+    DEFAULT_MARKET_EVENTS_TEMPLATE,
+    MARKET_EVENTS_PROMPT,
+    renderPromptTemplate
+} from '../utils/prompt-template';
 import debug from 'debug';
 
 const log = debug('market-events:ai-service');
 
-// Supported AI providers
-type AIProvider = 'gemini' | 'grok' | 'xai';
+const SYSTEM_PROMPT = 'You are a financial analyst specializing in market-moving events. Use the available tools to research current market events and provide accurate, timely information.';
+
+// Structured output schema sent to providers that support it
+const marketEventsJsonSchema: Record<string, unknown> = z.toJSONSchema(AIMarketEventsResponseSchema);
+delete marketEventsJsonSchema.$schema; // Providers reject the draft identifier
+const MARKET_EVENTS_RESPONSE_SCHEMA: AIResponseSchema = {
+    name: 'market_events',
+    schema: marketEventsJsonSchema
+};
+
+// Structured output schema for re-verifying a week's stored events (daily refresh)
+const weekRefreshJsonSchema: Record<string, unknown> = z.toJSONSchema(AIWeekRefreshResponseSchema);
+delete weekRefreshJsonSchema.$schema;
+const WEEK_REFRESH_RESPONSE_SCHEMA: AIResponseSchema = {
+    name: 'week_refresh',
+    schema: weekRefreshJsonSchema
+};
+
+// The refresh prompt is built in rather than managed through the prompt admin API
+const WEEK_REFRESH_PROMPT: PromptRef = { name: 'week-refresh', version: 0 };
+
+// Map common type variations to valid types
+const TYPE_MAPPINGS: Record<string, string> = {
+    'US Economic Data': 'Economic',
+    'Economic Data': 'Economic',
+    'Federal Reserve': 'Fed',
+    'Fed Meeting': 'Fed',
+    'FOMC': 'Fed',
+    'Cryptocurrency': 'Crypto',
+    'Crypto Event': 'Crypto',
+    'Retail Sales': 'Retail/Geopolitical',
+    'Geopolitical Event': 'Geopolitical',
+    'Holiday': 'Holiday',
+    'Corporate Earnings': 'Corporate',
+    'Corporate Event': 'Corporate'
+};
+
+interface InvalidEvent {
+    event: unknown;
+    errors: string[];
+}
 
-interface AIConfig {
-    provider: AIProvider;
-    apiKey: string;
-    model?: string;
+interface ParsedResponse {
+    events: CreateMarketEvent[];
+    invalid: InvalidEvent[];
 }
 
-class AIService {
-    private config: AIConfig;
-    private geminiClient?: any; // Keep for backward compatibility
+interface TextSpan {
+    start: number;
+    end: number;
+}
 
-    constructor() {
-        const provider = (process.env.AI_PROVIDER || 'xai') as AIProvider; // Default to xai
-        const apiKey = process.env.AI_API_KEY;
+interface EnsembleMember {
+    label: string; // provider:model
+    event: CreateMarketEvent;
+}
 
-        if (!apiKey) {
-            throw new Error(`Missing API key for AI provider: ${provider}`);
-        }
+// Minimum name similarity for two providers' events to count as the same release
+const ENSEMBLE_MATCH_THRESHOLD = 0.6;
+// Fields whose agreement drives the ensemble confidence score
+const CONSENSUS_FIELDS = ['date', 'significance', 'market_sentiment'] as const;
 
-        this.config = {
-            provider,
-            apiKey,
-            model: process.env.AI_MODEL || 'grok-4-fast' // Default xAI model
-        };
+export class AIService {
+    private provider: AIProvider;
+    private ensemble: AIProvider[];
+    private maxRepairAttempts: number;
+    private minEnsembleConfidence: number;
+    private targetEventCount?: string;
 
-        if (provider === 'gemini') {
-            // Keep for backward compatibility if needed
-            const { GoogleGenerativeAI } = require('@google/generative-ai');
-            this.geminiClient = new GoogleGenerativeAI(apiKey);
-        }
+    constructor() {
+        this.provider = createAIProviderFromEnv();
+        this.ensemble = createEnsembleProvidersFromEnv();
+        this.maxRepairAttempts = parseInt(process.env.AI_REPAIR_ATTEMPTS || '2');
+        this.minEnsembleConfidence = parseFloat(process.env.AI_ENSEMBLE_MIN_CONFIDENCE || '0.6');
+        this.targetEventCount = process.env.AI_TARGET_EVENT_COUNT;
     }
 
     /**
-     * Generate weekly market events using AI
+     * Generate weekly market events using AI.
+     * With AI_ENSEMBLE configured, every member generates the week and the results are merged.
+     * The prompt and every provider response are written to trace as the run progresses.
      */
-    async generateWeeklyMarketEvents(weekStart?: Date): Promise<CreateMarketEvent[]> {
+    async generateWeeklyMarketEvents(weekStart?: Date, trace: GenerationTrace = { responses: [] }): Promise<GenerationResult> {
         const targetWeek = weekStart || this.getCurrentWeekStart();
+        trace.week = this.formatWeekKey(targetWeek);
+
+        // Refuse to spend once AI_MONTHLY_BUDGET_USD is used up
+        await usageService.assertWithinBudget();
 
         try {
-            log(`Generating market events for week of ${targetWeek.toDateString()} using ${this.config.provider}`);
+            const prompt = await this.buildMarketEventsPrompt(targetWeek);
+            trace.prompt = { ...prompt.ref, text: prompt.text };
+            log(`Using prompt template ${prompt.ref.name} v${prompt.ref.version}`);
+            this.emit(trace, 'prompt', `Built prompt ${prompt.ref.name} v${prompt.ref.version}`, {
+                ...prompt.ref,
+                length: prompt.text.length
+            });
 
-            const prompt = this.buildMarketEventsPrompt(targetWeek);
-            const { content, citations } = await this.callAI(prompt);
+            const result = this.ensemble.length > 1
+                ? await this.generateEnsemble(prompt.text, targetWeek, trace)
+                : await this.generateWithProvider(this.provider, prompt.text, targetWeek, trace);
 
-            const events = this.parseAIResponse(content, citations);
-            log(`Generated ${events.length} market events with ${citations.length} citations`);
+            if (result.events.length === 0 && !result.heldBack?.length) {
+                throw new Error(`No valid events found in AI response (${result.report.rejected} rejected)`);
+            }
 
-            return events;
+            // Record the template version on every event so a bad prompt can be traced and rolled back
+            const stamp = (event: CreateMarketEvent): CreateMarketEvent => ({
+                ...event,
+                prompt_name: prompt.ref.name,
+                prompt_version: prompt.ref.version
+            });
+
+            return {
+                ...result,
+                events: result.events.map(stamp),
+                heldBack: result.heldBack?.map(stamp),
+                usage: usageService.summarize(trace.responses),
+                prompt: prompt.ref
+            };
         } catch (error) {
             log('Error generating market events:', error);
             throw new Error(`Failed to generate market events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            // Failed runs still cost money, so usage is recorded either way
+            await this.recordUsage(targetWeek, trace.responses);
         }
     }
 
     /**
-     * Call the configured AI provider
+     * Re-verify a week's stored events against fresh searches: which changed, were postponed or cancelled,
+     * and which events were announced since. Runs on the primary provider, also with AI_ENSEMBLE set.
+     * Checks are validated against the stored events here; applying them is up to the caller.
      */
-    private async callAI(prompt: string): Promise<{ content: string; citations: string[] }> {
-        switch (this.config.provider) {
-            case 'gemini':
-                const geminiContent = await this.callGemini(prompt);
-                return { content: geminiContent, citations: [] }; // Gemini doesn't provide citations in the same way
-            case 'grok':
-            case 'xai':
-                return this.callGrok(prompt);
-            default:
-                throw new Error(`Unsupported AI provider: ${this.config.provider}`);
+    async refreshWeekEvents(weekStart: Date, stored: MarketEvent[], trace: GenerationTrace = { responses: [] }): Promise<RefreshResult> {
+        trace.week = this.formatWeekKey(weekStart);
+
+        await usageService.assertWithinBudget();
+
+        try {
+            const text = this.buildRefreshPrompt(weekStart, stored);
+            trace.prompt = { ...WEEK_REFRESH_PROMPT, text };
+            this.emit(trace, 'prompt', `Built refresh prompt for ${stored.length} stored events`, {
+                ...WEEK_REFRESH_PROMPT,
+                length: text.length
+            });
+
+            log(`Refreshing ${stored.length} events for week of ${weekStart.toDateString()} using ${this.provider.name} (${this.provider.model})`);
+            const { content } = await this.callAI(this.provider, text, weekStart, trace, { responseSchema: WEEK_REFRESH_RESPONSE_SCHEMA });
+            const result = this.parseRefreshResponse(content, stored, weekStart);
+
+            this.emit(trace, 'parsed', `${result.checks.length} changed, ${result.unchanged} unchanged, ${result.events.length} new (${result.report.rejected} invalid)`, {
+                provider: this.provider.name,
+                changed: result.checks.length,
+                unchanged: result.unchanged,
+                events: result.events.length,
+                invalid: result.report.rejected
+            });
+            result.report.rejections.forEach(rejection => {
+                log('Rejected refresh item:', rejection.errors, rejection.event);
+                this.emit(trace, 'rejected', `Rejected refresh item: ${rejection.errors.join('; ')}`, {
+                    provider: this.provider.name,
+                    errors: rejection.errors
+                });
+            });
+
+            return { ...result, usage: usageService.summarize(trace.responses), prompt: WEEK_REFRESH_PROMPT };
+        } catch (error) {
+            log('Error refreshing market events:', error);
+            throw new Error(`Failed to refresh market events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            await this.recordUsage(weekStart, trace.responses);
         }
     }
 
     /**
-     * Call Gemini AI
+     * Provider and model a run is attributed to; ensembles list every member
      */
-    private async callGemini(prompt: string): Promise<string> {
-        if (!this.geminiClient) {
-            throw new Error('Gemini client not initialized');
+    describeProviders(): { provider: string; model: string } {
+        if (this.ensemble.length > 1) {
+            return { provider: 'ensemble', model: this.ensemble.map(provider => `${provider.name}:${provider.model}`).join(',') };
         }
+        return { provider: this.provider.name, model: this.provider.model };
+    }
 
-        const model = this.geminiClient.getGenerativeModel({
-            model: this.config.model || 'gemini-1.5-pro-latest'
-        });
+    /**
+     * Parse an archived response again without calling the AI (no repair round-trips)
+     */
+    reparseResponse(response: GenerationResponse, weekStart: Date): ReparsedResponse {
+        const { provider, model } = response;
+        try {
+            const parsed = this.parseAIResponse(response.content, response.citations, weekStart);
+            return {
+                provider,
+                model,
+                events: parsed.events,
+                rejected: parsed.invalid.map(({ event, errors }) => ({ event, errors }))
+            };
+        } catch (error) {
+            return { provider, model, events: [], rejected: [], error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    }
 
-        const result = await model.generateContent(prompt);
-        const response = result.response;
-        const text = response.text();
+    /**
+     * Report a generation step to whoever is following the run
+     */
+    private emit(trace: GenerationTrace, phase: GenerationPhase, message: string, data?: Record<string, unknown>): void {
+        trace.onProgress?.({ phase, message, data, at: new Date().toISOString() });
+    }
 
-        if (!text) {
-            throw new Error('Empty response from Gemini');
+    private async recordUsage(targetWeek: Date, calls: GenerationResponse[]): Promise<void> {
+        try {
+            await usageService.recordUsage(this.formatWeekKey(targetWeek), usageService.summarize(calls));
+        } catch (error) {
+            log('Error recording usage:', error);
         }
+    }
+
+    /**
+     * Generate and validate a week's events with a single provider
+     */
+    private async generateWithProvider(
+        provider: AIProvider,
+        prompt: string,
+        targetWeek: Date,
+        trace: GenerationTrace
+    ): Promise<GenerationResult> {
+        log(`Generating market events for week of ${targetWeek.toDateString()} using ${provider.name} (${provider.model})`);
 
-        return text;
+        const { content, citations } = await this.callAI(provider, prompt, targetWeek, trace);
+
+        const result = await this.parseWithRepair(provider, content, citations, targetWeek, trace);
+        const { report } = result;
+        log(`Generated ${result.events.length} market events with ${citations.length} citations (accepted ${report.accepted}, repaired ${report.repaired}, rejected ${report.rejected})`);
+
+        return result;
     }
 
     /**
-     * Call xAI (Grok) with web_search and x_search tools
+     * Run the week through every ensemble member and merge events that refer to the same release.
+     * Events below AI_ENSEMBLE_MIN_CONFIDENCE are held back instead of being published.
      */
-    private async callGrok(prompt: string): Promise<{ content: string; citations: string[] }> {
-        const XAI_API_KEY = this.config.apiKey;
-        const BASE_URL = 'https://api.x.ai/v1';
-        const MODEL = this.config.model || 'grok-4-fast';
-
-        const response = await fetch(`${BASE_URL}/responses`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${XAI_API_KEY}`,
-            },
-            body: JSON.stringify({
-                model: MODEL,
-                input: [
-                    { role: 'system', content: 'You are a financial analyst specializing in market-moving events. Use the available tools to research current market events and provide accurate, timely information.' },
-                    { role: 'user', content: prompt }
-                ],
-                tools: [
-                    { type: 'web_search' },
-                    { type: 'x_search' }
-                ]
-            }),
+    private async generateEnsemble(prompt: string, targetWeek: Date, trace: GenerationTrace): Promise<GenerationResult> {
+        const outcomes = await Promise.allSettled(
+            this.ensemble.map(provider => this.generateWithProvider(provider, prompt, targetWeek, trace))
+        );
+
+        const succeeded: { label: string; result: GenerationResult }[] = [];
+        const providers: EnsembleProviderReport[] = outcomes.map((outcome, index) => {
+            const provider = this.ensemble[index]!;
+            const label = `${provider.name}:${provider.model}`;
+
+            if (outcome.status === 'rejected') {
+                log(`Ensemble member ${label} failed:`, outcome.reason);
+                return {
+                    provider: provider.name,
+                    model: provider.model,
+                    events: 0,
+                    error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error'
+                };
+            }
+
+            succeeded.push({ label, result: outcome.value });
+            return { provider: provider.name, model: provider.model, events: outcome.value.events.length };
         });
 
-        if (!response.ok) {
-            throw new Error(`xAI API error: ${response.status} ${response.statusText}`);
+        if (succeeded.length === 0) {
+            throw new Error('All ensemble providers failed');
         }
 
-        const data: any = await response.json();
-        log('xAI Response:', JSON.stringify(data, null, 2));
+        // Agreement is counted against the whole ensemble, so events from a lone surviving member are held back
+        const merged = this.mergeEnsembleEvents(
+            succeeded.map(({ label, result }) => ({ label, events: result.events })),
+            this.ensemble.length
+        );
+        const events = merged.filter(event => (event.confidence ?? 0) >= this.minEnsembleConfidence);
+        const heldBack = merged.filter(event => (event.confidence ?? 0) < this.minEnsembleConfidence);
+
+        const reports = succeeded.map(({ result }) => result.report);
+        const report: GenerationReport = {
+            accepted: reports.reduce((sum, item) => sum + item.accepted, 0),
+            repaired: reports.reduce((sum, item) => sum + item.repaired, 0),
+            rejected: reports.reduce((sum, item) => sum + item.rejected, 0),
+            rejections: reports.flatMap(item => item.rejections),
+            providers
+        };
+
+        log(`Ensemble merged ${merged.length} events from ${succeeded.length}/${this.ensemble.length} providers (${heldBack.length} held back)`);
+        return { events, heldBack, report };
+    }
 
-        // Extract content from xAI responses API format
-        const message = data.output?.find((item: any) => item.type === 'message' && item.content);
-        const content = message?.content?.[0]?.text || '';
+    /**
+     * Group events from different providers by name similarity and score how much they agree
+     * out of providerCount, the configured ensemble size
+     */
+    private mergeEnsembleEvents(results: { label: string; events: CreateMarketEvent[] }[], providerCount: number): CreateMarketEvent[] {
+        const groups: EnsembleMember[][] = [];
+
+        for (const { label, events } of results) {
+            for (const event of events) {
+                let bestGroup: EnsembleMember[] | undefined;
+                let bestScore = ENSEMBLE_MATCH_THRESHOLD;
+
+                for (const group of groups) {
+                    if (group.some(member => member.label === label)) continue;
+                    const score = nameSimilarity(group[0]!.event.event, event.event);
+                    if (score >= bestScore) {
+                        bestGroup = group;
+                        bestScore = score;
+                    }
+                }
 
-        if (!content) {
-            throw new Error('No content received from xAI');
+                if (bestGroup) {
+                    bestGroup.push({ label, event });
+                } else {
+                    groups.push([{ label, event }]);
+                }
+            }
         }
 
-        // Extract citations from annotations
-        const citations = message?.content?.[0]?.annotations
-            ?.filter((ann: any) => ann.type === 'url_citation')
-            ?.map((ann: any) => ann.url) || [];
+        return groups.map(group => this.mergeEnsembleGroup(group, providerCount));
+    }
+
+    /**
+     * Merge one group of matching events: majority values win (ties go to the earlier provider),
+     * confidence is the average share of the ensemble's providers agreeing on date, significance and sentiment
+     * (failed members count as disagreeing)
+     */
+    private mergeEnsembleGroup(group: EnsembleMember[], providerCount: number): CreateMarketEvent {
+        // Dates agree when they parse to the same days, however the providers wrote them
+        const dateKey = (event: CreateMarketEvent) =>
+            event.start_date ? `${event.start_date}/${event.end_date}` : normalizeDateText(event.date);
+        const valueOf = (event: CreateMarketEvent, field: typeof CONSENSUS_FIELDS[number] | 'type') =>
+            field === 'date' ? dateKey(event) : event[field];
+
+        const majority = (field: typeof CONSENSUS_FIELDS[number] | 'type') => {
+            const counts = new Map<string, number>();
+            group.forEach(({ event }) => counts.set(valueOf(event, field), (counts.get(valueOf(event, field)) || 0) + 1));
+            let winner = valueOf(group[0]!.event, field);
+            counts.forEach((count, value) => {
+                if (count > (counts.get(winner) || 0)) winner = value;
+            });
+            return { value: winner, count: counts.get(winner) || 0, distinct: counts.size };
+        };
+
+        const disagreements: Consensus['disagreements'] = [];
+        const agreement = CONSENSUS_FIELDS.map(field => {
+            const { count, distinct } = majority(field);
+            if (distinct > 1) {
+                disagreements.push({
+                    field,
+                    values: Object.fromEntries(group.map(({ label, event }) => [label, event[field]]))
+                });
+            }
+            return count / providerCount;
+        });
 
-        return { content, citations };
+        const pick = (field: typeof CONSENSUS_FIELDS[number] | 'type') => {
+            const { value } = majority(field);
+            return group.find(({ event }) => valueOf(event, field) === value)!.event;
+        };
+
+        const citations = Array.from(new Set(group.flatMap(({ event }) => event.citations || [])));
+        const confidence = agreement.reduce((sum, value) => sum + value, 0) / agreement.length;
+
+        const dated = pick('date');
+
+        return {
+            ...group[0]!.event,
+            date: dated.date,
+            start_date: dated.start_date,
+            end_date: dated.end_date,
+            release_time: dated.release_time,
+            timezone: dated.timezone,
+            all_day: dated.all_day,
+            type: pick('type').type,
+            significance: pick('significance').significance,
+            market_sentiment: pick('market_sentiment').market_sentiment,
+            citations: citations.length > 0 ? citations : undefined,
+            unsourced: citations.length === 0,
+            confidence: Math.round(confidence * 100) / 100,
+            consensus: {
+                providers: group.map(({ label }) => label),
+                disagreements
+            }
+        };
     }
 
     /**
-     * Build the prompt for generating market events
+     * Call an AI provider, appending its response and token usage to the trace
      */
-    private buildMarketEventsPrompt(targetWeek: Date): string {
-        const weekEnd = new Date(targetWeek);
-        weekEnd.setDate(targetWeek.getDate() + 6);
-
-        const formatDate = (date: Date) => {
-            return date.toLocaleDateString('en-US', {
-                month: 'long',
-                day: 'numeric',
-                year: 'numeric'
+    private async callAI(
+        provider: AIProvider,
+        prompt: string,
+        targetWeek: Date,
+        trace: GenerationTrace,
+        options: { useTools?: boolean; purpose?: GenerationResponse['purpose']; responseSchema?: AIResponseSchema } = {}
+    ): Promise<AIGenerateResult> {
+        const { capabilities } = provider;
+        const purpose = options.purpose || 'generate';
+        this.emit(trace, 'provider-call', `Calling ${provider.name} (${provider.model})${purpose === 'repair' ? ' to repair events' : ''}`, {
+            provider: provider.name,
+            model: provider.model,
+            purpose
+        });
+
+        const result = await provider.generate({
+            system: SYSTEM_PROMPT,
+            prompt,
+            useTools: capabilities.tools && options.useTools !== false,
+            week: this.formatWeekKey(targetWeek),
+            responseSchema: capabilities.structuredOutput ? options.responseSchema || MARKET_EVENTS_RESPONSE_SCHEMA : undefined
+        });
+
+        // Bill the provider that actually answered, which differs after a fallback
+        const servedBy = result.servedBy || { provider: provider.name, model: provider.model };
+        trace.responses.push({
+            ...servedBy,
+            purpose,
+            content: result.content,
+            citations: result.citations,
+            toolCalls: result.toolCalls,
+            usage: result.usage
+        });
+
+        (result.toolCalls || []).forEach(toolCall => {
+            this.emit(trace, 'tool-search', toolCall.query ? `${toolCall.type}: ${toolCall.query}` : toolCall.type, { ...toolCall });
+        });
+        this.emit(trace, 'provider-response', `${servedBy.provider} answered with ${result.citations.length} citations`, {
+            ...servedBy,
+            purpose,
+            length: result.content.length,
+            citations: result.citations.length,
+            toolCalls: result.toolCalls?.length || 0
+        });
+
+        log(`${servedBy.provider} response:`, result.content);
+        return result;
+    }
+
+    /**
+     * Parse the AI response, sending validation errors back to the model
+     * for up to AI_REPAIR_ATTEMPTS rounds before rejecting events
+     */
+    private async parseWithRepair(
+        provider: AIProvider,
+        content: string,
+        citations: AICitation[],
+        targetWeek: Date,
+        trace: GenerationTrace
+    ): Promise<GenerationResult> {
+        let parsed: ParsedResponse | null = null;
+        let responseRepaired = false;
+        let attempt = 0;
+
+        // Repair responses that can't be parsed at all (truncated or malformed JSON)
+        while (!parsed) {
+            try {
+                parsed = this.parseAIResponse(content, citations, targetWeek);
+            } catch (error) {
+                if (attempt >= this.maxRepairAttempts) {
+                    throw error;
+                }
+                attempt++;
+                log(`Repairing unparseable AI response (attempt ${attempt}/${this.maxRepairAttempts})`);
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                ({ content } = await this.callAI(provider, this.buildParseRepairPrompt(content, message), targetWeek, trace, { useTools: false, purpose: 'repair' }));
+                citations = []; // Offsets no longer line up with the repaired text
+                responseRepaired = true;
+            }
+        }
+
+        this.emit(trace, 'parsed', `Parsed ${parsed.events.length} events from ${provider.name} (${parsed.invalid.length} invalid)`, {
+            provider: provider.name,
+            events: parsed.events.length,
+            invalid: parsed.invalid.length
+        });
+
+        const repaired: CreateMarketEvent[] = [];
+        let pending = parsed.invalid;
+
+        // Repair individual events that failed schema validation
+        while (pending.length > 0 && attempt < this.maxRepairAttempts) {
+            attempt++;
+            log(`Repairing ${pending.length} invalid events (attempt ${attempt}/${this.maxRepairAttempts})`);
+
+            try {
+                const response = await this.callAI(provider, this.buildRepairPrompt(pending), targetWeek, trace, { useTools: false, purpose: 'repair' });
+                const candidates = this.extractEvents(response.content);
+
+                // Only trust the repair if it lines up one-to-one with the events we sent
+                if (candidates.length !== pending.length) {
+                    log(`Repair returned ${candidates.length} events for ${pending.length} invalid ones, ignoring`);
+                    continue;
+                }
+
+                const stillInvalid: InvalidEvent[] = [];
+                candidates.forEach(candidate => {
+                    const result = this.validateEvent(candidate, targetWeek);
+                    if (result.success) {
+                        // Repair responses carry no annotations, so only the model's own sources apply
+                        repaired.push(this.attributeCitations(result.event));
+                    } else {
+                        stillInvalid.push({ event: candidate, errors: result.errors });
+                    }
+                });
+                pending = stillInvalid;
+            } catch (error) {
+                log('Error repairing events:', error);
+            }
+        }
+
+        const rejections: RejectedEvent[] = pending.map(({ event, errors }) => ({ event, errors }));
+        rejections.forEach(rejection => {
+            log('Rejected event:', rejection.errors, rejection.event);
+            const name = (rejection.event as { event?: unknown } | null)?.event;
+            this.emit(trace, 'rejected', `Rejected ${typeof name === 'string' ? `"${name}"` : 'event'}: ${rejection.errors.join('; ')}`, {
+                provider: provider.name,
+                errors: rejection.errors
             });
+        });
+
+        const report: GenerationReport = {
+            accepted: responseRepaired ? 0 : parsed.events.length,
+            repaired: repaired.length + (responseRepaired ? parsed.events.length : 0),
+            rejected: rejections.length,
+            rejections
         };
 
-        return `You are a financial analyst researching CURRENT market-moving events. Use web_search and x_search tools to find real-time information about significant events happening THIS WEEK (${formatDate(targetWeek)} to ${formatDate(weekEnd)}).
-
-RESEARCH INSTRUCTIONS:
-1. Use web_search to find official economic calendars, central bank announcements, corporate earnings, and geopolitical developments
-2. Use x_search to check recent Twitter discussions about market-moving events, breaking news, and analyst commentary
-3. Focus on events that will actually occur this week - not hypothetical future events
-4. Look for specific dates, times, and expected outcomes
-
-EVENT TYPES TO RESEARCH:
-- Economic data releases (GDP, inflation, employment, PMI, etc.)
-- Central bank meetings, rate decisions, and press conferences
-- Corporate earnings reports and guidance
-- Geopolitical developments, trade talks, conflicts
-- Regulatory announcements and policy changes
-- Major conferences, summits, or technological releases
-- Market holidays and closures
-
-For each event you find through research, provide:
-1. Date (exact date like "December 1 2025" or date range like "December 1-3 2025")
-2. Event name (official name)
-3. Type (descriptive category based on your research)
-4. Description & Potential Impact (what it is, when it happens, expected outcomes, market impact)
-5. Significance (High, Medium, Low based on historical market impact)
-6. Market Sentiment (Bullish, Bearish, Neutral, Mixed based on expected outcome)
-
-Format your response as a valid JSON array. Use the tools to ensure accuracy and timeliness.
-
-Example format:
-[
-  {
-    "date": "December 1 2025",
-    "event": "US ISM Manufacturing PMI",
-    "type": "Economic",
-    "description": "Manufacturing activity indicator released at 10:00 AM ET. Expected 48.5 vs previous 47.8. Key gauge of US manufacturing health.",
-    "significance": "High",
-    "marketSentiment": "Mixed"
-  }
-]
-
-Valid event types: "Economic", "Fed", "Crypto", "Retail/Geopolitical", "Holiday", "Geopolitical", "Corporate"
-
-Generate 10-15 events based on your research findings. Focus on events with confirmed dates this week.`;
+        return { events: [...parsed.events, ...repaired], report };
     }
 
     /**
-     * Parse AI response into market events
+     * Render the active market events prompt template for the week.
+     * Falls back to the built-in template if the saved versions can't be loaded.
      */
-    private parseAIResponse(response: string, citations: string[] = []): CreateMarketEvent[] {
+    private async buildMarketEventsPrompt(targetWeek: Date): Promise<{ ref: PromptRef; text: string }> {
+        let template: PromptTemplate | null = null;
         try {
-            // Extract JSON from response (AI might add extra text)
-            const jsonMatch = response.match(/\[[\s\S]*\]/);
-            if (!jsonMatch) {
-                throw new Error('No JSON array found in AI response');
+            template = await promptTemplateService.getActiveTemplate(MARKET_EVENTS_PROMPT);
+        } catch (error) {
+            log('Error loading prompt template, using built-in default:', error);
+        }
+
+        const ref: PromptRef = { name: MARKET_EVENTS_PROMPT, version: template?.version ?? 0 };
+        const variables = buildPromptVariables(targetWeek, {
+            categories: AIMarketEventSchema.shape.type.options,
+            targetCount: this.targetEventCount
+        });
+        const text = renderPromptTemplate(template?.template ?? DEFAULT_MARKET_EVENTS_TEMPLATE, variables);
+
+        return { ref, text };
+    }
+
+    /**
+     * Build the prompt asking the model to re-verify the stored events of a week
+     */
+    private buildRefreshPrompt(weekStart: Date, stored: MarketEvent[]): string {
+        const { weekStart: from, weekEnd: to } = buildPromptVariables(weekStart, { categories: [] });
+        const today = new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+        const list = stored.map((event, index) =>
+            `${index + 1}. ${event.date}: ${event.event} (${event.type}, ${event.significance}, ${event.market_sentiment}${event.status === 'postponed' ? ', postponed' : ''})\n   ${event.description}`
+        ).join('\n');
+
+        return `You are a financial analyst re-verifying the market-moving events tracked for the week of ${from} to ${to}. Today is ${today}. Use web_search and x_search to check each event below against the latest news and official calendars.
+
+TRACKED EVENTS:
+${list}
+
+For every tracked event return a check with its number as "ref" and a "status":
+- "unchanged": still accurate
+- "updated": still taking place, but its date, description, significance or market sentiment changed
+- "postponed": delayed; set "date" if a new date has been announced
+- "cancelled": called off
+Set only the fields that changed ("date" like "December 1 2025", "description", "significance" one of ${AIEventCheckSchema.shape.significance.unwrap().options.map(value => `"${value}"`).join(', ')}, "marketSentiment" one of ${AIEventCheckSchema.shape.marketSentiment.unwrap().options.map(value => `"${value}"`).join(', ')}) and null the others. Give a short "reason" for every change and the URLs supporting it in "sources".
+
+In "newEvents", list significant events for this week announced since the list was made that aren't tracked yet, with the fields "date", "event", "type" (one of ${AIMarketEventSchema.shape.type.options.map(type => `"${type}"`).join(', ')}), "description", "significance", "marketSentiment" and "sources".
+
+Respond with a JSON object of the form {"checks": [...], "newEvents": [...]} and no other text.`;
+    }
+
+    /**
+     * Parse a refresh response, validating each check and new event on its own so one bad item
+     * doesn't discard the rest
+     */
+    private parseRefreshResponse(response: string, stored: MarketEvent[], weekStart: Date): Omit<RefreshResult, 'usage' | 'prompt'> {
+        const jsonMatch = response.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+            throw new Error('No JSON object found in AI response');
+        }
+
+        const parsed = JSON.parse(jsonMatch[0]);
+        const rawChecks: unknown[] = Array.isArray(parsed?.checks) ? parsed.checks : [];
+        const rawEvents: unknown[] = Array.isArray(parsed?.newEvents) ? parsed.newEvents : [];
+
+        const checks: EventCheck[] = [];
+        const events: CreateMarketEvent[] = [];
+        const rejections: RejectedEvent[] = [];
+        let unchanged = 0;
+
+        rawChecks.forEach(raw => {
+            const result = AIEventCheckSchema.safeParse(raw);
+            if (!result.success) {
+                rejections.push({ event: raw, errors: result.error.issues.map(issue => `${issue.path.join('.') || 'check'}: ${issue.message}`) });
+                return;
             }
 
-            const events = JSON.parse(jsonMatch[0]);
+            const check = result.data;
+            const existing = stored[check.ref - 1];
+            if (!existing?.id) {
+                rejections.push({ event: raw, errors: [`ref: No tracked event ${check.ref}`] });
+                return;
+            }
+            if (check.status === 'unchanged') {
+                unchanged++;
+                return;
+            }
 
-            if (!Array.isArray(events)) {
-                throw new Error('AI response is not a valid array');
+            const update: UpdateMarketEvent = {};
+            if (check.date) {
+                const date = check.date.replace(/,/g, '').trim();
+                const dates = parseEventDates(date, { description: check.description ?? existing.description, referenceDate: weekStart });
+                if (!dates) {
+                    rejections.push({ event: raw, errors: [`date: Unrecognized date "${check.date}"`] });
+                    return;
+                }
+                Object.assign(update, { date, ...dates });
+            }
+            if (check.description) update.description = check.description;
+            if (check.significance) update.significance = check.significance;
+            if (check.marketSentiment) update.market_sentiment = check.marketSentiment;
+
+            if (check.status !== 'updated') {
+                update.status = check.status;
+            } else if (existing.status === 'postponed' && update.date) {
+                update.status = 'scheduled'; // A postponed event got its new date
             }
 
-            // Validate each event using Zod schema
-            const validEvents: CreateMarketEvent[] = [];
-            for (const event of events) {
-                try {
-                    // Basic validation
-                    if (!event.date || !event.event || !event.type || !event.description || !event.significance || !event.marketSentiment) {
-                        log(`Skipping invalid event: missing required fields`, event);
-                        continue;
-                    }
+            checks.push({
+                eventId: existing.id,
+                status: check.status,
+                update,
+                reason: check.reason,
+                citations: check.sources.filter(url => z.url().safeParse(url).success)
+            });
+        });
 
-                    // Only validate required enum values for significance and sentiment
-                    const validSignificance = ['High', 'Medium', 'Low'];
-                    const validSentiment = ['Bullish', 'Bearish', 'Neutral', 'Mixed'];
+        rawEvents.forEach(raw => {
+            const result = this.validateEvent(raw, weekStart);
+            if (result.success) {
+                events.push(this.attributeCitations(result.event));
+            } else {
+                rejections.push({ event: raw, errors: result.errors });
+            }
+        });
 
-                    if (!validSignificance.includes(event.significance) ||
-                        !validSentiment.includes(event.marketSentiment)) {
-                        log(`Skipping invalid event: invalid significance or sentiment`, event);
-                        continue;
-                    }
+        return {
+            checks,
+            unchanged,
+            events,
+            report: {
+                accepted: checks.length + unchanged + events.length,
+                repaired: 0,
+                rejected: rejections.length,
+                rejections
+            }
+        };
+    }
 
-                    // Normalize event type to valid enum values
-                    const validTypes = ['Economic', 'Fed', 'Crypto', 'Retail/Geopolitical', 'Holiday', 'Geopolitical', 'Corporate'];
-                    let normalizedType = event.type;
-
-                    // Map common variations to valid types
-                    const typeMappings: Record<string, string> = {
-                        'US Economic Data': 'Economic',
-                        'Economic Data': 'Economic',
-                        'Federal Reserve': 'Fed',
-                        'Fed Meeting': 'Fed',
-                        'FOMC': 'Fed',
-                        'Cryptocurrency': 'Crypto',
-                        'Crypto Event': 'Crypto',
-                        'Retail Sales': 'Retail/Geopolitical',
-                        'Geopolitical Event': 'Geopolitical',
-                        'Holiday': 'Holiday',
-                        'Corporate Earnings': 'Corporate',
-                        'Corporate Event': 'Corporate'
-                    };
-
-                    if (typeMappings[event.type]) {
-                        normalizedType = typeMappings[event.type];
-                    } else if (!validTypes.includes(event.type)) {
-                        log(`Skipping invalid event: invalid type "${event.type}". Using "Economic" as fallback.`, event);
-                        normalizedType = 'Economic'; // Default fallback
-                    }
+    /**
+     * Build the prompt asking the model to fix events that failed validation
+     */
+    private buildRepairPrompt(invalid: InvalidEvent[]): string {
+        const details = invalid.map((item, index) =>
+            `Event ${index + 1}:\n${JSON.stringify(item.event, null, 2)}\nErrors:\n${item.errors.map(error => `- ${error}`).join('\n')}`
+        ).join('\n\n');
 
-                    // Normalize date format: remove commas and ensure consistent "Month Day Year" format
-                    const normalizedDate = event.date.replace(/,/g, '').trim();
-
-                    validEvents.push({
-                        date: normalizedDate,
-                        event: event.event,
-                        type: normalizedType,
-                        description: event.description,
-                        significance: event.significance,
-                        market_sentiment: event.marketSentiment,
-                        citations: citations.length > 0 ? citations : undefined
-                    });
-                } catch (error) {
-                    log(`Error validating event:`, error, event);
-                    continue;
+        return `The following ${invalid.length} market events from your previous response failed validation.
+
+${details}
+
+Fix every error and return exactly ${invalid.length} corrected events, in the same order, as a JSON object of the form {"events": [...]}. Each event must have these fields:
+- "date": exact date like "December 1 2025" or range like "December 1-3 2025"
+- "event": event name
+- "type": one of ${AIMarketEventSchema.shape.type.options.map(type => `"${type}"`).join(', ')}
+- "description": what it is and its potential market impact
+- "significance": one of ${AIMarketEventSchema.shape.significance.options.map(value => `"${value}"`).join(', ')}
+- "marketSentiment": one of ${AIMarketEventSchema.shape.marketSentiment.options.map(value => `"${value}"`).join(', ')}
+- "sources": array of URLs that support this specific event (keep the ones already given)
+
+Do not add new events and do not include any text outside the JSON.`;
+    }
+
+    /**
+     * Build the prompt asking the model to re-emit a response that wasn't valid JSON
+     */
+    private buildParseRepairPrompt(response: string, error: string): string {
+        return `Your previous response could not be parsed (${error}). Here it is:
+
+${response}
+
+Return the same market events as a valid JSON object of the form {"events": [...]}, using the fields "date", "event", "type", "description", "significance", "marketSentiment" and "sources". Do not include any text outside the JSON.`;
+    }
+
+    /**
+     * Extract the raw event list from an AI response.
+     * Accepts a structured {"events": [...]} object or a bare array (AI might add extra text).
+     */
+    private extractEvents(response: string): unknown[] {
+        const trimmed = response.trim();
+
+        if (trimmed.startsWith('{')) {
+            try {
+                const parsed = JSON.parse(trimmed);
+                if (Array.isArray(parsed?.events)) {
+                    return parsed.events;
                 }
+            } catch {
+                // Fall through to array extraction
             }
+        }
 
-            if (validEvents.length === 0) {
-                throw new Error('No valid events found in AI response');
-            }
+        const jsonMatch = response.match(/\[[\s\S]*\]/);
+        if (!jsonMatch) {
+            throw new Error('No JSON array found in AI response');
+        }
+
+        const events = JSON.parse(jsonMatch[0]);
+
+        if (!Array.isArray(events)) {
+            throw new Error('AI response is not a valid array');
+        }
 
-            return validEvents;
+        return events;
+    }
+
+    /**
+     * Parse AI response into market events, collecting the ones that fail validation
+     */
+    private parseAIResponse(response: string, citations: AICitation[] = [], referenceDate?: Date): ParsedResponse {
+        try {
+            const events = this.extractEvents(response);
+
+            // Annotation offsets can only be mapped when every event's span was located
+            const spans = this.findEventSpans(response);
+            const spansAligned = spans.length === events.length;
+
+            const validEvents: CreateMarketEvent[] = [];
+            const invalid: InvalidEvent[] = [];
+            events.forEach((event, index) => {
+                const result = this.validateEvent(event, referenceDate);
+                if (result.success) {
+                    validEvents.push(this.attributeCitations(result.event, spansAligned ? spans[index] : undefined, citations));
+                } else {
+                    log(`Invalid event:`, result.errors, event);
+                    invalid.push({ event, errors: result.errors });
+                }
+            });
+
+            return { events: validEvents, invalid };
         } catch (error) {
             log('Error parsing AI response:', error);
             throw new Error(`Failed to parse AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
+    /**
+     * Normalize and validate a single AI event against AIMarketEventSchema
+     */
+    private validateEvent(
+        raw: unknown,
+        referenceDate?: Date
+    ): { success: true; event: CreateMarketEvent } | { success: false; errors: string[] } {
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            return { success: false, errors: ['Event must be a JSON object'] };
+        }
+
+        const candidate = { ...(raw as Record<string, unknown>) };
+
+        // Normalize event type to valid enum values
+        if (typeof candidate.type === 'string') {
+            const validTypes: readonly string[] = AIMarketEventSchema.shape.type.options;
+            if (TYPE_MAPPINGS[candidate.type]) {
+                candidate.type = TYPE_MAPPINGS[candidate.type];
+            } else if (!validTypes.includes(candidate.type)) {
+                log(`Invalid type "${candidate.type}". Using "Economic" as fallback.`);
+                candidate.type = 'Economic'; // Default fallback
+            }
+        }
+
+        // Normalize date format: remove commas and ensure consistent "Month Day Year" format
+        if (typeof candidate.date === 'string') {
+            candidate.date = candidate.date.replace(/,/g, '').trim();
+        }
+
+        const result = AIMarketEventSchema.safeParse(candidate);
+        if (!result.success) {
+            return {
+                success: false,
+                errors: result.error.issues.map(issue => `${issue.path.join('.') || 'event'}: ${issue.message}`)
+            };
+        }
+
+        const event = result.data;
+
+        // Years missing from the date are taken from the week being generated
+        const dates = parseEventDates(event.date, { description: event.description, referenceDate });
+        if (!dates) {
+            return {
+                success: false,
+                errors: [`date: Unrecognized date "${event.date}", expected a date like "December 1 2025" or a range like "December 1-3 2025"`]
+            };
+        }
+
+        const sources = event.sources.filter(url => z.url().safeParse(url).success);
+
+        return {
+            success: true,
+            event: {
+                date: event.date,
+                ...dates,
+                event: event.event,
+                type: event.type,
+                description: event.description,
+                significance: event.significance,
+                market_sentiment: event.marketSentiment,
+                citations: sources.length > 0 ? sources : undefined
+            }
+        };
+    }
+
+    /**
+     * Attach only the citations that support this event: annotations whose offsets fall
+     * inside the event's JSON, else the sources the model listed for it. Events with
+     * neither are flagged as unsourced.
+     */
+    private attributeCitations(event: CreateMarketEvent, span?: TextSpan, citations: AICitation[] = []): CreateMarketEvent {
+        const annotated = span
+            ? citations
+                .filter(citation => citation.startIndex !== undefined && citation.startIndex >= span.start && citation.startIndex < span.end)
+                .map(citation => citation.url)
+            : [];
+
+        const urls = Array.from(new Set(annotated.length > 0 ? annotated : event.citations || []));
+
+        return {
+            ...event,
+            citations: urls.length > 0 ? urls : undefined,
+            unsourced: urls.length === 0
+        };
+    }
+
+    /**
+     * Locate the character span of each event object (an object directly inside an array)
+     * so citation annotation offsets can be mapped back to events
+     */
+    private findEventSpans(text: string): TextSpan[] {
+        const spans: TextSpan[] = [];
+        const stack: string[] = [];
+        let inString = false;
+        let escaped = false;
+        let objectStart = -1;
+        let objectDepth = -1;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (inString) {
+                if (escaped) {
+                    escaped = false;
+                } else if (char === '\\') {
+                    escaped = true;
+                } else if (char === '"') {
+                    inString = false;
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                inString = true;
+            } else if (char === '{' || char === '[') {
+                if (char === '{' && objectStart === -1 && stack[stack.length - 1] === '[') {
+                    objectStart = i;
+                    objectDepth = stack.length;
+                }
+                stack.push(char);
+            } else if (char === '}' || char === ']') {
+                stack.pop();
+                if (char === '}' && objectStart !== -1 && stack.length === objectDepth) {
+                    spans.push({ start: objectStart, end: i + 1 });
+                    objectStart = -1;
+                }
+            }
+        }
+
+        return spans;
+    }
+
+    /**
+     * Format a week start as YYYY-MM-DD (local time) for fixture keys
+     */
+    private formatWeekKey(date: Date): string {
+        const month = String(date.getMonth() + 1).padStart(2, '0');
+        const day = String(date.getDate()).padStart(2, '0');
+        return `${date.getFullYear()}-${month}-${day}`;
+    }
+
     /**
      * Get the start date of the current week (Sunday)
      */
@@ -311,5 +957,13 @@ Generate 10-15 events based on your research findings. Focus on events with conf
     }
 }
 
-// Export singleton instance
-export const aiService = new AIService();
+let instance: AIService | null = null;
+
+// Created on first use: the providers need their API keys, which importing the module (as `next build` does
+// for the cron route) must not
+export const getAIService = (): AIService => {
+    if (!instance) {
+        instance = new AIService();
+    }
+    return instance;
+};
@@ -0,0 +1,114 @@
+import { repositories } from '../repositories';
+import {
+  GenerationRun,
+  GenerationRunStatus,
+  GenerationRunSummary,
+  GenerationTrace,
+  GenerationTrigger
+} from '../types/generation-run';
+import debug from 'debug';
+
+const log = debug('market-events:generation-runs');
+
+export interface GenerationRunOutcome {
+  trace: GenerationTrace;
+  parsed?: number;
+  rejected?: number;
+  created?: number;
+  skipped?: number;
+  error?: unknown;
+}
+
+export class GenerationRunService {
+  /**
+   * Record the start of a run
+   */
+  async startRun(trigger: GenerationTrigger, provider: { provider: string; model: string }): Promise<GenerationRun> {
+    try {
+      return await repositories.generationRuns.create({
+        trigger,
+        status: 'running',
+        provider: provider.provider,
+        model: provider.model
+      });
+    } catch (error) {
+      log('Error in startRun:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive what the run sent and received, its counts and how it ended
+   */
+  async finishRun(run: GenerationRun, outcome: GenerationRunOutcome): Promise<GenerationRun> {
+    try {
+      const { trace } = outcome;
+      const generated = trace.responses.filter(response => response.purpose === 'generate');
+      const finishedAt = new Date();
+      const status: GenerationRunStatus = outcome.error === undefined ? 'succeeded' : 'failed';
+
+      const data = await repositories.generationRuns.update(run.id, {
+        status,
+        week_start: trace.week || null,
+        prompt_name: trace.prompt?.name || null,
+        prompt_version: trace.prompt?.version ?? null,
+        prompt: trace.prompt?.text || null,
+        raw_response: generated[0]?.content ?? null,
+        citations: generated.flatMap(response => response.citations),
+        responses: trace.responses,
+        parsed_count: outcome.parsed ?? null,
+        rejected_count: outcome.rejected ?? null,
+        created_count: outcome.created ?? null,
+        skipped_count: outcome.skipped ?? null,
+        duration_ms: finishedAt.getTime() - new Date(run.started_at).getTime(),
+        error: outcome.error === undefined ? null : outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+        finished_at: finishedAt.toISOString()
+      });
+
+      log(`Generation run ${run.id} ${status}`);
+      return data;
+    } catch (error) {
+      log('Error in finishRun:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Runs newest first, without the archived prompt and responses
+   */
+  async listRuns(options: {
+    trigger?: GenerationTrigger;
+    status?: GenerationRunStatus;
+    week?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ runs: GenerationRunSummary[]; total: number }> {
+    try {
+      return await repositories.generationRuns.list({
+        trigger: options.trigger,
+        status: options.status,
+        week: options.week,
+        limit: options.limit || 20,
+        offset: options.offset || 0
+      });
+    } catch (error) {
+      log('Error in listRuns:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A run with its archived prompt and responses
+   */
+  async getRun(id: string): Promise<GenerationRun | null> {
+    try {
+      return await repositories.generationRuns.findById(id);
+    } catch (error) {
+      log('Error in getRun:', error);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const generationRunService = new GenerationRunService();
@@ -0,0 +1,93 @@
+import { RangeWeekResult } from '../types/generation-run';
+import { MarketEvent } from '../types/market-event';
+import { formatIsoDate } from '../utils/event-dates';
+
+import { GenerationService, WeekGeneration } from './generation.service';
+import { BudgetExceededError } from './usage.service';
+
+describe('GenerationService.generateRange', () => {
+  let service: GenerationService;
+  let generateWeek: jest.SpyInstance;
+  // Events already stored, by week start
+  let stored: Record<string, MarketEvent[]>;
+
+  beforeEach(() => {
+    service = new GenerationService();
+    stored = {};
+
+    jest.spyOn(service['marketEventsService'], 'getWeekEvents')
+      .mockImplementation(async weekStart => stored[formatIsoDate(weekStart)] || []);
+    generateWeek = jest.spyOn(service, 'generateWeek').mockImplementation(async ({ weekStart }) => ({
+      runId: `run-${formatIsoDate(weekStart!)}`,
+      result: { events: [], report: { accepted: 2, repaired: 0, rejected: 0, rejections: [] } },
+      created: [{} as MarketEvent, {} as MarketEvent],
+      updated: [],
+      skipped: 0,
+      duplicates: []
+    } as WeekGeneration));
+  });
+
+  const generatedWeeks = () => generateWeek.mock.calls.map(([{ weekStart }]) => formatIsoDate(weekStart));
+
+  it('generates every week of the range, skipping weeks that already have events', async () => {
+    stored['2025-11-16'] = [{} as MarketEvent];
+
+    const range = await service.generateRange({ from: '2025-11-05', to: '2025-11-23', concurrency: 1 });
+
+    expect(generatedWeeks()).toEqual(['2025-11-02', '2025-11-09', '2025-11-23']);
+    expect(range.weeks).toEqual([
+      { week_start: '2025-11-02', status: 'succeeded', runId: 'run-2025-11-02', created: 2, skipped: 0 },
+      { week_start: '2025-11-09', status: 'succeeded', runId: 'run-2025-11-09', created: 2, skipped: 0 },
+      { week_start: '2025-11-16', status: 'skipped', existing: 1 },
+      { week_start: '2025-11-23', status: 'succeeded', runId: 'run-2025-11-23', created: 2, skipped: 0 }
+    ]);
+    expect(range).toMatchObject({ succeeded: 3, failed: 0, skipped: 1 });
+  });
+
+  it('regenerates weeks with events when forced', async () => {
+    stored['2025-11-16'] = [{} as MarketEvent];
+
+    await service.generateRange({ from: '2025-11-16', to: '2025-11-16', force: true });
+
+    expect(generatedWeeks()).toEqual(['2025-11-16']);
+  });
+
+  it('resumes from the finished weeks of an earlier run and retries the failed ones', async () => {
+    const done: RangeWeekResult[] = [
+      { week_start: '2025-11-02', status: 'succeeded', runId: 'run-earlier', created: 5, skipped: 0 },
+      { week_start: '2025-11-09', status: 'failed', error: 'xai API error: 503 Service Unavailable' },
+      { week_start: '2025-11-16', status: 'skipped', existing: 4 }
+    ];
+    const progress: number[] = [];
+
+    const range = await service.generateRange(
+      { from: '2025-11-02', to: '2025-11-23', concurrency: 1 },
+      { done, onProgress: ({ completed }) => progress.push(completed!) }
+    );
+
+    expect(generatedWeeks()).toEqual(['2025-11-09', '2025-11-23']);
+    expect(range.weeks.map(week => [week.week_start, week.status, week.runId])).toEqual([
+      ['2025-11-02', 'succeeded', 'run-earlier'],
+      ['2025-11-09', 'succeeded', 'run-2025-11-09'],
+      ['2025-11-16', 'skipped', undefined],
+      ['2025-11-23', 'succeeded', 'run-2025-11-23']
+    ]);
+    expect(progress).toEqual([3, 4]);
+  });
+
+  it('fails the remaining weeks without calling the AI once the budget is spent', async () => {
+    generateWeek.mockRejectedValueOnce(new Error('No valid events found in AI response (3 rejected)'));
+    generateWeek.mockRejectedValueOnce(new BudgetExceededError(101, 100));
+
+    const range = await service.generateRange({ from: '2025-11-02', to: '2025-11-23', concurrency: 1 });
+
+    expect(generatedWeeks()).toEqual(['2025-11-02', '2025-11-09']);
+    expect(range.weeks.map(week => [week.status, week.error])).toEqual([
+      ['failed', 'No valid events found in AI response (3 rejected)'],
+      ['failed', 'Monthly AI budget exceeded: $101.00 spent of $100.00'],
+      ['failed', 'Monthly AI budget exceeded: $101.00 spent of $100.00'],
+      ['failed', 'Monthly AI budget exceeded: $101.00 spent of $100.00']
+    ]);
+    expect(range).toMatchObject({ succeeded: 0, failed: 4, skipped: 0 });
+  });
+});
@@ -0,0 +1,542 @@
+import { MarketEventsService } from './market-events.service';
+import { getAIService } from './ai.service';
+import { GenerationRunOutcome, generationRunService } from './generation-run.service';
+import { jobService } from './job.service';
+import { BudgetExceededError, usageService } from './usage.service';
+import {
+  GenerationPreview,
+  GenerationProgress,
+  GenerationRun,
+  GenerationTrace,
+  GenerationTrigger,
+  RangeGeneration,
+  RangeWeekResult,
+  WeekGenerationSummary,
+  WeekRefresh,
+  WeekRegeneration
+} from '../types/generation-run';
+import {
+  CreateEventsResult,
+  CreateMarketEvent,
+  DuplicateEvent,
+  EventChange,
+  EventPreview,
+  GenerationResult,
+  MarketEvent,
+  RefreshResult
+} from '../types/market-event';
+import { GenerateRangeJobParams, GenerateWeekJobParams, Job, JobKind, JobProgress } from '../types/job';
+import { formatIsoDate } from '../utils/event-dates';
+import { diffEventFields } from '../utils/week-diff';
+import debug from 'debug';
+
+const log = debug('market-events:generation');
+
+// Upper bound for the weeks of a range generated at once; every week runs its own AI searches
+const MAX_RANGE_CONCURRENCY = 4;
+
+export interface WeekGeneration {
+  runId: string | null; // null when the run couldn't be logged
+  result: GenerationResult;
+  created: MarketEvent[];
+  updated: MarketEvent[]; // Stored events that gained citations from a duplicate
+  skipped: number;
+  duplicates: DuplicateEvent[];
+}
+
+export class PreviewNotReadyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreviewNotReadyError';
+  }
+}
+
+export class GenerationService {
+  private marketEventsService: MarketEventsService;
+  private rangeConcurrency: number;
+
+  constructor() {
+    this.marketEventsService = new MarketEventsService();
+    this.rangeConcurrency = parseInt(process.env.RANGE_GENERATION_CONCURRENCY || '2');
+  }
+
+  /**
+   * Generate a week's events with AI and store them, logging the run with its raw responses.
+   * Logging is best effort: a database hiccup there never fails the generation itself.
+   * onProgress is called for every step (prompt, provider calls, searches, parsing, storage).
+   */
+  async generateWeek(options: {
+    weekStart?: Date;
+    trigger: GenerationTrigger;
+    onProgress?: (progress: GenerationProgress) => void;
+  }): Promise<WeekGeneration> {
+    return this.runGeneration(options, async (runId, result, report) => {
+      const { created, updated, skipped, duplicates } = await this.marketEventsService.createEvents(result.events);
+
+      report({
+        phase: 'stored',
+        message: `Stored ${created.length} events, merged citations into ${updated.length}, skipped ${skipped} duplicates`,
+        data: { created: created.length, updated: updated.length, skipped, duplicates }
+      });
+
+      // The run log counts every duplicate as skipped: none of them was inserted
+      return { value: { runId, result, created, updated, skipped, duplicates }, created: created.length, skipped: duplicates.length };
+    });
+  }
+
+  /**
+   * Generate a week's events without storing them, annotating each candidate with what storing it would do
+   */
+  async previewWeek(options: {
+    weekStart?: Date;
+    onProgress?: (progress: GenerationProgress) => void;
+  }): Promise<GenerationPreview> {
+    return this.runGeneration({ ...options, trigger: 'preview' }, async (runId, result, report, trace) => {
+      const candidates = await this.marketEventsService.previewEvents(result.events);
+      const count = (status: EventPreview['status']) => candidates.filter(candidate => candidate.status === status).length;
+
+      report({
+        phase: 'previewed',
+        message: `${count('new')} new, ${count('duplicate')} duplicate, ${count('conflicting')} conflicting`,
+        data: { new: count('new'), duplicate: count('duplicate'), conflicting: count('conflicting') }
+      });
+
+      return {
+        value: {
+          runId,
+          week_start: trace.week || null,
+          candidates,
+          heldBack: result.heldBack || [],
+          validation: result.report,
+          usage: result.usage || []
+        }
+      };
+    });
+  }
+
+  /**
+   * Regenerate a week and replace its stored events with the result in one transaction. Generation
+   * runs first, so a failed AI call leaves the stored events as they were.
+   */
+  async regenerateWeek(options: {
+    weekStart?: Date;
+    onProgress?: (progress: GenerationProgress) => void;
+  }): Promise<WeekRegeneration> {
+    // Any day of the week may be given; generating and replacing from that day would cut across two weeks
+    const weekStart = this.getWeekStart(options.weekStart);
+
+    return this.runGeneration({ ...options, weekStart, trigger: 'clear-regenerate' }, async (runId, result, report) => {
+      const diff = await this.marketEventsService.replaceWeekEvents(weekStart, result.events);
+
+      report({
+        phase: 'replaced',
+        message: `${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`,
+        data: { added: diff.added.length, changed: diff.changed.length, removed: diff.removed.length, unchanged: diff.unchanged }
+      });
+
+      return {
+        value: {
+          runId,
+          diff,
+          heldBack: result.heldBack || [],
+          validation: result.report,
+          usage: result.usage || []
+        },
+        created: diff.added.length
+      };
+    });
+  }
+
+  /**
+   * Re-verify a week's stored events (current week by default) with fresh searches. Changed events are
+   * updated in place, postponed and cancelled ones are flagged rather than deleted, and newly announced
+   * events are added. Every change is logged in event_changes with the reason and sources the AI gave.
+   */
+  async refreshWeek(options: {
+    weekStart?: Date;
+    onProgress?: (progress: GenerationProgress) => void;
+  }): Promise<WeekRefresh> {
+    const weekStart = this.getWeekStart(options.weekStart);
+
+    // Cancelled and completed events are settled; there is nothing left to verify about them
+    const stored = (await this.marketEventsService.getWeekEvents(weekStart))
+      .filter(event => event.status !== 'cancelled' && event.status !== 'completed');
+    if (stored.length === 0) {
+      log(`No events to refresh for week of ${formatIsoDate(weekStart)}`);
+      return {
+        runId: null,
+        week_start: formatIsoDate(weekStart),
+        changes: [],
+        unchanged: 0,
+        skipped: 0,
+        validation: { accepted: 0, repaired: 0, rejected: 0, rejections: [] },
+        usage: []
+      };
+    }
+
+    return this.runGeneration<WeekRefresh, RefreshResult>({
+      weekStart,
+      trigger: 'refresh',
+      onProgress: options.onProgress,
+      generate: trace => getAIService().refreshWeekEvents(weekStart, stored, trace)
+    }, async (runId, result, report, trace) => {
+      const byId = new Map(stored.map(event => [event.id!, event]));
+      const recorded: EventChange[] = [];
+      let unchanged = result.unchanged;
+
+      for (const check of result.checks) {
+        const existing = byId.get(check.eventId)!;
+        const fieldChanges = diffEventFields(existing, check.update, Object.keys(check.update) as (keyof CreateMarketEvent)[]);
+        if (fieldChanges.length === 0) {
+          unchanged++;
+          continue;
+        }
+
+        // The sources behind a change also back the event itself. The change is written with the update,
+        // so a failure later in the refresh can't leave an updated event without its history.
+        const citations = Array.from(new Set([...(existing.citations || []), ...check.citations]));
+        const change = await this.marketEventsService.updateEventWithChange(check.eventId, {
+          ...check.update,
+          citations,
+          ...(citations.length > 0 && { unsourced: false })
+        }, {
+          run_id: runId,
+          kind: check.status,
+          changes: fieldChanges,
+          reason: check.reason,
+          citations: check.citations
+        });
+        if (change) {
+          recorded.push(change);
+        }
+      }
+
+      const { created, skipped } = await this.marketEventsService.createEvents(result.events);
+      recorded.push(...await this.marketEventsService.recordEventChanges(created.map(event => ({
+        event_id: event.id!,
+        run_id: runId,
+        kind: 'added',
+        changes: [],
+        reason: 'Announced since the week was generated',
+        citations: event.citations || []
+      }))));
+      const count = (kind: EventChange['kind']) => recorded.filter(change => change.kind === kind).length;
+
+      report({
+        phase: 'refreshed',
+        message: `${count('updated')} updated, ${count('postponed')} postponed, ${count('cancelled')} cancelled, ${count('added')} added`,
+        data: {
+          updated: count('updated'),
+          postponed: count('postponed'),
+          cancelled: count('cancelled'),
+          added: count('added'),
+          unchanged
+        }
+      });
+
+      return {
+        value: {
+          runId,
+          week_start: trace.week || null,
+          changes: recorded,
+          unchanged,
+          skipped,
+          validation: result.report,
+          usage: result.usage || []
+        },
+        created: created.length,
+        skipped
+      };
+    });
+  }
+
+  /**
+   * Generate every week (Sunday to Saturday) from the one containing from up to to, a few weeks at a time.
+   * Weeks that already have events are skipped unless force is set. Weeks in done (the progress of an
+   * interrupted run of the same job) aren't generated again, so an unfinished backfill continues where it stopped.
+   */
+  async generateRange(
+    params: GenerateRangeJobParams,
+    options: { done?: RangeWeekResult[]; onProgress?: (progress: JobProgress) => void } = {}
+  ): Promise<RangeGeneration> {
+    const weeks = this.listWeekStarts(params.from, params.to);
+    const results = new Map<string, RangeWeekResult>();
+    (options.done || [])
+      .filter(result => result.status !== 'failed')
+      .forEach(result => results.set(result.week_start, result));
+
+    const pending = weeks.filter(week => !results.has(formatIsoDate(week)));
+    const concurrency = Math.min(Math.max(params.concurrency || this.rangeConcurrency, 1), MAX_RANGE_CONCURRENCY);
+    let budgetError: BudgetExceededError | null = null;
+
+    log(`Generating ${pending.length} of ${weeks.length} weeks from ${params.from} to ${params.to} (concurrency ${concurrency})`);
+
+    const summarize = (): RangeGeneration => {
+      const done = weeks
+        .map(week => results.get(formatIsoDate(week)))
+        .filter((result): result is RangeWeekResult => result !== undefined);
+      const count = (status: RangeWeekResult['status']) => done.filter(result => result.status === status).length;
+
+      return {
+        from: params.from,
+        to: params.to,
+        weeks: done,
+        succeeded: count('succeeded'),
+        failed: count('failed'),
+        skipped: count('skipped')
+      };
+    };
+
+    const generate = async (weekStart: Date): Promise<RangeWeekResult> => {
+      const week_start = formatIsoDate(weekStart);
+
+      // Once the budget is spent, the remaining weeks would all fail the same way
+      if (budgetError) {
+        return { week_start, status: 'failed', error: budgetError.message };
+      }
+
+      try {
+        if (!params.force) {
+          const existing = await this.marketEventsService.getWeekEvents(weekStart);
+          if (existing.length > 0) {
+            return { week_start, status: 'skipped', existing: existing.length };
+          }
+        }
+
+        const generation = await this.generateWeek({ weekStart, trigger: 'manual' });
+        return {
+          week_start,
+          status: 'succeeded',
+          runId: generation.runId,
+          created: generation.created.length,
+          skipped: generation.skipped
+        };
+      } catch (error) {
+        log(`Error generating week of ${week_start}:`, error);
+        if (error instanceof BudgetExceededError) {
+          budgetError = error;
+        }
+        return { week_start, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    };
+
+    let next = 0;
+    const worker = async () => {
+      while (next < pending.length) {
+        const result = await generate(pending[next++]!);
+        results.set(result.week_start, result);
+
+        const progress = summarize();
+        options.onProgress?.({
+          phase: 'week',
+          message: `Week of ${result.week_start}: ${result.status}${result.error ? ` (${result.error})` : ''}`,
+          completed: progress.weeks.length,
+          total: weeks.length,
+          data: { ...progress }
+        });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+    return summarize();
+  }
+
+  /**
+   * Store the chosen candidates of a finished preview job. Duplicates are still skipped, so committing twice is harmless.
+   * Returns null when the job doesn't exist.
+   */
+  async commitPreview(jobId: string, indices: number[]): Promise<CreateEventsResult | null> {
+    const job = await jobService.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+    if (job.kind !== 'preview-week' || job.status !== 'succeeded') {
+      throw new PreviewNotReadyError(`Job ${jobId} is not a finished preview (${job.kind}, ${job.status})`);
+    }
+
+    const preview = job.result as GenerationPreview;
+    const unknown = indices.filter(index => !preview.candidates.some(candidate => candidate.index === index));
+    if (unknown.length > 0) {
+      throw new PreviewNotReadyError(`Unknown candidates: ${unknown.join(', ')}`);
+    }
+
+    const selected = preview.candidates.filter(candidate => indices.includes(candidate.index));
+    const result = await this.marketEventsService.createEvents(selected.map(candidate => candidate.event));
+    log(`Committed ${result.created.length} of ${selected.length} preview candidates from job ${jobId}`);
+    return result;
+  }
+
+  /**
+   * Generate a week with run logging and progress around it; apply decides what happens to the events.
+   * generate replaces the regular week generation for runs that ask the AI something else (refresh).
+   */
+  private async runGeneration<T, R extends GenerationResult = GenerationResult>(
+    options: {
+      weekStart?: Date;
+      trigger: GenerationTrigger;
+      onProgress?: (progress: GenerationProgress) => void;
+      generate?: (trace: GenerationTrace) => Promise<R>;
+    },
+    apply: (
+      runId: string | null,
+      result: R,
+      report: (progress: Omit<GenerationProgress, 'at'>) => void,
+      trace: GenerationTrace
+    ) => Promise<{ value: T; created?: number; skipped?: number }>
+  ): Promise<T> {
+    const trace: GenerationTrace = { responses: [], onProgress: options.onProgress };
+    const report = (progress: Omit<GenerationProgress, 'at'>) => {
+      options.onProgress?.({ ...progress, at: new Date().toISOString() });
+    };
+    const run = await this.startRun(options.trigger);
+    const runId = run?.id || null;
+
+    try {
+      const result = options.generate
+        ? await options.generate(trace)
+        : await getAIService().generateWeeklyMarketEvents(options.weekStart, trace) as R;
+      const { value, created, skipped } = await apply(runId, result, report, trace);
+
+      await this.finishRun(run, {
+        trace,
+        parsed: result.events.length + (result.heldBack?.length || 0),
+        rejected: result.report.rejected,
+        created,
+        skipped
+      });
+
+      report({ phase: 'completed', message: 'Generation completed', data: { runId } });
+      return value;
+    } catch (error) {
+      report({ phase: 'failed', message: error instanceof Error ? error.message : 'Unknown error' });
+      await this.finishRun(run, { trace, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a week's generation as a background job (see GET /api/jobs/:id).
+   * The budget is checked up front so an exhausted budget is reported to the caller, not buried in a job.
+   */
+  async enqueueWeek(weekStart?: Date, kind: JobKind = 'generate-week'): Promise<Job> {
+    await usageService.assertWithinBudget();
+    const params: GenerateWeekJobParams = weekStart ? { weekStart: weekStart.toISOString() } : {};
+    return jobService.enqueue(kind, { ...params });
+  }
+
+  /**
+   * Queue a job generating every week of a date range
+   */
+  async enqueueRange(params: GenerateRangeJobParams): Promise<Job> {
+    await usageService.assertWithinBudget();
+    return jobService.enqueue('generate-range', { ...params });
+  }
+
+  /**
+   * Shape a week's generation the way the API reports it
+   */
+  summarize(generation: WeekGeneration): WeekGenerationSummary {
+    const { runId, result, created, updated, skipped } = generation;
+    return {
+      runId,
+      generated: result.events.length,
+      created: created.length,
+      updated: updated.length,
+      skipped,
+      validation: result.report,
+      heldBack: result.heldBack || [],
+      usage: result.usage || [],
+      events: created
+    };
+  }
+
+  /**
+   * Local midnight of the Sunday starting the week containing date (today by default)
+   */
+  private getWeekStart(date: Date = new Date()): Date {
+    const weekStart = new Date(date);
+    weekStart.setHours(0, 0, 0, 0);
+    weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+    return weekStart;
+  }
+
+  /**
+   * Sundays starting the weeks from the one containing from up to to (YYYY-MM-DD, inclusive)
+   */
+  private listWeekStarts(from: string, to: string): Date[] {
+    const weekStart = new Date(`${from}T00:00:00`);
+    weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+    const end = new Date(`${to}T00:00:00`);
+
+    const weeks: Date[] = [];
+    while (weekStart <= end) {
+      weeks.push(new Date(weekStart));
+      weekStart.setDate(weekStart.getDate() + 7);
+    }
+    return weeks;
+  }
+
+  private async startRun(trigger: GenerationTrigger): Promise<GenerationRun | null> {
+    try {
+      return await generationRunService.startRun(trigger, getAIService().describeProviders());
+    } catch (error) {
+      log('Error logging generation run start:', error);
+      return null;
+    }
+  }
+
+  private async finishRun(run: GenerationRun | null, outcome: GenerationRunOutcome): Promise<void> {
+    if (!run) {
+      return;
+    }
+
+    try {
+      await generationRunService.finishRun(run, outcome);
+    } catch (error) {
+      log('Error logging generation run result:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const generationService = new GenerationService();
+
+jobService.registerHandler('generate-week', async (job, reportProgress) => {
+  const { weekStart } = job.params as GenerateWeekJobParams;
+  const generation = await generationService.generateWeek({
+    weekStart: weekStart ? new Date(weekStart) : undefined,
+    trigger: 'manual',
+    onProgress: reportProgress
+  });
+  return generationService.summarize(generation);
+});
+
+jobService.registerHandler('preview-week', async (job, reportProgress) => {
+  const { weekStart } = job.params as GenerateWeekJobParams;
+  return generationService.previewWeek({
+    weekStart: weekStart ? new Date(weekStart) : undefined,
+    onProgress: reportProgress
+  });
+});
+
+jobService.registerHandler('regenerate-week', async (job, reportProgress) => {
+  const { weekStart } = job.params as GenerateWeekJobParams;
+  return generationService.regenerateWeek({
+    weekStart: weekStart ? new Date(weekStart) : undefined,
+    onProgress: reportProgress
+  });
+});
+
+jobService.registerHandler('refresh-week', async (job, reportProgress) => {
+  const { weekStart } = job.params as GenerateWeekJobParams;
+  return generationService.refreshWeek({
+    weekStart: weekStart ? new Date(weekStart) : undefined,
+    onProgress: reportProgress
+  });
+});
+
+jobService.registerHandler('generate-range', async (job, reportProgress) => {
+  // A job picked up again after a restart resumes from the weeks it had already finished
+  const done = (job.progress?.data as Partial<RangeGeneration> | undefined)?.weeks;
+  return generationService.generateRange(job.params as unknown as GenerateRangeJobParams, { done, onProgress: reportProgress });
+});
@@ -0,0 +1,226 @@
+import { EventEmitter } from 'events';
+import { repositories } from '../repositories';
+import { Job, JobKind, JobProgress } from '../types/job';
+import debug from 'debug';
+
+const log = debug('market-events:jobs');
+
+// How long the progress log of a finished job stays available to late subscribers
+const LOG_RETENTION_MS = 5 * 60 * 1000;
+
+// Runs a job and returns its result; progress reports also keep the job's heartbeat fresh
+export type JobHandler = (job: Job, reportProgress: (progress: JobProgress) => Promise<void>) => Promise<unknown>;
+
+// A job run by this process: its progress so far and, once done, the finished job
+export interface LocalJobRun {
+  progress: JobProgress[];
+  finished: Job | null;
+}
+
+export type JobEvent =
+  | { type: 'progress'; progress: JobProgress }
+  | { type: 'finished'; job: Job };
+
+export class JobService {
+  private handlers = new Map<JobKind, JobHandler>();
+  private events = new EventEmitter();
+  private localRuns = new Map<string, LocalJobRun>(); // Jobs run by this process, kept a while after they finish
+  private pollTimer: NodeJS.Timeout | null = null;
+  private active = 0;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private staleAfterMs: number;
+  private maxAttempts: number;
+
+  constructor() {
+    this.events.setMaxListeners(0); // One listener per open stream
+    this.concurrency = parseInt(process.env.JOB_CONCURRENCY || '1');
+    this.pollIntervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000');
+    this.staleAfterMs = parseInt(process.env.JOB_STALE_AFTER_MS || '120000');
+    this.maxAttempts = parseInt(process.env.JOB_MAX_ATTEMPTS || '2');
+  }
+
+  registerHandler(kind: JobKind, handler: JobHandler): void {
+    this.handlers.set(kind, handler);
+  }
+
+  /**
+   * Queue a job; a worker picks it up on its next poll
+   */
+  async enqueue(kind: JobKind, params: Record<string, unknown> = {}): Promise<Job> {
+    try {
+      const data = await repositories.jobs.create(kind, params);
+
+      log(`Queued ${kind} job ${data.id}`);
+      this.poll();
+      return data;
+    } catch (error) {
+      log('Error in enqueue:', error);
+      throw error;
+    }
+  }
+
+  async getJob(id: string): Promise<Job | null> {
+    try {
+      return await repositories.jobs.findById(id);
+    } catch (error) {
+      log('Error in getJob:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Progress reported so far by a job running (or recently finished) in this process.
+   * Jobs run by another backend instance only expose their latest progress through getJob.
+   */
+  getLocalRun(id: string): LocalJobRun | null {
+    const run = this.localRuns.get(id);
+    return run ? { progress: [...run.progress], finished: run.finished } : null;
+  }
+
+  /**
+   * Follow a job run by this process; returns the unsubscribe function
+   */
+  subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  /**
+   * Start polling for queued jobs
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    log(`Starting job worker (concurrency ${this.concurrency})`);
+    this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.poll();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (!this.pollTimer || this.active >= this.concurrency) {
+      return;
+    }
+
+    try {
+      await this.requeueStaleJobs();
+
+      const queued = await repositories.jobs.findQueued(this.concurrency - this.active);
+
+      for (const job of queued) {
+        const claimed = await this.claim(job);
+        if (claimed) {
+          this.run(claimed);
+        }
+      }
+    } catch (error) {
+      log('Error polling jobs:', error);
+    }
+  }
+
+  /**
+   * Move a queued job to running; returns null when another worker got there first
+   */
+  private async claim(job: Job): Promise<Job | null> {
+    const now = new Date().toISOString();
+    return repositories.jobs.transition(job.id, 'queued', { status: 'running', attempts: job.attempts + 1, started_at: now, heartbeat_at: now });
+  }
+
+  private async run(job: Job): Promise<void> {
+    this.active++;
+    log(`Running ${job.kind} job ${job.id} (attempt ${job.attempts})`);
+
+    const localRun: LocalJobRun = { progress: [], finished: null };
+    this.localRuns.set(job.id, localRun);
+
+    // Persist progress in the order it was reported, without holding up the job
+    let writes = Promise.resolve();
+    const reportProgress = (progress: JobProgress): Promise<void> => {
+      const entry = { ...progress, at: progress.at || new Date().toISOString() };
+      localRun.progress.push(entry);
+      this.publish(job.id, { type: 'progress', progress: entry });
+      writes = writes.then(() => this.update(job.id, { progress: entry, heartbeat_at: entry.at }));
+      return writes;
+    };
+    let finished: Job = job;
+
+    // Keep the heartbeat fresh between progress reports so long AI calls don't look abandoned
+    const heartbeat = setInterval(() => {
+      this.update(job.id, { heartbeat_at: new Date().toISOString() });
+    }, Math.max(this.staleAfterMs / 4, 1000));
+
+    try {
+      const handler = this.handlers.get(job.kind);
+      if (!handler) {
+        throw new Error(`No handler registered for ${job.kind} jobs`);
+      }
+
+      const result = await handler(job, reportProgress);
+      await writes;
+      finished = { ...job, status: 'succeeded', result, finished_at: new Date().toISOString() };
+      await this.update(job.id, { status: 'succeeded', result, finished_at: finished.finished_at });
+      log(`Job ${job.id} succeeded`);
+    } catch (error) {
+      log(`Job ${job.id} failed:`, error);
+      await writes;
+      finished = {
+        ...job,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        finished_at: new Date().toISOString()
+      };
+      await this.update(job.id, { status: 'failed', error: finished.error, finished_at: finished.finished_at });
+    } finally {
+      clearInterval(heartbeat);
+      localRun.finished = { ...finished, progress: localRun.progress[localRun.progress.length - 1] || null };
+      this.publish(job.id, { type: 'finished', job: localRun.finished });
+      setTimeout(() => this.localRuns.delete(job.id), LOG_RETENTION_MS).unref();
+      this.active--;
+      this.poll();
+    }
+  }
+
+  /**
+   * Jobs whose worker stopped heartbeating (backend restarted or crashed mid-run) are queued again,
+   * or failed once they've used up their attempts
+   */
+  private async requeueStaleJobs(): Promise<void> {
+    const staleBefore = new Date(Date.now() - this.staleAfterMs).toISOString();
+    const stale = await repositories.jobs.findStale(staleBefore);
+
+    for (const job of stale) {
+      const retry = job.attempts < this.maxAttempts;
+      log(`Job ${job.id} was interrupted, ${retry ? 'queueing it again' : 'giving up'}`);
+
+      await repositories.jobs.transition(job.id, 'running', retry
+        ? { status: 'queued', heartbeat_at: null }
+        : { status: 'failed', error: 'Interrupted by a backend restart', finished_at: new Date().toISOString() }, staleBefore);
+    }
+  }
+
+  private publish(id: string, event: JobEvent): void {
+    this.events.emit(id, event);
+  }
+
+  private async update(id: string, changes: Partial<Omit<Job, 'id' | 'kind'>>): Promise<void> {
+    try {
+      await repositories.jobs.update(id, changes);
+    } catch (error) {
+      log(`Error updating job ${id}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const jobService = new JobService();
@@ -1,55 +1,106 @@
-import { supabase } from '../utils/supabase';
-import { MarketEvent, CreateMarketEvent, UpdateMarketEvent } from '../types/market-event';
+import { repositories } from '../repositories';
+import {
+  MarketEvent,
+  CreateMarketEvent,
+  UpdateMarketEvent,
+  EventsQuery,
+  EventSortField,
+  EventsPage,
+  CreateEventsResult,
+  DuplicateEvent,
+  EventConflict,
+  EventPreview,
+  EventChange,
+  WeekDiff
+} from '../types/market-event';
+import { formatIsoDate, parseEventDates } from '../utils/event-dates';
+import { canTransition, COMPLETABLE_STATUSES, EventStatus } from '../utils/event-status';
+import { decodeCursor, encodeCursor, InvalidCursorError } from '../utils/pagination';
+import { eventNameScore, EventMatch, findDuplicate, mergeCitations } from '../utils/event-matching';
+import { diffWeekEvents } from '../utils/week-diff';
 import debug from 'debug';
 
 const log = debug('market-events:service');
 
+// Columns behind each sort option; significance_rank orders High > Medium > Low instead of alphabetically
+const SORT_COLUMNS: Record<EventSortField, string[]> = {
+  date: ['start_date', 'release_time'],
+  significance: ['significance_rank'],
+  name: ['event'],
+  type: ['type'],
+  sentiment: ['market_sentiment'],
+  created_at: ['created_at'],
+};
+
+// Stored events in the same dates whose names are at least this similar may be the same release
+const CONFLICT_SIMILARITY = 0.6;
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(from: EventStatus, to: EventStatus) {
+    super(`An event can't go from ${from} to ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
 export class MarketEventsService {
   /**
-   * Get all market events with optional filtering and pagination
+   * Get market events with optional filtering and pagination.
+   * Pages by cursor when options.cursor is set, by offset otherwise; both return cursors for the next/previous page.
    */
-  async getEvents(options: {
-    limit?: number;
-    offset?: number;
-    type?: string;
-    significance?: string;
-    date?: string;
-  } = {}): Promise<{ events: MarketEvent[]; total: number }> {
+  async getEvents(options: EventsQuery = {}): Promise<EventsPage> {
     try {
-      let query = supabase
-        .from('market_events')
-        .select('*', { count: 'exact' })
-        .order('created_at', { ascending: false });
-
-      // Apply filters
-      if (options.type && options.type !== 'All') {
-        query = query.eq('type', options.type as any);
-      }
-      if (options.significance && options.significance !== 'All') {
-        query = query.eq('significance', options.significance as any);
-      }
-      if (options.date) {
-        query = query.ilike('date', `%${options.date}%`);
+      const sort = options.sort || 'created_at';
+      const direction = options.direction || (sort === 'created_at' ? 'desc' : 'asc');
+      const limit = options.limit || 10;
+      const cursor = options.cursor ? decodeCursor(options.cursor, sort, direction) : null;
+      const columns = [...SORT_COLUMNS[sort], 'id']; // id breaks ties so every row has a unique position
+
+      if (cursor && cursor.keys.length !== columns.length) {
+        throw new InvalidCursorError('Cursor was issued for a different sort order');
       }
 
-      // Apply pagination
-      if (options.limit) {
-        query = query.limit(options.limit);
-      }
-      if (options.offset) {
-        query = query.range(options.offset, (options.offset + (options.limit || 10)) - 1);
+      // Backward pages are read in reverse order and flipped afterwards
+      const backward = cursor?.backward ?? false;
+      const ascending = (direction === 'asc') !== backward;
+      const nullsFirst = backward; // Nulls sort last in the requested order
+
+      // Fetch one extra row to know whether another page follows
+      const offset = cursor ? 0 : options.offset || 0;
+      const { events: rows, total } = await repositories.events.findPage({
+        filters: options,
+        columns,
+        ascending,
+        nullsFirst,
+        after: cursor ? cursor.keys : null,
+        offset,
+        limit: limit + 1
+      });
+
+      const hasMore = rows.length > limit;
+      const events = rows.slice(0, limit);
+      if (backward) {
+        events.reverse();
       }
 
-      const { data, error, count } = await query;
+      const cursorAt = (event: MarketEvent | undefined, towardsStart: boolean) => event
+        ? encodeCursor({
+          sort,
+          direction,
+          keys: columns.map(column => (event as Record<string, unknown>)[column] as string | number | null ?? null),
+          backward: towardsStart
+        })
+        : null;
 
-      if (error) {
-        log('Error fetching market events:', error);
-        throw new Error(`Failed to fetch market events: ${error.message}`);
-      }
+      // Going forward there are earlier rows whenever we started past the beginning; going backward there are
+      // later rows (the page we came from), and earlier ones only if the extra row was found
+      const hasPrevious = backward ? hasMore : cursor !== null || offset > 0;
+      const hasNext = backward ? true : hasMore;
 
       return {
-        events: data || [],
-        total: count || 0
+        events,
+        total,
+        nextCursor: hasNext ? cursorAt(events[events.length - 1], false) : null,
+        prevCursor: hasPrevious ? cursorAt(events[0], true) : null
       };
     } catch (error) {
       log('Error in getEvents:', error);
@@ -62,21 +113,7 @@ export class MarketEventsService {
    */
   async getEventById(id: string): Promise<MarketEvent | null> {
     try {
-      const { data, error } = await supabase
-        .from('market_events')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return null; // Not found
-        }
-        log('Error fetching market event by ID:', error);
-        throw new Error(`Failed to fetch market event: ${error.message}`);
-      }
-
-      return data;
+      return await repositories.events.findById(id);
     } catch (error) {
       log('Error in getEventById:', error);
       throw error;
@@ -88,19 +125,10 @@ export class MarketEventsService {
    */
   async createEvent(eventData: CreateMarketEvent): Promise<MarketEvent> {
     try {
-      const { data, error } = await supabase
-        .from('market_events')
-        .insert([eventData])
-        .select()
-        .single();
-
-      if (error) {
-        log('Error creating market event:', error);
-        throw new Error(`Failed to create market event: ${error.message}`);
-      }
+      const [created] = await repositories.events.insert([this.withParsedDates(eventData)]);
 
-      log(`Created market event: ${data.event}`);
-      return data;
+      log(`Created market event: ${created!.event}`);
+      return created!;
     } catch (error) {
       log('Error in createEvent:', error);
       throw error;
@@ -108,40 +136,55 @@ export class MarketEventsService {
   }
 
   /**
-   * Create multiple market events (batch insert) - skips duplicates
+   * Create multiple market events (batch insert). Events matching a stored event (same type, overlapping
+   * days, similar name) aren't inserted; the citations they add are merged into the stored event instead.
    */
-  async createEvents(eventsData: CreateMarketEvent[]): Promise<{ created: MarketEvent[], skipped: number }> {
+  async createEvents(eventsData: CreateMarketEvent[]): Promise<CreateEventsResult> {
     try {
+      const events = eventsData.map(event => this.withParsedDates(event));
+      const candidates = await this.findDuplicateCandidates(events);
       const uniqueEvents: CreateMarketEvent[] = [];
-      let skippedCount = 0;
-
-      // Check each event for duplicates
-      for (const eventData of eventsData) {
-        const existingEvent = await this.findExistingEvent(eventData);
-        if (existingEvent) {
-          log(`Skipping duplicate event: ${eventData.event} (${eventData.date})`);
-          skippedCount++;
+      const duplicates: DuplicateEvent[] = [];
+      const mergedCitations = new Map<string, string[]>();
+
+      for (const event of events) {
+        const duplicate = await this.matchStoredEvent(event, candidates);
+        if (!duplicate) {
+          uniqueEvents.push(event);
           continue;
         }
-        uniqueEvents.push(eventData);
-      }
-
-      if (uniqueEvents.length === 0) {
-        return { created: [], skipped: skippedCount };
-      }
 
-      const { data, error } = await supabase
-        .from('market_events')
-        .insert(uniqueEvents)
-        .select();
+        const existing = duplicate.match;
+        const citations = mergedCitations.get(existing.id!) || existing.citations || [];
+        const merged = mergeCitations(citations, event.citations);
+        if (merged.length > citations.length) {
+          mergedCitations.set(existing.id!, merged);
+        }
 
-      if (error) {
-        log('Error creating market events:', error);
-        throw new Error(`Failed to create market events: ${error.message}`);
+        log(`Duplicate event: ${event.event} (${event.date}) matches ${existing.event} (${existing.date}), score ${duplicate.score.toFixed(2)}`);
+        duplicates.push({
+          event: event.event,
+          date: event.date,
+          existingId: existing.id!,
+          existingEvent: existing.event,
+          score: duplicate.score,
+          citationsAdded: merged.length - citations.length
+        });
       }
 
-      log(`Created ${data.length} new market events, skipped ${skippedCount} duplicates`);
-      return { created: data, skipped: skippedCount };
+      const updated = await Promise.all(Array.from(mergedCitations, ([id, citations]) =>
+        repositories.events.update(id, { citations, unsourced: false })
+      ));
+      const created = uniqueEvents.length > 0 ? await repositories.events.insert(uniqueEvents) : [];
+      const skipped = duplicates.filter(duplicate => duplicate.citationsAdded === 0).length;
+
+      log(`Created ${created.length} new market events, updated ${mergedCitations.size}, skipped ${skipped} duplicates`);
+      return {
+        created,
+        updated: updated.filter((event): event is MarketEvent => event !== null),
+        skipped,
+        duplicates
+      };
     } catch (error) {
       log('Error in createEvents:', error);
       throw error;
@@ -149,50 +192,102 @@ export class MarketEventsService {
   }
 
   /**
-   * Check if an event already exists (by event name and date)
+   * Work out what createEvents would do with each event without writing anything:
+   * insert it, skip it as a duplicate, or insert it alongside a stored event that looks like the same release
    */
-  private async findExistingEvent(eventData: CreateMarketEvent): Promise<MarketEvent | null> {
+  async previewEvents(eventsData: CreateMarketEvent[]): Promise<EventPreview[]> {
     try {
-      const { data, error } = await supabase
-        .from('market_events')
-        .select('*')
-        .eq('event', eventData.event)
-        .eq('date', eventData.date)
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return null; // Not found
+      const events = eventsData.map(event => this.withParsedDates(event));
+      const candidates = await this.findDuplicateCandidates(events);
+
+      return await Promise.all(events.map(async (event, index): Promise<EventPreview> => {
+        const duplicate = await this.matchStoredEvent(event, candidates);
+        if (duplicate) {
+          return { index, status: 'duplicate', event, existingId: duplicate.match.id!, score: duplicate.score, conflicts: [] };
         }
-        log('Error checking for existing event:', error);
-        return null; // Assume not found on error
+
+        const conflicts: EventConflict[] = candidates
+          .map(stored => ({
+            existingId: stored.id!,
+            event: stored.event,
+            date: stored.date,
+            similarity: eventNameScore(stored.event, event.event),
+            sameDates: stored.start_date === event.start_date && stored.end_date === event.end_date
+          }))
+          .filter(conflict => conflict.similarity >= CONFLICT_SIMILARITY)
+          .sort((a, b) => b.similarity - a.similarity);
+
+        return { index, status: conflicts.length > 0 ? 'conflicting' : 'new', event, conflicts };
+      }));
+    } catch (error) {
+      log('Error in previewEvents:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stored events that new events may duplicate: one query per week (Sunday to Saturday) the events start in,
+   * reaching to the last day of any event that runs past it
+   */
+  private async findDuplicateCandidates(events: CreateMarketEvent[]): Promise<MarketEvent[]> {
+    const weeks = new Map<string, string>(); // Week start -> last day to load
+
+    events.forEach(event => {
+      if (!event.start_date) {
+        return;
       }
+      const weekStart = new Date(`${event.start_date}T00:00:00`);
+      weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+      const weekEnd = new Date(weekStart);
+      weekEnd.setDate(weekStart.getDate() + 6);
+
+      const from = formatIsoDate(weekStart);
+      const to = [weeks.get(from), formatIsoDate(weekEnd), event.end_date]
+        .filter((date): date is string => !!date)
+        .sort()
+        .pop()!;
+      weeks.set(from, to);
+    });
+
+    const found = await Promise.all(Array.from(weeks, ([from, to]) => this.getEventsInRange(from, to)));
+
+    // An event spanning two weeks comes back for both
+    const byId = new Map<string, MarketEvent>();
+    found.flat().forEach(event => byId.set(event.id!, event));
+    return Array.from(byId.values());
+  }
 
-      return data;
+  /**
+   * The stored event an event duplicates, among the candidates loaded for its week. Events whose dates
+   * couldn't be parsed have no week, so they fall back to an exact lookup by name and date text.
+   */
+  private async matchStoredEvent(event: CreateMarketEvent, candidates: MarketEvent[]): Promise<EventMatch<MarketEvent> | null> {
+    if (event.start_date) {
+      return findDuplicate(event, candidates);
+    }
+
+    try {
+      const existing = await repositories.events.findByNameAndDate(event.event, event.date);
+      return existing ? { match: existing, score: 1 } : null;
     } catch (error) {
-      log('Error in findExistingEvent:', error);
-      return null;
+      log('Error in matchStoredEvent:', error);
+      return null; // Assume not found on error
     }
   }
 
   /**
-   * Update an existing market event
+   * Update an existing market event. Status changes must follow the lifecycle in utils/event-status,
+   * otherwise InvalidStatusTransitionError is thrown and nothing is written.
    */
   async updateEvent(id: string, updates: UpdateMarketEvent): Promise<MarketEvent | null> {
     try {
-      const { data, error } = await supabase
-        .from('market_events')
-        .update(updates as any)
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return null; // Not found
-        }
-        log('Error updating market event:', error);
-        throw new Error(`Failed to update market event: ${error.message}`);
+      if (updates.status && !(await this.checkStatusTransition(id, updates.status))) {
+        return null;
+      }
+
+      const data = await repositories.events.update(id, this.withParsedDates(updates));
+      if (!data) {
+        return null; // Not found
       }
 
       log(`Updated market event: ${data.event}`);
@@ -203,20 +298,79 @@ export class MarketEventsService {
     }
   }
 
+  /**
+   * Mark scheduled and confirmed events whose end date is before today as completed
+   */
+  async completePastEvents(): Promise<number> {
+    try {
+      const completedCount = await repositories.events.setStatusEndedBefore(formatIsoDate(new Date()), COMPLETABLE_STATUSES, 'completed');
+      log(`Marked ${completedCount} past market events as completed`);
+      return completedCount;
+    } catch (error) {
+      log('Error in completePastEvents:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an event and log the change in one write (the daily refresh), so an update is never left
+   * unrecorded. Status changes follow the same lifecycle as updateEvent. Returns null when the event doesn't exist.
+   */
+  async updateEventWithChange(
+    id: string,
+    updates: UpdateMarketEvent,
+    change: Omit<EventChange, 'id' | 'created_at' | 'event_id'>
+  ): Promise<EventChange | null> {
+    try {
+      if (updates.status && !(await this.checkStatusTransition(id, updates.status))) {
+        return null;
+      }
+
+      const recorded = await repositories.events.updateWithChange(id, this.withParsedDates(updates), { ...change, event_id: id });
+      if (recorded) {
+        log(`Updated market event ${id} (${recorded.kind})`);
+      }
+      return recorded;
+    } catch (error) {
+      log('Error in updateEventWithChange:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Log changes made to events (by the daily refresh), with their reasons and sources
+   */
+  async recordEventChanges(changes: Omit<EventChange, 'id' | 'created_at'>[]): Promise<EventChange[]> {
+    if (changes.length === 0) {
+      return [];
+    }
+
+    try {
+      return await repositories.events.insertChanges(changes);
+    } catch (error) {
+      log('Error in recordEventChanges:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Changes recorded for an event, newest first
+   */
+  async getEventChanges(eventId: string): Promise<EventChange[]> {
+    try {
+      return await repositories.events.findChanges(eventId);
+    } catch (error) {
+      log('Error in getEventChanges:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a market event
    */
   async deleteEvent(id: string): Promise<boolean> {
     try {
-      const { error } = await supabase
-        .from('market_events')
-        .delete()
-        .eq('id', id);
-
-      if (error) {
-        log('Error deleting market event:', error);
-        throw new Error(`Failed to delete market event: ${error.message}`);
-      }
+      await repositories.events.delete(id);
 
       log(`Deleted market event with ID: ${id}`);
       return true;
@@ -230,29 +384,115 @@ export class MarketEventsService {
    * Get events for the current week (based on today's date)
    */
   async getCurrentWeekEvents(): Promise<MarketEvent[]> {
+    const today = new Date();
+    const startOfWeek = new Date(today);
+    startOfWeek.setDate(today.getDate() - today.getDay()); // Start of week (Sunday)
+
+    return this.getWeekEvents(startOfWeek);
+  }
+
+  /**
+   * Get events taking place in the week (Sunday to Saturday) starting at weekStart
+   */
+  async getWeekEvents(weekStart: Date): Promise<MarketEvent[]> {
+    const endOfWeek = new Date(weekStart);
+    endOfWeek.setDate(weekStart.getDate() + 6); // End of week (Saturday)
+
+    return this.getEventsInRange(formatIsoDate(weekStart), formatIsoDate(endOfWeek));
+  }
+
+  /**
+   * Replace a week's events with a fresh generation: events matching a stored one update it in place,
+   * new ones are inserted and scheduled events of the week that weren't generated again are removed. The changes are
+   * applied all at once, so a failure leaves the week untouched.
+   */
+  async replaceWeekEvents(weekStart: Date, eventsData: CreateMarketEvent[]): Promise<WeekDiff> {
+    try {
+      const endOfWeek = new Date(weekStart);
+      endOfWeek.setDate(weekStart.getDate() + 6);
+
+      const week = { start: formatIsoDate(weekStart), end: formatIsoDate(endOfWeek) };
+      const stored = await this.getEventsInRange(week.start, week.end);
+      const diff = diffWeekEvents(week, stored, eventsData.map(event => this.withParsedDates(event)));
+
+      await repositories.events.replaceWeek({
+        inserts: diff.added,
+        updates: diff.changed.map(({ id, update }) => ({ id, changes: update })),
+        deletes: diff.removed.map(event => event.id!)
+      });
+
+      log(`Replaced events for week of ${week.start}: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`);
+      return diff;
+    } catch (error) {
+      log('Error in replaceWeekEvents:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get events overlapping the date range (YYYY-MM-DD, inclusive), in chronological order
+   */
+  async getEventsInRange(from: string, to: string): Promise<MarketEvent[]> {
+    try {
+      return await repositories.events.findInRange(from, to);
+    } catch (error) {
+      log('Error in getEventsInRange:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get events that haven't finished yet, soonest first
+   */
+  async getUpcomingEvents(options: { days?: number; limit?: number } = {}): Promise<MarketEvent[]> {
     try {
       const today = new Date();
-      const startOfWeek = new Date(today);
-      startOfWeek.setDate(today.getDate() - today.getDay()); // Start of week (Sunday)
+      let until: string | undefined;
+
+      if (options.days) {
+        const last = new Date(today);
+        last.setDate(today.getDate() + options.days);
+        until = formatIsoDate(last);
+      }
+
+      return await repositories.events.findUpcoming({ from: formatIsoDate(today), until, limit: options.limit });
+    } catch (error) {
+      log('Error in getUpcomingEvents:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fill start_date/end_date/release time for events stored before dates were structured.
+   * Years missing from the text are inferred from when the event was created.
+   */
+  async backfillEventDates(): Promise<{ updated: number; unparseable: MarketEvent[] }> {
+    try {
+      const events = await repositories.events.findWithoutDates();
 
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6); // End of week (Saturday)
+      let updated = 0;
+      const unparseable: MarketEvent[] = [];
 
-      const startMonth = startOfWeek.toLocaleString('default', { month: 'long' });
-      const endMonth = endOfWeek.toLocaleString('default', { month: 'long' });
-      const year = startOfWeek.getFullYear();
+      for (const event of events) {
+        const dates = parseEventDates(event.date, {
+          description: event.description,
+          referenceDate: event.created_at ? new Date(event.created_at) : undefined
+        });
 
-      let dateFilter: string;
-      if (startMonth === endMonth) {
-        dateFilter = `${startMonth} ${year}`;
-      } else {
-        dateFilter = `${startMonth}-${endMonth} ${year}`;
+        if (!dates) {
+          log(`Could not parse date "${event.date}" of event ${event.id}`);
+          unparseable.push(event);
+          continue;
+        }
+
+        await repositories.events.update(event.id!, dates);
+        updated++;
       }
 
-      const { events } = await this.getEvents({ date: dateFilter });
-      return events;
+      log(`Backfilled dates of ${updated} events (${unparseable.length} unparseable)`);
+      return { updated, unparseable };
     } catch (error) {
-      log('Error in getCurrentWeekEvents:', error);
+      log('Error in backfillEventDates:', error);
       throw error;
     }
   }
@@ -262,18 +502,7 @@ export class MarketEventsService {
    */
   async deleteAllEvents(): Promise<number> {
     try {
-      const { data, error } = await supabase
-        .from('market_events')
-        .delete()
-        .neq('id', '00000000-0000-0000-0000-000000000000') // Delete all (using a non-existent UUID to delete everything)
-        .select('id');
-
-      if (error) {
-        log('Error deleting all market events:', error);
-        throw new Error(`Failed to delete market events: ${error.message}`);
-      }
-
-      const deletedCount = data?.length || 0;
+      const deletedCount = await repositories.events.deleteAll();
       log(`Deleted ${deletedCount} market events`);
       return deletedCount;
     } catch (error) {
@@ -283,30 +512,49 @@ export class MarketEventsService {
   }
 
   /**
-   * Delete events older than specified days
+   * Delete events that ended more than daysOld days ago. Age goes by the event's end date, not when it was
+   * stored, so backfilled and forward-generated weeks stay until they have passed. Events without parsed
+   * dates are kept (npm run backfill:dates gives them one).
    */
   async deleteOldEvents(daysOld: number): Promise<number> {
     try {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - daysOld);
 
-      const { data, error } = await supabase
-        .from('market_events')
-        .delete()
-        .lt('created_at', cutoffDate.toISOString())
-        .select('id');
-
-      if (error) {
-        log('Error deleting old market events:', error);
-        throw new Error(`Failed to delete old market events: ${error.message}`);
-      }
-
-      const deletedCount = data?.length || 0;
-      log(`Deleted ${deletedCount} market events older than ${daysOld} days`);
+      const deletedCount = await repositories.events.deleteEndedBefore(formatIsoDate(cutoffDate));
+      log(`Deleted ${deletedCount} market events that ended more than ${daysOld} days ago`);
       return deletedCount;
     } catch (error) {
       log('Error in deleteOldEvents:', error);
       throw error;
     }
   }
+
+  /**
+   * Whether the event exists, throwing InvalidStatusTransitionError when its status can't move to status
+   */
+  private async checkStatusTransition(id: string, status: EventStatus): Promise<boolean> {
+    const existing = await this.getEventById(id);
+    if (!existing) {
+      return false;
+    }
+
+    const from = existing.status || 'scheduled';
+    if (!canTransition(from, status)) {
+      throw new InvalidStatusTransitionError(from, status);
+    }
+    return true;
+  }
+
+  /**
+   * Derive structured dates from the date text when the caller didn't provide them
+   */
+  private withParsedDates<T extends UpdateMarketEvent>(event: T): T {
+    if (!event.date || event.start_date) {
+      return event;
+    }
+
+    const dates = parseEventDates(event.date, { description: event.description });
+    return dates ? { ...event, ...dates } : event;
+  }
 }
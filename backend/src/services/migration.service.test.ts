@@ -0,0 +1,228 @@
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MigrationService } from './migration.service';
+
+interface AppliedRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+/**
+ * Just enough of Postgres for the statements MigrationService sends: it keeps schema_migrations
+ * and the migration transactions it ran
+ */
+class FakeDatabase {
+  applied: AppliedRow[] = [];
+  transactions: string[] = [];
+  failOn?: string; // Fail the transaction containing this text
+  concurrent?: AppliedRow; // Applied by another instance just before the next transaction
+
+  runSql = async <T>(query: string): Promise<T[]> => {
+    if (query.startsWith('CREATE TABLE IF NOT EXISTS schema_migrations')) {
+      return [];
+    }
+    if (query.startsWith('SELECT version, name, checksum, applied_at')) {
+      return [...this.applied].sort((a, b) => a.version - b.version) as T[];
+    }
+    if (query.startsWith('SELECT version FROM schema_migrations')) {
+      const version = Number(/version = (\d+)/.exec(query)![1]);
+      return this.applied.filter(row => row.version === version) as T[];
+    }
+    if (query.startsWith('INSERT INTO schema_migrations')) {
+      return this.insertRows(query) as T[];
+    }
+    if (query.startsWith('BEGIN;')) {
+      this.runTransaction(query);
+      return [];
+    }
+    throw new Error(`Unexpected query: ${query}`);
+  };
+
+  private runTransaction(query: string): void {
+    if (this.concurrent) {
+      this.applied.push(this.concurrent);
+      this.concurrent = undefined;
+    }
+    if (this.failOn && query.includes(this.failOn)) {
+      throw new Error(`syntax error at or near "${this.failOn}"`);
+    }
+
+    const inserted = this.insertRows(query);
+    const deleted = /DELETE FROM schema_migrations WHERE version = (\d+)/.exec(query);
+    if (inserted.length === 0 && !deleted) {
+      throw new Error('duplicate key value violates unique constraint "schema_migrations_pkey"');
+    }
+    if (deleted) {
+      this.applied = this.applied.filter(row => row.version !== Number(deleted[1]));
+    }
+    this.transactions.push(query);
+  }
+
+  private insertRows(query: string): { version: number }[] {
+    const rows = Array.from(query.matchAll(/\((\d+), '([^']*)', '([^']*)'\)/g), ([, version, name, checksum]) => ({
+      version: Number(version),
+      name: name!,
+      checksum: checksum!,
+      applied_at: '2025-11-24T12:00:00.000Z'
+    }));
+
+    const added = rows.filter(row => !this.applied.some(existing => existing.version === row.version));
+    this.applied.push(...added);
+    return added.map(({ version }) => ({ version }));
+  }
+}
+
+describe('MigrationService', () => {
+  let dir: string;
+  let db: FakeDatabase;
+  let service: MigrationService;
+
+  const write = (file: string, sql: string) => writeFileSync(path.join(dir, file), sql);
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'migrations-'));
+    write('001_create_events.sql', '-- Events\n\n-- migrate:up\nCREATE TABLE events (id UUID);\n\n-- migrate:down\nDROP TABLE events;\n');
+    write('002_add_status.sql', "-- migrate:up\nALTER TABLE events ADD COLUMN status TEXT DEFAULT 'scheduled';\n\n-- migrate:down\nALTER TABLE events DROP COLUMN status;\n");
+    write('010_add_index.sql', '-- migrate:up\nCREATE INDEX events_status ON events (status);\n');
+    write('README.md', 'Not a migration');
+
+    db = new FakeDatabase();
+    service = new MigrationService(dir, db.runSql);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('loadMigrations', () => {
+    it('parses the up and down sections of every SQL file in version order', () => {
+      write('003_add_notes.sql', '-- migrate:up\nALTER TABLE events ADD COLUMN notes TEXT;\n');
+
+      const migrations = service.loadMigrations();
+
+      expect(migrations.map(migration => [migration.version, migration.name])).toEqual([
+        [1, 'create_events'], [2, 'add_status'], [3, 'add_notes'], [10, 'add_index']
+      ]);
+      expect(migrations[0]).toEqual({
+        version: 1,
+        name: 'create_events',
+        up: 'CREATE TABLE events (id UUID);',
+        down: 'DROP TABLE events;',
+        checksum: sha256('CREATE TABLE events (id UUID);')
+      });
+      expect(migrations[3]!.down).toBeNull();
+    });
+
+    it('rejects badly named files, missing up sections and repeated versions', () => {
+      write('4-add-notes.sql', '-- migrate:up\nSELECT 1;\n');
+      expect(() => service.loadMigrations()).toThrow('Migration file 4-add-notes.sql must be named NNN_name.sql');
+      rmSync(path.join(dir, '4-add-notes.sql'));
+
+      write('004_add_notes.sql', '-- migrate:down\nSELECT 1;\n-- migrate:up\nSELECT 1;\n');
+      expect(() => service.loadMigrations()).toThrow('Migration file 004_add_notes.sql needs a "-- migrate:up" section');
+      rmSync(path.join(dir, '004_add_notes.sql'));
+
+      write('02_add_notes.sql', '-- migrate:up\nSELECT 1;\n');
+      expect(() => service.loadMigrations()).toThrow('Two migrations have version 2');
+    });
+  });
+
+  describe('migrate', () => {
+    it('applies each pending migration in its own transaction together with its schema_migrations row', async () => {
+      const applied = await service.migrate();
+
+      expect(applied.map(migration => migration.version)).toEqual([1, 2, 10]);
+      expect(db.applied.map(row => row.version)).toEqual([1, 2, 10]);
+      expect(db.transactions[0]).toBe(`BEGIN;
+SELECT pg_advisory_xact_lock(4728193);
+INSERT INTO schema_migrations (version, name, checksum) VALUES (1, 'create_events', '${sha256('CREATE TABLE events (id UUID);')}');
+CREATE TABLE events (id UUID);
+COMMIT;`);
+
+      expect(await service.migrate()).toEqual([]);
+    });
+
+    it('stops at the target version', async () => {
+      expect((await service.migrate(2)).map(migration => migration.version)).toEqual([1, 2]);
+      expect((await service.migrate()).map(migration => migration.version)).toEqual([10]);
+    });
+
+    it('stops at a failing migration, keeping the ones before it', async () => {
+      db.failOn = 'ADD COLUMN status';
+
+      await expect(service.migrate()).rejects.toThrow('Migration 2 (add_status) failed: syntax error at or near "ADD COLUMN status"');
+      expect(db.applied.map(row => row.version)).toEqual([1]);
+    });
+
+    it('skips a migration another instance applied while it waited', async () => {
+      const { version, name, checksum } = service.loadMigrations()[0]!;
+      db.concurrent = { version, name, checksum, applied_at: '2025-11-24T11:59:59.000Z' };
+
+      const applied = await service.migrate();
+
+      expect(applied.map(migration => migration.version)).toEqual([2, 10]);
+      expect(db.transactions).toHaveLength(2);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('flags applied migrations whose file changed or disappeared', async () => {
+      await service.migrate();
+      write('002_add_status.sql', "-- migrate:up\nALTER TABLE events ADD COLUMN status TEXT DEFAULT 'confirmed';\n");
+      rmSync(path.join(dir, '010_add_index.sql'));
+      write('011_add_notes.sql', '-- migrate:up\nALTER TABLE events ADD COLUMN notes TEXT;\n');
+
+      expect(await service.getStatus()).toEqual([
+        { version: 1, name: 'create_events', applied_at: '2025-11-24T12:00:00.000Z', modified: false, missing: false },
+        { version: 2, name: 'add_status', applied_at: '2025-11-24T12:00:00.000Z', modified: true, missing: false },
+        { version: 10, name: 'add_index', applied_at: '2025-11-24T12:00:00.000Z', modified: false, missing: true },
+        { version: 11, name: 'add_notes', applied_at: null, modified: false, missing: false }
+      ]);
+    });
+  });
+
+  describe('rollback', () => {
+    it('runs the down sections of the latest migrations, newest first', async () => {
+      await service.migrate(2);
+
+      const rolledBack = await service.rollback(2);
+
+      expect(rolledBack.map(migration => migration.version)).toEqual([2, 1]);
+      expect(db.applied).toEqual([]);
+      expect(db.transactions[3]).toBe(`BEGIN;
+SELECT pg_advisory_xact_lock(4728193);
+DROP TABLE events;
+DELETE FROM schema_migrations WHERE version = 1;
+COMMIT;`);
+    });
+
+    it('refuses migrations without a down section or a file', async () => {
+      await service.migrate();
+      await expect(service.rollback()).rejects.toThrow('Migration 10 (add_index) has no down section');
+
+      rmSync(path.join(dir, '010_add_index.sql'));
+      await expect(service.rollback()).rejects.toThrow('Migration 10 (add_index) is applied but its file is missing');
+      expect(db.applied).toHaveLength(3);
+    });
+  });
+
+  describe('baseline', () => {
+    it('records migrations as applied without running them', async () => {
+      expect(await service.baseline(2)).toBe(2);
+      expect(db.transactions).toEqual([]);
+      expect(db.applied.map(row => [row.version, row.checksum])).toEqual([
+        [1, sha256('CREATE TABLE events (id UUID);')],
+        [2, sha256("ALTER TABLE events ADD COLUMN status TEXT DEFAULT 'scheduled';")]
+      ]);
+
+      expect(await service.baseline(10)).toBe(1);
+      expect(await service.baseline(0)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { runSupabaseSql } from '../utils/supabase';
+import { ColumnSchema, DATABASE_SCHEMA } from '../types/database-schema';
+import { Migration, MigrationStatus } from '../types/migration';
+import debug from 'debug';
+
+const log = debug('market-events:migrations');
+
+// backend/migrations, from src/services and dist/services alike
+const MIGRATIONS_DIR = resolve(__dirname, '../../migrations');
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.sql$/;
+const UP_MARKER = '-- migrate:up';
+const DOWN_MARKER = '-- migrate:down';
+
+// Key of the transaction-level advisory lock that serializes instances migrating at the same time
+const MIGRATION_LOCK_KEY = 4_728_193;
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+const quote = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+export class MigrationService {
+  constructor(
+    private directory: string = MIGRATIONS_DIR,
+    private runSql: <T>(query: string) => Promise<T[]> = runSupabaseSql
+  ) {}
+
+  /**
+   * Migration files in version order
+   */
+  loadMigrations(): Migration[] {
+    const migrations = readdirSync(this.directory)
+      .filter(file => file.endsWith('.sql'))
+      .map(file => this.parseMigration(file))
+      .sort((a, b) => a.version - b.version);
+
+    const duplicate = migrations.find((migration, index) => index > 0 && migrations[index - 1]!.version === migration.version);
+    if (duplicate) {
+      throw new Error(`Two migrations have version ${duplicate.version}`);
+    }
+
+    return migrations;
+  }
+
+  /**
+   * Every migration file and every applied migration, in version order
+   */
+  async getStatus(): Promise<MigrationStatus[]> {
+    const migrations = this.loadMigrations();
+    const applied = await this.getApplied();
+    const appliedByVersion = new Map(applied.map(migration => [migration.version, migration]));
+
+    const statuses: MigrationStatus[] = migrations.map(migration => {
+      const record = appliedByVersion.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied_at: record?.applied_at ?? null,
+        modified: !!record && record.checksum !== migration.checksum,
+        missing: false
+      };
+    });
+
+    for (const record of applied) {
+      if (!migrations.some(migration => migration.version === record.version)) {
+        statuses.push({ version: record.version, name: record.name, applied_at: record.applied_at, modified: false, missing: true });
+      }
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply pending migrations up to and including target (default: all), each in its own transaction
+   * together with its schema_migrations row. Returns the migrations applied.
+   */
+  async migrate(target?: number): Promise<Migration[]> {
+    const applied = new Set((await this.getApplied()).map(migration => migration.version));
+    const pending = this.loadMigrations()
+      .filter(migration => !applied.has(migration.version) && (target === undefined || migration.version <= target));
+
+    const done: Migration[] = [];
+    for (const migration of pending) {
+      log(`Applying migration ${this.label(migration)}...`);
+
+      try {
+        // The row goes in first, so an instance that waited on the lock fails on it before running the migration
+        await this.runSql(`BEGIN;
+SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY});
+INSERT INTO schema_migrations (version, name, checksum) VALUES (${migration.version}, ${quote(migration.name)}, ${quote(migration.checksum)});
+${migration.up}
+COMMIT;`);
+      } catch (error) {
+        if (await this.isApplied(migration.version)) {
+          log(`Migration ${this.label(migration)} was applied by another instance`);
+          continue;
+        }
+        throw new Error(`Migration ${this.label(migration)} failed: ${error instanceof Error ? error.message : error}`);
+      }
+
+      done.push(migration);
+    }
+
+    log(done.length > 0 ? `Applied ${done.length} migrations` : 'Database is up to date');
+    return done;
+  }
+
+  /**
+   * Roll back the latest applied migrations, newest first. Returns the migrations rolled back.
+   */
+  async rollback(steps: number = 1): Promise<Migration[]> {
+    const migrations = new Map(this.loadMigrations().map(migration => [migration.version, migration]));
+    const latest = (await this.getApplied()).reverse().slice(0, steps);
+
+    const done: Migration[] = [];
+    for (const record of latest) {
+      const migration = migrations.get(record.version);
+      if (!migration) {
+        throw new Error(`Migration ${record.version} (${record.name}) is applied but its file is missing`);
+      }
+      if (migration.down === null) {
+        throw new Error(`Migration ${this.label(migration)} has no down section`);
+      }
+
+      log(`Rolling back migration ${this.label(migration)}...`);
+      try {
+        await this.runSql(`BEGIN;
+SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY});
+${migration.down}
+DELETE FROM schema_migrations WHERE version = ${migration.version};
+COMMIT;`);
+      } catch (error) {
+        throw new Error(`Rolling back migration ${this.label(migration)} failed: ${error instanceof Error ? error.message : error}`);
+      }
+
+      done.push(migration);
+    }
+
+    return done;
+  }
+
+  /**
+   * Record the migrations up to and including version as applied without running them, for databases
+   * whose schema was created by hand. Returns how many were recorded.
+   */
+  async baseline(version: number): Promise<number> {
+    const migrations = this.loadMigrations().filter(migration => migration.version <= version);
+    if (migrations.length === 0) {
+      return 0;
+    }
+
+    await this.ensureTable();
+    const rows = await this.runSql<{ version: number }>(`INSERT INTO schema_migrations (version, name, checksum) VALUES
+${migrations.map(migration => `(${migration.version}, ${quote(migration.name)}, ${quote(migration.checksum)})`).join(',\n')}
+ON CONFLICT (version) DO NOTHING
+RETURNING version;`);
+
+    log(`Recorded ${rows.length} migrations as applied`);
+    return rows.length;
+  }
+
+  /**
+   * Differences between the row types (types/database-schema.ts) and the tables in the database;
+   * an empty list means they match
+   */
+  async checkDrift(): Promise<string[]> {
+    const tables = Object.keys(DATABASE_SCHEMA);
+    const columns = await this.runSql<{ table_name: string; column_name: string; udt_name: string; is_nullable: 'YES' | 'NO' }>(
+      `SELECT table_name, column_name, udt_name, is_nullable
+FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name IN (${tables.map(quote).join(', ')});`
+    );
+
+    const problems: string[] = [];
+    for (const [table, expected] of Object.entries(DATABASE_SCHEMA)) {
+      const actual = new Map(columns.filter(column => column.table_name === table).map(column => [column.column_name, column]));
+      if (actual.size === 0) {
+        problems.push(`${table}: table is missing from the database`);
+        continue;
+      }
+
+      for (const [name, spec] of Object.entries(expected) as [string, ColumnSchema][]) {
+        const column = actual.get(name);
+        if (!column) {
+          problems.push(`${table}.${name}: column is missing from the database`);
+        } else if (column.udt_name !== spec.type) {
+          problems.push(`${table}.${name}: column is ${column.udt_name} in the database, ${spec.type} in the row type`);
+        } else if ((column.is_nullable === 'YES') !== spec.nullable) {
+          problems.push(`${table}.${name}: column is ${column.is_nullable === 'YES' ? 'nullable' : 'NOT NULL'} in the database, ${spec.nullable ? 'nullable' : 'NOT NULL'} in the row type`);
+        }
+      }
+
+      for (const name of actual.keys()) {
+        if (!(name in expected)) {
+          problems.push(`${table}.${name}: column is missing from the row type`);
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  private async ensureTable(): Promise<void> {
+    // RLS without policies keeps the table out of the public API
+    await this.runSql(`CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  checksum TEXT NOT NULL, -- sha256 of the up section when it was applied
+  applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;`);
+  }
+
+  /**
+   * Applied migrations in version order
+   */
+  private async getApplied(): Promise<AppliedMigration[]> {
+    await this.ensureTable();
+    return this.runSql<AppliedMigration>('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version;');
+  }
+
+  private async isApplied(version: number): Promise<boolean> {
+    const rows = await this.runSql(`SELECT version FROM schema_migrations WHERE version = ${version};`);
+    return rows.length > 0;
+  }
+
+  private parseMigration(file: string): Migration {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      throw new Error(`Migration file ${file} must be named NNN_name.sql`);
+    }
+
+    const sql = readFileSync(join(this.directory, file), 'utf8');
+    const upStart = sql.indexOf(UP_MARKER);
+    const downStart = sql.indexOf(DOWN_MARKER);
+    if (upStart === -1 || (downStart !== -1 && downStart < upStart)) {
+      throw new Error(`Migration file ${file} needs a "${UP_MARKER}" section before any "${DOWN_MARKER}" section`);
+    }
+
+    const up = sql.slice(upStart + UP_MARKER.length, downStart === -1 ? undefined : downStart).trim();
+    return {
+      version: parseInt(match[1]!),
+      name: match[2]!,
+      up,
+      down: downStart === -1 ? null : sql.slice(downStart + DOWN_MARKER.length).trim(),
+      checksum: createHash('sha256').update(up).digest('hex')
+    };
+  }
+
+  private label(migration: Migration): string {
+    return `${migration.version} (${migration.name})`;
+  }
+}
+
+// Export singleton instance
+export const migrationService = new MigrationService();
@@ -0,0 +1,139 @@
+import { repositories } from '../repositories';
+import { CreatePromptTemplate, PromptTemplate } from '../types/prompt-template';
+import { DEFAULT_MARKET_EVENTS_TEMPLATE, MARKET_EVENTS_PROMPT } from '../utils/prompt-template';
+import debug from 'debug';
+
+const log = debug('market-events:prompt-templates');
+
+// Templates that ship with the code, served as version 0 until a version is saved
+const BUILT_IN_TEMPLATES: Record<string, string> = {
+  [MARKET_EVENTS_PROMPT]: DEFAULT_MARKET_EVENTS_TEMPLATE,
+};
+
+export class PromptTemplateService {
+  /**
+   * Names of all known templates with their active version
+   */
+  async listTemplates(): Promise<PromptTemplate[]> {
+    try {
+      const names = new Set(Object.keys(BUILT_IN_TEMPLATES));
+      (await repositories.promptTemplates.listNames()).forEach(name => names.add(name));
+
+      const templates = await Promise.all(Array.from(names).map(name => this.getActiveTemplate(name)));
+      return templates.filter((template): template is PromptTemplate => template !== null);
+    } catch (error) {
+      log('Error in listTemplates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * All saved versions of a template, newest first, followed by the built-in default
+   */
+  async getVersions(name: string): Promise<PromptTemplate[]> {
+    try {
+      const versions = await repositories.promptTemplates.findVersions(name);
+      const builtIn = this.getBuiltIn(name, !versions.some(version => version.is_active));
+      return builtIn ? [...versions, builtIn] : versions;
+    } catch (error) {
+      log('Error in getVersions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A single version of a template (0 = built-in default)
+   */
+  async getVersion(name: string, version: number): Promise<PromptTemplate | null> {
+    const versions = await this.getVersions(name);
+    return versions.find(template => template.version === version) || null;
+  }
+
+  /**
+   * The version used for generation: the active saved version, else the built-in default
+   */
+  async getActiveTemplate(name: string): Promise<PromptTemplate | null> {
+    try {
+      const active = await repositories.promptTemplates.findActive(name);
+      return active || this.getBuiltIn(name, true);
+    } catch (error) {
+      log('Error in getActiveTemplate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a new version of a template, optionally making it the active one
+   */
+  async createVersion(name: string, input: CreatePromptTemplate): Promise<PromptTemplate> {
+    try {
+      const [latest] = await repositories.promptTemplates.findVersions(name);
+
+      const data = await repositories.promptTemplates.insert({
+        name,
+        version: (latest?.version || 0) + 1,
+        template: input.template,
+        description: input.description || null,
+        is_active: false
+      });
+
+      log(`Created prompt template ${name} v${data.version}`);
+      return input.activate ? (await this.activateVersion(name, data.version))! : data;
+    } catch (error) {
+      log('Error in createVersion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Make a version the one used for generation; activating version 0 rolls back to the built-in default
+   */
+  async activateVersion(name: string, version: number): Promise<PromptTemplate | null> {
+    try {
+      if (version !== 0) {
+        const existing = await this.getVersion(name, version);
+        if (!existing) {
+          return null;
+        }
+      } else if (!BUILT_IN_TEMPLATES[name]) {
+        return null;
+      }
+
+      if (version === 0) {
+        // No stored version active means the built-in default is used
+        await repositories.promptTemplates.deactivate(name);
+        log(`Rolled back prompt template ${name} to the built-in default`);
+        return this.getBuiltIn(name, true);
+      }
+
+      // Clears the current version in the same step, so the template is never left without one
+      const data = await repositories.promptTemplates.activate(name, version);
+
+      log(`Activated prompt template ${name} v${version}`);
+      return data;
+    } catch (error) {
+      log('Error in activateVersion:', error);
+      throw error;
+    }
+  }
+
+  private getBuiltIn(name: string, isActive: boolean): PromptTemplate | null {
+    const template = BUILT_IN_TEMPLATES[name];
+    if (!template) {
+      return null;
+    }
+
+    return {
+      id: `${name}@0`,
+      name,
+      version: 0,
+      template,
+      description: 'Built-in default',
+      is_active: isActive,
+      created_at: new Date(0).toISOString()
+    };
+  }
+}
+
+// Export singleton instance
+export const promptTemplateService = new PromptTemplateService();
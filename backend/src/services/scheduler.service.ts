@@ -1,16 +1,81 @@
 import * as cron from 'node-cron';
+import { hostname } from 'os';
 import { MarketEventsService } from './market-events.service';
-import { aiService } from './ai.service';
+import { generationService } from './generation.service';
+import { repositories } from '../repositories';
+import { ScheduledJob, ScheduleRunStatus, ScheduleStatus } from '../types/schedule';
 import debug from 'debug';
 
 const log = debug('market-events:scheduler');
 
+// Replicas whose clocks run slightly ahead still claim an occurrence when their cron fires
+const CLOCK_SKEW_MS = 60 * 1000;
+
+// A named schedule: when it runs and what it does. run resolves with a short summary stored as last_result.
+export interface ScheduleDefinition {
+  name: string;
+  cron: string;
+  description: string;
+  run: () => Promise<string>;
+}
+
+export class ScheduleBusyError extends Error {
+  constructor(name: string) {
+    super(`${name} is already running`);
+    this.name = 'ScheduleBusyError';
+  }
+}
+
 export class SchedulerService {
   private marketEventsService: MarketEventsService;
-  private isRunning: boolean = false;
+  private definitions = new Map<string, ScheduleDefinition>();
+  private tasks = new Map<string, cron.ScheduledTask>();
+  private instanceId = `${hostname()}:${process.pid}`;
+  private lockTtlMs: number;
+  private retentionDays: number | null; // null keeps every event
 
   constructor() {
     this.marketEventsService = new MarketEventsService();
+    this.lockTtlMs = parseInt(process.env.SCHEDULER_LOCK_TTL_MS || '1800000');
+    // Off unless set: weeks backfilled by range generation end in the past and would be deleted, then generated again
+    this.retentionDays = process.env.EVENT_RETENTION_DAYS ? parseInt(process.env.EVENT_RETENTION_DAYS) : null;
+
+    this.registerSchedule({
+      name: 'weekly-generation',
+      cron: process.env.EVENT_GENERATION_CRON || '0 9 * * 0', // Default: Every Sunday at 9:00 AM
+      description: 'Clean up old events and generate the upcoming week',
+      run: () => this.generateUpcomingWeekEvents()
+    });
+    this.registerSchedule({
+      name: 'daily-refresh',
+      cron: process.env.EVENT_REFRESH_CRON || '0 7 * * *', // Default: Every day at 7:00 AM
+      description: "Re-verify the current week's events and add newly announced ones",
+      run: () => this.refreshCurrentWeekEvents()
+    });
+    this.registerSchedule({
+      name: 'event-completion',
+      cron: process.env.EVENT_COMPLETION_CRON || '5 0 * * *', // Default: Every day at 0:05 AM
+      description: 'Mark events whose end date has passed as completed',
+      run: () => this.completePastEvents()
+    });
+    this.registerSchedule({
+      name: 'retention-cleanup',
+      cron: process.env.RETENTION_CLEANUP_CRON || '0 3 * * *', // Default: Every day at 3:00 AM
+      description: this.retentionDays === null
+        ? 'Off: set EVENT_RETENTION_DAYS to delete events that ended that many days ago'
+        : `Delete events that ended more than ${this.retentionDays} days ago`,
+      run: () => this.cleanUpOldEvents()
+    });
+  }
+
+  /**
+   * Add a named schedule; schedules registered after start() aren't picked up
+   */
+  registerSchedule(definition: ScheduleDefinition): void {
+    if (!cron.validate(definition.cron)) {
+      throw new Error(`Invalid cron expression for ${definition.name}: ${definition.cron}`);
+    }
+    this.definitions.set(definition.name, definition);
   }
 
   /**
@@ -29,10 +94,9 @@ export class SchedulerService {
       }
 
       log('Generating events for current week on startup...');
-      const events = await aiService.generateWeeklyMarketEvents(); // Current week
-      const result = await this.marketEventsService.createEvents(events);
+      const result = await generationService.generateWeek({ trigger: 'startup' }); // Current week
 
-      log(`Successfully created ${result.created.length} current week events (${result.skipped} skipped)`);
+      log(`Successfully created ${result.created.length} current week events (${result.updated.length} updated, ${result.skipped} skipped)`);
     } catch (error) {
       log('Error generating current week events:', error);
       throw error;
@@ -40,62 +104,161 @@ export class SchedulerService {
   }
 
   /**
-   * Start the scheduled job for generating weekly market events
-   * Runs every Sunday at 9:00 AM to generate events for the upcoming week
+   * Start the cron task of every schedule, then store the schedules and catch up on runs
+   * missed while no backend instance was up
    */
-  startWeeklyEventGeneration(): void {
-    const cronExpression = process.env.EVENT_GENERATION_CRON || '0 9 * * 0'; // Default: Every Sunday at 9:00 AM
+  start(): void {
+    if (this.tasks.size > 0) {
+      return;
+    }
 
-    log(`Starting weekly upcoming event generation with cron: ${cronExpression}`);
+    for (const definition of this.definitions.values()) {
+      log(`Scheduling ${definition.name} with cron: ${definition.cron}`);
+      const task = cron.schedule(definition.cron, () => this.runDue(definition.name, new Date(Date.now() + CLOCK_SKEW_MS)), {
+        name: definition.name
+      });
+      this.tasks.set(definition.name, task);
+    }
 
-    cron.schedule(cronExpression, async () => {
-      if (this.isRunning) {
-        log('Weekly event generation already running, skipping...');
-        return;
-      }
+    this.catchUp();
+    log('Scheduler started');
+  }
+
+  /**
+   * Every registered schedule with its stored state; schedules not stored yet (the scheduler
+   * hasn't started or the table is missing them) are listed with empty run history
+   */
+  async listSchedules(): Promise<ScheduleStatus[]> {
+    try {
+      const stored = new Map((await repositories.schedules.list()).map(job => [job.name, job]));
+      return Array.from(this.definitions.values()).map(definition => {
+        const job = stored.get(definition.name);
+        return this.toStatus(definition, job || {
+          name: definition.name,
+          cron: definition.cron,
+          paused: false,
+          next_run_at: this.getNextRun(definition.name),
+          last_run_at: null,
+          last_finished_at: null,
+          last_status: null,
+          last_result: null,
+          last_error: null,
+          locked_by: null,
+          locked_until: null,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        });
+      });
+    } catch (error) {
+      log('Error in listSchedules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop running a schedule's occurrences, on every instance; returns null for an unknown schedule
+   */
+  async pauseSchedule(name: string): Promise<ScheduleStatus | null> {
+    return this.setPaused(name, true);
+  }
+
+  /**
+   * Run a paused schedule again from its next occurrence; occurrences missed while paused aren't caught up
+   */
+  async resumeSchedule(name: string): Promise<ScheduleStatus | null> {
+    return this.setPaused(name, false);
+  }
 
-      try {
-        this.isRunning = true;
-        log('Starting upcoming week market events generation...');
+  /**
+   * Run a schedule now, paused or not, without moving its next occurrence. The run continues in the
+   * background; returns the locked schedule, or null for an unknown schedule.
+   * Throws ScheduleBusyError while an instance is already running it.
+   */
+  async triggerSchedule(name: string): Promise<ScheduleStatus | null> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      return null;
+    }
 
-        await this.generateUpcomingWeekEvents();
+    const now = new Date().toISOString();
+    let data: ScheduledJob | null;
+    try {
+      data = await repositories.schedules.lock(name, {
+        last_run_at: now,
+        locked_by: this.instanceId,
+        locked_until: new Date(Date.now() + this.lockTtlMs).toISOString(),
+        updated_at: now
+      }, { now });
+    } catch (error) {
+      log('Error locking scheduled job:', error);
+      throw error;
+    }
 
-        log('Upcoming week market events generation completed successfully');
-      } catch (error) {
-        log('Error in upcoming week event generation:', error);
-      } finally {
-        this.isRunning = false;
-      }
-    });
+    if (!data) {
+      throw new ScheduleBusyError(name);
+    }
 
-    log('Weekly upcoming event generation scheduler started');
+    log(`Triggered ${name} on demand`);
+    this.execute(name).catch(executeError => log(`Error running scheduled job ${name}:`, executeError));
+    return this.toStatus(definition, data);
   }
 
   /**
    * Generate events for the upcoming week (next week)
-   * Also cleans up old events from previous weeks
+   * Also cleans up old events when EVENT_RETENTION_DAYS is set
    */
-  async generateUpcomingWeekEvents(): Promise<void> {
+  async generateUpcomingWeekEvents(): Promise<string> {
     try {
-      log('Cleaning up old events before generating new ones...');
-
-      // Delete events older than 7 days (previous week's events)
-      const deletedCount = await this.marketEventsService.deleteOldEvents(7);
-      log(`Deleted ${deletedCount} old events`);
+      // Delete events that ended before the retention period, when one is set
+      let deletedCount = 0;
+      if (this.retentionDays !== null) {
+        log('Cleaning up old events before generating new ones...');
+        deletedCount = await this.marketEventsService.deleteOldEvents(this.retentionDays);
+        log(`Deleted ${deletedCount} old events`);
+      }
 
       log('Generating events for upcoming week...');
 
       const nextWeekStart = this.getNextWeekStart();
-      const events = await aiService.generateWeeklyMarketEvents(nextWeekStart);
-      const result = await this.marketEventsService.createEvents(events);
+      const result = await generationService.generateWeek({ weekStart: nextWeekStart, trigger: 'cron' });
 
-      log(`Successfully created ${result.created.length} upcoming week events (${result.skipped} skipped)`);
+      log(`Successfully created ${result.created.length} upcoming week events (${result.updated.length} updated, ${result.skipped} skipped)`);
+      return `Deleted ${deletedCount} old events, created ${result.created.length} upcoming week events (${result.updated.length} updated, ${result.skipped} skipped)`;
     } catch (error) {
       log('Error generating upcoming week events:', error);
       throw error;
     }
   }
 
+  /**
+   * Check the current week's events for reschedules, cancellations and updates
+   */
+  async refreshCurrentWeekEvents(): Promise<string> {
+    const refresh = await generationService.refreshWeek({});
+    const count = (kind: string) => refresh.changes.filter(change => change.kind === kind).length;
+    return `${count('updated')} updated, ${count('postponed')} postponed, ${count('cancelled')} cancelled, ${count('added')} added, ${refresh.unchanged} unchanged`;
+  }
+
+  /**
+   * Move scheduled and confirmed events that have ended to completed
+   */
+  async completePastEvents(): Promise<string> {
+    const completedCount = await this.marketEventsService.completePastEvents();
+    return `Marked ${completedCount} events as completed`;
+  }
+
+  /**
+   * Delete events that ended before the retention period, if EVENT_RETENTION_DAYS sets one
+   */
+  async cleanUpOldEvents(): Promise<string> {
+    if (this.retentionDays === null) {
+      return 'Retention is off (EVENT_RETENTION_DAYS is not set), no events deleted';
+    }
+
+    const deletedCount = await this.marketEventsService.deleteOldEvents(this.retentionDays);
+    return `Deleted ${deletedCount} events that ended more than ${this.retentionDays} days ago`;
+  }
+
   /**
    * Manually trigger event generation (for testing or immediate generation)
    */
@@ -103,30 +266,171 @@ export class SchedulerService {
     try {
       log('Generating weekly market events...');
 
-      // Generate events using AI
-      const events = await aiService.generateWeeklyMarketEvents(weekStart);
+      // Generate events using AI and store them (duplicates are skipped)
+      const result = await generationService.generateWeek({ weekStart, trigger: 'manual' });
+
+      log(`Successfully created ${result.created.length} market events for the week (${result.updated.length} updated, ${result.skipped} skipped)`);
+    } catch (error) {
+      log('Error generating weekly events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the scheduler (on shutdown and in tests)
+   */
+  stop(): void {
+    this.tasks.forEach(task => task.destroy());
+    this.tasks.clear();
+    log('Scheduler stopped');
+  }
 
-      if (events.length === 0) {
-        log('No events generated by AI service');
+  /**
+   * Store new or changed schedules and run, once, each schedule whose next occurrence passed
+   * while no instance was running
+   */
+  private async catchUp(): Promise<void> {
+    try {
+      const stored = new Map((await repositories.schedules.list()).map(job => [job.name, job]));
+      const now = new Date();
+
+      for (const definition of this.definitions.values()) {
+        const job = stored.get(definition.name);
+
+        if (!job) {
+          // Another instance booting at the same time may insert it first
+          await repositories.schedules
+            .insertIfMissing({ name: definition.name, cron: definition.cron, next_run_at: this.getNextRun(definition.name) })
+            .catch(insertError => log(`Error storing schedule ${definition.name}:`, insertError));
+        } else if (job.cron !== definition.cron || !job.next_run_at) {
+          // A changed expression starts from its own next occurrence rather than catching up on the old one
+          log(`Schedule ${definition.name} changed to ${definition.cron}`);
+          await this.update(definition.name, { cron: definition.cron, next_run_at: this.getNextRun(definition.name) });
+        } else if (!job.paused && new Date(job.next_run_at) <= now) {
+          log(`Missed ${definition.name} run due ${job.next_run_at}, catching up`);
+          this.runDue(definition.name, now);
+        }
+      }
+    } catch (error) {
+      log('Error catching up on scheduled jobs:', error);
+    }
+  }
+
+  /**
+   * Run a schedule's occurrence if it is due by dueBy and no instance holds its lock
+   */
+  private async runDue(name: string, dueBy: Date): Promise<void> {
+    try {
+      const job = await this.claim(name, dueBy);
+      if (!job) {
+        log(`${name} is paused, already ran or is running on another instance, skipping`);
         return;
       }
 
-      // Store events in database (allow duplicates for manual generation)
-      const result = await this.marketEventsService.createEvents(events);
+      await this.execute(name);
+    } catch (error) {
+      log(`Error running scheduled job ${name}:`, error);
+    }
+  }
 
-      log(`Successfully created ${result.created.length} market events for the week (${result.skipped} skipped)`);
+  /**
+   * Take the lock of a due schedule and move it on to its next occurrence, in one conditional update
+   * so only one instance wins; returns null when the occurrence isn't due or the lock is held
+   */
+  private async claim(name: string, dueBy: Date): Promise<ScheduledJob | null> {
+    const now = new Date().toISOString();
+    return repositories.schedules.lock(name, {
+      next_run_at: this.getNextRun(name),
+      last_run_at: now,
+      locked_by: this.instanceId,
+      locked_until: new Date(Date.now() + this.lockTtlMs).toISOString(),
+      updated_at: now
+    }, { now, dueBy: dueBy.toISOString() });
+  }
+
+  /**
+   * Run a claimed schedule and record its outcome, releasing the lock
+   */
+  private async execute(name: string): Promise<void> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new Error(`Unknown schedule ${name}`);
+    }
+
+    log(`Running scheduled job ${name}...`);
+    let status: ScheduleRunStatus = 'succeeded';
+    let result: string | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      result = await definition.run();
+      log(`Scheduled job ${name} completed: ${result}`);
     } catch (error) {
-      log('Error generating weekly events:', error);
+      log(`Scheduled job ${name} failed:`, error);
+      status = 'failed';
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    try {
+      await repositories.schedules.release(name, this.instanceId, {
+        last_status: status,
+        last_result: result,
+        last_error: errorMessage,
+        last_finished_at: new Date().toISOString(),
+        locked_by: null,
+        locked_until: null,
+        updated_at: new Date().toISOString()
+      });
+    } catch (error) {
+      log(`Error recording outcome of ${name}:`, error);
+    }
+  }
+
+  private async setPaused(name: string, paused: boolean): Promise<ScheduleStatus | null> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      return null;
+    }
+
+    try {
+      const data = await repositories.schedules.upsert({
+        name,
+        cron: definition.cron,
+        paused,
+        // Resuming starts from the next occurrence instead of catching up on the ones skipped
+        ...(paused ? {} : { next_run_at: this.getNextRun(name) }),
+        updated_at: new Date().toISOString()
+      });
+
+      log(`${paused ? 'Paused' : 'Resumed'} ${name}`);
+      return this.toStatus(definition, data);
+    } catch (error) {
+      log('Error in setPaused:', error);
       throw error;
     }
   }
 
+  private toStatus(definition: ScheduleDefinition, job: ScheduledJob): ScheduleStatus {
+    return {
+      ...job,
+      description: definition.description,
+      running: !!job.locked_until && new Date(job.locked_until) > new Date()
+    };
+  }
+
+  private async update(name: string, changes: Partial<Omit<ScheduledJob, 'name'>>): Promise<void> {
+    try {
+      await repositories.schedules.update(name, { ...changes, updated_at: new Date().toISOString() });
+    } catch (error) {
+      log(`Error updating scheduled job ${name}:`, error);
+    }
+  }
+
   /**
-   * Stop the scheduler (mainly for testing)
+   * Next occurrence of a started schedule, as an ISO timestamp
    */
-  stop(): void {
-    cron.getTasks().forEach(task => task.destroy());
-    log('Scheduler stopped');
+  private getNextRun(name: string): string | null {
+    return this.tasks.get(name)?.getNextRun()?.toISOString() ?? null;
   }
 
   /**
@@ -0,0 +1,214 @@
+import { repositories } from '../repositories';
+import { AIUsage } from './ai-providers';
+import {
+  CostBreakdown,
+  CostSummary,
+  PricingTable,
+  PricingTableSchema,
+  UsageEntry,
+  UsageRecord
+} from '../types/usage';
+import debug from 'debug';
+
+const log = debug('market-events:usage');
+
+// USD per million tokens, and per search-tool invocation. Keep in sync with the providers'
+// pricing pages, or override with AI_PRICING (JSON object keyed by model).
+const DEFAULT_PRICING: PricingTable = {
+  'grok-4-fast': { input: 0.2, output: 0.5, searchCall: 0.025 },
+  'grok-4': { input: 3, output: 15, searchCall: 0.025 },
+  'gemini-1.5-pro-latest': { input: 1.25, output: 5, searchCall: 0 },
+};
+
+// One provider request and the usage it reported
+export interface ProviderCall {
+  provider: string;
+  model: string;
+  usage?: AIUsage;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(spentUsd: number, limitUsd: number) {
+    super(`Monthly AI budget exceeded: $${spentUsd.toFixed(2)} spent of $${limitUsd.toFixed(2)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class UsageService {
+  private pricing: PricingTable;
+  private monthlyBudgetUsd: number | null;
+
+  constructor() {
+    this.pricing = { ...DEFAULT_PRICING, ...this.loadPricingOverrides() };
+    this.monthlyBudgetUsd = process.env.AI_MONTHLY_BUDGET_USD ? parseFloat(process.env.AI_MONTHLY_BUDGET_USD) : null;
+  }
+
+  /**
+   * Collapse per-call usage into one entry per provider/model, priced from the rate table
+   */
+  summarize(calls: ProviderCall[]): UsageEntry[] {
+    const entries = new Map<string, UsageEntry>();
+
+    for (const { provider, model, usage } of calls) {
+      const key = `${provider}:${model}`;
+      const entry = entries.get(key) || {
+        provider,
+        model,
+        requests: 0,
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        reasoning_tokens: 0,
+        tool_calls: 0,
+        search_calls: 0,
+        cost_usd: null
+      };
+
+      entry.requests++;
+      entry.prompt_tokens += usage?.promptTokens || 0;
+      entry.completion_tokens += usage?.completionTokens || 0;
+      entry.reasoning_tokens += usage?.reasoningTokens || 0;
+      entry.tool_calls += usage?.toolCalls || 0;
+      entry.search_calls += usage?.searchCalls || 0;
+      entries.set(key, entry);
+    }
+
+    return Array.from(entries.values()).map(entry => ({ ...entry, cost_usd: this.priceEntry(entry) }));
+  }
+
+  /**
+   * Persist the usage of a generation run
+   */
+  async recordUsage(weekStart: string, entries: UsageEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      await repositories.usage.insert(weekStart, entries);
+
+      const cost = entries.reduce((sum, entry) => sum + (entry.cost_usd || 0), 0);
+      log(`Recorded AI usage for week ${weekStart}: $${cost.toFixed(4)}`);
+    } catch (error) {
+      log('Error in recordUsage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Aggregate recorded usage by provider, model and week within an optional date range
+   */
+  async getCostSummary(options: { from?: string; to?: string } = {}): Promise<CostSummary> {
+    try {
+      const records = await this.getUsageRecords(options);
+
+      return {
+        from: options.from,
+        to: options.to,
+        total: this.aggregate(records, () => 'total')[0] || this.emptyBreakdown('total'),
+        byProvider: this.aggregate(records, record => record.provider),
+        byModel: this.aggregate(records, record => `${record.provider}:${record.model}`),
+        byWeek: this.aggregate(records, record => record.week_start),
+        budget: await this.getBudgetStatus()
+      };
+    } catch (error) {
+      log('Error in getCostSummary:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Throw BudgetExceededError when AI_MONTHLY_BUDGET_USD is set and already spent this month
+   */
+  async assertWithinBudget(): Promise<void> {
+    if (this.monthlyBudgetUsd === null) {
+      return;
+    }
+
+    const { monthToDateUsd } = await this.getBudgetStatus();
+    if (monthToDateUsd >= this.monthlyBudgetUsd) {
+      throw new BudgetExceededError(monthToDateUsd, this.monthlyBudgetUsd);
+    }
+  }
+
+  private async getBudgetStatus(): Promise<CostSummary['budget']> {
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    const records = await this.getUsageRecords({ createdSince: monthStart.toISOString() });
+    const monthToDateUsd = records.reduce((sum, record) => sum + Number(record.cost_usd || 0), 0);
+
+    return {
+      monthlyLimitUsd: this.monthlyBudgetUsd,
+      monthToDateUsd,
+      remainingUsd: this.monthlyBudgetUsd === null ? null : Math.max(0, this.monthlyBudgetUsd - monthToDateUsd)
+    };
+  }
+
+  private async getUsageRecords(options: { from?: string; to?: string; createdSince?: string }): Promise<UsageRecord[]> {
+    return repositories.usage.find(options);
+  }
+
+  private aggregate(records: UsageRecord[], keyOf: (record: UsageRecord) => string): CostBreakdown[] {
+    const groups = new Map<string, CostBreakdown>();
+
+    for (const record of records) {
+      const key = keyOf(record);
+      const group = groups.get(key) || this.emptyBreakdown(key);
+
+      group.requests += record.requests;
+      group.prompt_tokens += record.prompt_tokens;
+      group.completion_tokens += record.completion_tokens;
+      group.tool_calls += record.tool_calls;
+      group.search_calls += record.search_calls;
+      if (record.cost_usd === null) {
+        group.unpriced_requests += record.requests;
+      } else {
+        group.cost_usd += Number(record.cost_usd);
+      }
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values()).sort((a, b) => b.cost_usd - a.cost_usd);
+  }
+
+  private emptyBreakdown(key: string): CostBreakdown {
+    return {
+      key,
+      requests: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      tool_calls: 0,
+      search_calls: 0,
+      cost_usd: 0,
+      unpriced_requests: 0
+    };
+  }
+
+  private priceEntry(entry: UsageEntry): number | null {
+    const rates = this.pricing[entry.model];
+    if (!rates) {
+      return null;
+    }
+
+    const cost = (entry.prompt_tokens / 1_000_000) * rates.input
+      + (entry.completion_tokens / 1_000_000) * rates.output
+      + entry.search_calls * rates.searchCall;
+
+    return Math.round(cost * 1_000_000) / 1_000_000;
+  }
+
+  private loadPricingOverrides(): PricingTable {
+    if (!process.env.AI_PRICING) {
+      return {};
+    }
+
+    const result = PricingTableSchema.safeParse(JSON.parse(process.env.AI_PRICING));
+    if (!result.success) {
+      throw new Error(`Invalid AI_PRICING: ${result.error.message}`);
+    }
+    return result.data;
+  }
+}
+
+// Export singleton instance
+export const usageService = new UsageService();
@@ -0,0 +1,20 @@
+// Runs of an external cron (the frontend's Vercel cron), one row per job and week in cron_runs, so
+// repeated or overlapping invocations for a week run it once and a failed week is retried
+
+export type CronRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface CronRun<TResult = unknown> {
+  name: string; // e.g. "weekly-generation"
+  week_start: string; // YYYY-MM-DD
+  status: CronRunStatus;
+  result: TResult | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface CronRunOutcome {
+  status: Exclude<CronRunStatus, 'running'>;
+  result?: unknown;
+  error?: string;
+}
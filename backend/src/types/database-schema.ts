@@ -0,0 +1,138 @@
+import { Database } from './database-types';
+
+type Tables = Database['public']['Tables'];
+
+// How a column is stored: its Postgres type (udt_name in information_schema) and whether it takes NULL
+export interface ColumnSchema<Nullable extends boolean = boolean> {
+  type: string;
+  nullable: Nullable;
+}
+
+// One entry per column of a row type, nullable exactly when the row type admits null, so the compiler
+// keeps this file in step with database-types.ts and the migration drift check compares it with the database
+type TableSchema<Row> = { [Column in keyof Row]-?: ColumnSchema<null extends Row[Column] ? true : false> };
+
+export type DatabaseSchema = { [Table in keyof Tables]: TableSchema<Tables[Table]['Row']> };
+
+const notNull = (type: string): ColumnSchema<false> => ({ type, nullable: false });
+const nullable = (type: string): ColumnSchema<true> => ({ type, nullable: true });
+
+export const DATABASE_SCHEMA: DatabaseSchema = {
+  market_events: {
+    id: notNull('uuid'),
+    date: notNull('text'),
+    start_date: nullable('date'),
+    end_date: nullable('date'),
+    release_time: nullable('time'),
+    timezone: nullable('text'),
+    all_day: nullable('bool'),
+    event: notNull('text'),
+    type: notNull('text'),
+    description: notNull('text'),
+    significance: notNull('text'),
+    significance_rank: nullable('int2'),
+    market_sentiment: notNull('text'),
+    status: notNull('text'),
+    citations: nullable('_text'),
+    unsourced: nullable('bool'),
+    confidence: nullable('numeric'),
+    consensus: nullable('jsonb'),
+    prompt_name: nullable('text'),
+    prompt_version: nullable('int4'),
+    created_at: notNull('timestamptz'),
+    updated_at: notNull('timestamptz'),
+  },
+  ai_usage: {
+    id: notNull('uuid'),
+    week_start: notNull('date'),
+    provider: notNull('text'),
+    model: notNull('text'),
+    requests: notNull('int4'),
+    prompt_tokens: notNull('int4'),
+    completion_tokens: notNull('int4'),
+    reasoning_tokens: notNull('int4'),
+    tool_calls: notNull('int4'),
+    search_calls: notNull('int4'),
+    cost_usd: nullable('numeric'),
+    created_at: notNull('timestamptz'),
+  },
+  prompt_templates: {
+    id: notNull('uuid'),
+    name: notNull('text'),
+    version: notNull('int4'),
+    template: notNull('text'),
+    description: nullable('text'),
+    is_active: notNull('bool'),
+    created_at: notNull('timestamptz'),
+  },
+  generation_runs: {
+    id: notNull('uuid'),
+    trigger: notNull('text'),
+    status: notNull('text'),
+    week_start: nullable('date'),
+    provider: nullable('text'),
+    model: nullable('text'),
+    prompt_name: nullable('text'),
+    prompt_version: nullable('int4'),
+    prompt: nullable('text'),
+    raw_response: nullable('text'),
+    citations: notNull('jsonb'),
+    responses: notNull('jsonb'),
+    parsed_count: nullable('int4'),
+    rejected_count: nullable('int4'),
+    created_count: nullable('int4'),
+    skipped_count: nullable('int4'),
+    duration_ms: nullable('int4'),
+    error: nullable('text'),
+    started_at: notNull('timestamptz'),
+    finished_at: nullable('timestamptz'),
+  },
+  generation_jobs: {
+    id: notNull('uuid'),
+    kind: notNull('text'),
+    status: notNull('text'),
+    params: notNull('jsonb'),
+    progress: nullable('jsonb'),
+    result: nullable('jsonb'),
+    error: nullable('text'),
+    attempts: notNull('int4'),
+    created_at: notNull('timestamptz'),
+    started_at: nullable('timestamptz'),
+    heartbeat_at: nullable('timestamptz'),
+    finished_at: nullable('timestamptz'),
+  },
+  event_changes: {
+    id: notNull('uuid'),
+    event_id: notNull('uuid'),
+    run_id: nullable('uuid'),
+    kind: notNull('text'),
+    changes: notNull('jsonb'),
+    reason: notNull('text'),
+    citations: notNull('_text'),
+    created_at: notNull('timestamptz'),
+  },
+  scheduled_jobs: {
+    name: notNull('text'),
+    cron: notNull('text'),
+    paused: notNull('bool'),
+    next_run_at: nullable('timestamptz'),
+    last_run_at: nullable('timestamptz'),
+    last_finished_at: nullable('timestamptz'),
+    last_status: nullable('text'),
+    last_result: nullable('text'),
+    last_error: nullable('text'),
+    locked_by: nullable('text'),
+    locked_until: nullable('timestamptz'),
+    created_at: notNull('timestamptz'),
+    updated_at: notNull('timestamptz'),
+  },
+  cron_runs: {
+    name: notNull('text'),
+    week_start: notNull('date'),
+    status: notNull('text'),
+    result: nullable('jsonb'),
+    error: nullable('text'),
+    started_at: notNull('timestamptz'),
+    finished_at: nullable('timestamptz'),
+  },
+};
@@ -1,3 +1,13 @@
+import { AICitation } from '../services/ai-providers'
+import { GenerationResponse, GenerationRunStatus, GenerationTrigger } from './generation-run'
+import { JobKind, JobProgress, JobStatus } from './job'
+import { ScheduleRunStatus } from './schedule'
+import { CronRunStatus } from './cron-run'
+import { Consensus, EventChangeKind, EventFieldChange, MarketEvent } from './market-event'
+import { EventStatus } from '../utils/event-status'
+
+type EventType = MarketEvent['type']
+
 export type Json =
   | string
   | number
@@ -13,44 +23,403 @@ export interface Database {
         Row: {
           id: string
           date: string
+          start_date: string | null
+          end_date: string | null
+          release_time: string | null
+          timezone: string | null
+          all_day: boolean | null
           event: string
-          type: 'Economic' | 'Fed' | 'Crypto' | 'Retail/Geopolitical' | 'Holiday' | 'Geopolitical' | 'Corporate' | 'Corporate'
+          type: EventType
           description: string
           significance: 'High' | 'Medium' | 'Low'
+          significance_rank: number | null
           market_sentiment: 'Bullish' | 'Bearish' | 'Neutral' | 'Mixed'
+          status: EventStatus
+          citations: string[] | null
+          unsourced: boolean | null
+          confidence: number | null
+          consensus: Consensus | null
+          prompt_name: string | null
+          prompt_version: number | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           date: string
+          start_date?: string | null
+          end_date?: string | null
+          release_time?: string | null
+          timezone?: string | null
+          all_day?: boolean | null
           event: string
-          type: 'Economic' | 'Fed' | 'Crypto' | 'Retail/Geopolitical' | 'Holiday' | 'Geopolitical' | 'Corporate' | 'Corporate'
+          type: EventType
           description: string
           significance: 'High' | 'Medium' | 'Low'
           market_sentiment: 'Bullish' | 'Bearish' | 'Neutral' | 'Mixed'
-          created_at?: string
-          updated_at?: string
+          status?: EventStatus
+          citations?: string[] | null
+          unsourced?: boolean | null
+          confidence?: number | null
+          consensus?: Consensus | null
+          prompt_name?: string | null
+          prompt_version?: number | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
           date?: string
+          start_date?: string | null
+          end_date?: string | null
+          release_time?: string | null
+          timezone?: string | null
+          all_day?: boolean | null
           event?: string
-          type?: 'Economic' | 'Fed' | 'Crypto' | 'Retail/Geopolitical' | 'Holiday' | 'Geopolitical'
+          type?: EventType
           description?: string
           significance?: 'High' | 'Medium' | 'Low'
           market_sentiment?: 'Bullish' | 'Bearish' | 'Neutral' | 'Mixed'
+          status?: EventStatus
+          citations?: string[] | null
+          unsourced?: boolean | null
+          confidence?: number | null
+          consensus?: Consensus | null
+          prompt_name?: string | null
+          prompt_version?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          id: string
+          week_start: string
+          provider: string
+          model: string
+          requests: number
+          prompt_tokens: number
+          completion_tokens: number
+          reasoning_tokens: number
+          tool_calls: number
+          search_calls: number
+          cost_usd: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          week_start: string
+          provider: string
+          model: string
+          requests?: number
+          prompt_tokens?: number
+          completion_tokens?: number
+          reasoning_tokens?: number
+          tool_calls?: number
+          search_calls?: number
+          cost_usd?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          week_start?: string
+          provider?: string
+          model?: string
+          requests?: number
+          prompt_tokens?: number
+          completion_tokens?: number
+          reasoning_tokens?: number
+          tool_calls?: number
+          search_calls?: number
+          cost_usd?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      prompt_templates: {
+        Row: {
+          id: string
+          name: string
+          version: number
+          template: string
+          description: string | null
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          version: number
+          template: string
+          description?: string | null
+          is_active?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          version?: number
+          template?: string
+          description?: string | null
+          is_active?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
+      generation_runs: {
+        Row: {
+          id: string
+          trigger: GenerationTrigger
+          status: GenerationRunStatus
+          week_start: string | null
+          provider: string | null
+          model: string | null
+          prompt_name: string | null
+          prompt_version: number | null
+          prompt: string | null
+          raw_response: string | null
+          citations: AICitation[]
+          responses: GenerationResponse[]
+          parsed_count: number | null
+          rejected_count: number | null
+          created_count: number | null
+          skipped_count: number | null
+          duration_ms: number | null
+          error: string | null
+          started_at: string
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          trigger: GenerationTrigger
+          status?: GenerationRunStatus
+          week_start?: string | null
+          provider?: string | null
+          model?: string | null
+          prompt_name?: string | null
+          prompt_version?: number | null
+          prompt?: string | null
+          raw_response?: string | null
+          citations?: AICitation[]
+          responses?: GenerationResponse[]
+          parsed_count?: number | null
+          rejected_count?: number | null
+          created_count?: number | null
+          skipped_count?: number | null
+          duration_ms?: number | null
+          error?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+        Update: {
+          id?: string
+          trigger?: GenerationTrigger
+          status?: GenerationRunStatus
+          week_start?: string | null
+          provider?: string | null
+          model?: string | null
+          prompt_name?: string | null
+          prompt_version?: number | null
+          prompt?: string | null
+          raw_response?: string | null
+          citations?: AICitation[]
+          responses?: GenerationResponse[]
+          parsed_count?: number | null
+          rejected_count?: number | null
+          created_count?: number | null
+          skipped_count?: number | null
+          duration_ms?: number | null
+          error?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+        Relationships: []
+      }
+      generation_jobs: {
+        Row: {
+          id: string
+          kind: JobKind
+          status: JobStatus
+          params: Record<string, unknown>
+          progress: JobProgress | null
+          result: unknown
+          error: string | null
+          attempts: number
+          created_at: string
+          started_at: string | null
+          heartbeat_at: string | null
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          kind: JobKind
+          status?: JobStatus
+          params?: Record<string, unknown>
+          progress?: JobProgress | null
+          result?: unknown
+          error?: string | null
+          attempts?: number
+          created_at?: string
+          started_at?: string | null
+          heartbeat_at?: string | null
+          finished_at?: string | null
+        }
+        Update: {
+          id?: string
+          kind?: JobKind
+          status?: JobStatus
+          params?: Record<string, unknown>
+          progress?: JobProgress | null
+          result?: unknown
+          error?: string | null
+          attempts?: number
+          created_at?: string
+          started_at?: string | null
+          heartbeat_at?: string | null
+          finished_at?: string | null
+        }
+        Relationships: []
+      }
+      event_changes: {
+        Row: {
+          id: string
+          event_id: string
+          run_id: string | null
+          kind: EventChangeKind
+          changes: EventFieldChange[]
+          reason: string
+          citations: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          run_id?: string | null
+          kind: EventChangeKind
+          changes?: EventFieldChange[]
+          reason?: string
+          citations?: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          run_id?: string | null
+          kind?: EventChangeKind
+          changes?: EventFieldChange[]
+          reason?: string
+          citations?: string[]
+          created_at?: string
+        }
+        Relationships: []
+      }
+      scheduled_jobs: {
+        Row: {
+          name: string
+          cron: string
+          paused: boolean
+          next_run_at: string | null
+          last_run_at: string | null
+          last_finished_at: string | null
+          last_status: ScheduleRunStatus | null
+          last_result: string | null
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          name: string
+          cron: string
+          paused?: boolean
+          next_run_at?: string | null
+          last_run_at?: string | null
+          last_finished_at?: string | null
+          last_status?: ScheduleRunStatus | null
+          last_result?: string | null
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          cron?: string
+          paused?: boolean
+          next_run_at?: string | null
+          last_run_at?: string | null
+          last_finished_at?: string | null
+          last_status?: ScheduleRunStatus | null
+          last_result?: string | null
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
           created_at?: string
           updated_at?: string
         }
         Relationships: []
       }
+      cron_runs: {
+        Row: {
+          name: string
+          week_start: string
+          status: CronRunStatus
+          result: unknown
+          error: string | null
+          started_at: string
+          finished_at: string | null
+        }
+        Insert: {
+          name: string
+          week_start: string
+          status?: CronRunStatus
+          result?: unknown
+          error?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+        Update: {
+          name?: string
+          week_start?: string
+          status?: CronRunStatus
+          result?: unknown
+          error?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      replace_week_events: {
+        Args: {
+          p_inserts: Json
+          p_updates: Json
+          p_deletes: string[]
+        }
+        Returns: undefined
+      }
+      activate_prompt_template: {
+        Args: {
+          p_name: string
+          p_version: number
+        }
+        Returns: Database['public']['Tables']['prompt_templates']['Row'][]
+      }
+      update_event_with_change: {
+        Args: {
+          p_id: string
+          p_changes: Database['public']['Tables']['market_events']['Update']
+          p_change: Database['public']['Tables']['event_changes']['Insert']
+        }
+        Returns: Database['public']['Tables']['event_changes']['Row'][]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,158 @@
+import { AICitation, AIToolCall, AIUsage } from '../services/ai-providers';
+import { CreateMarketEvent, EventChange, EventPreview, GenerationReport, MarketEvent, RejectedEvent, WeekDiff } from './market-event';
+import { UsageEntry } from './usage';
+import { JobProgress } from './job';
+import { PromptRef } from './prompt-template';
+
+// What started a generation run
+export const GENERATION_TRIGGERS = ['cron', 'startup', 'manual', 'clear-regenerate', 'preview', 'refresh'] as const;
+export type GenerationTrigger = typeof GENERATION_TRIGGERS[number];
+
+export type GenerationRunStatus = 'running' | 'succeeded' | 'failed';
+
+// One provider response received during a run
+export interface GenerationResponse {
+  provider: string; // The provider that answered (after any fallback)
+  model: string;
+  purpose: 'generate' | 'repair';
+  content: string;
+  citations: AICitation[];
+  toolCalls?: AIToolCall[];
+  usage?: AIUsage;
+}
+
+// Steps of a generation, reported live through GenerationTrace.onProgress
+export type GenerationPhase =
+  | 'prompt' // Prompt template rendered
+  | 'provider-call' // Request sent to a provider
+  | 'tool-search' // Search the provider ran while researching
+  | 'provider-response' // Provider answered
+  | 'parsed' // Response parsed into events
+  | 'rejected' // Event failed validation for good
+  | 'stored' // Events written, duplicates skipped
+  | 'previewed' // Candidates classified without writing (preview runs)
+  | 'replaced' // Week's stored events replaced with the generation (clear-regenerate)
+  | 'refreshed' // Stored events updated from a re-verification (daily refresh)
+  | 'completed'
+  | 'failed';
+
+export interface GenerationProgress extends JobProgress {
+  phase: GenerationPhase;
+}
+
+// Everything a run sent and received, filled in as it progresses so it survives a failure
+export interface GenerationTrace {
+  week?: string; // YYYY-MM-DD
+  prompt?: PromptRef & { text: string };
+  responses: GenerationResponse[];
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+export interface GenerationRun {
+  id: string;
+  trigger: GenerationTrigger;
+  status: GenerationRunStatus;
+  week_start: string | null;
+  provider: string | null; // "ensemble" for multi-provider runs
+  model: string | null; // Comma-separated provider:model labels for ensembles
+  prompt_name: string | null;
+  prompt_version: number | null;
+  prompt: string | null;
+  raw_response: string | null; // First generation response, see responses for all of them
+  citations: AICitation[];
+  responses: GenerationResponse[];
+  parsed_count: number | null;
+  rejected_count: number | null;
+  created_count: number | null;
+  skipped_count: number | null;
+  duration_ms: number | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+// Run without the archived prompt and responses, for listings
+export type GenerationRunSummary = Omit<GenerationRun, 'prompt' | 'raw_response' | 'citations' | 'responses'>;
+
+// Outcome of re-parsing one archived response
+export interface ReparsedResponse {
+  provider: string;
+  model: string;
+  events: CreateMarketEvent[];
+  rejected: RejectedEvent[];
+  error?: string; // The response couldn't be parsed at all
+}
+
+// Result of POST /api/generation-runs/:id/reparse
+export interface GenerationRunReparse {
+  runId: string;
+  week_start: string;
+  parsed: number;
+  rejected: number;
+  responses: ReparsedResponse[];
+}
+
+// Outcome of generating and storing a week, as returned by the API and stored as a job result
+export interface WeekGenerationSummary {
+  runId: string | null; // null when the run couldn't be logged
+  generated: number;
+  created: number;
+  updated: number; // Stored events that gained citations from a duplicate
+  skipped: number;
+  validation: GenerationReport;
+  heldBack: CreateMarketEvent[];
+  usage: UsageEntry[];
+  events: MarketEvent[];
+}
+
+// Result of a preview (dry-run) job: candidates annotated with what storing them would do.
+// Nothing is written until candidates are committed through POST /api/market-events/preview/:id/commit.
+export interface GenerationPreview {
+  runId: string | null;
+  week_start: string | null;
+  candidates: EventPreview[];
+  heldBack: CreateMarketEvent[];
+  validation: GenerationReport;
+  usage: UsageEntry[];
+}
+
+// Result of a clear-regenerate job: what changed in the week
+export interface WeekRegeneration {
+  runId: string | null;
+  diff: WeekDiff;
+  heldBack: CreateMarketEvent[];
+  validation: GenerationReport;
+  usage: UsageEntry[];
+}
+
+// Result of a refresh job: what changed in the week's stored events, each change with its reason and sources
+export interface WeekRefresh {
+  runId: string | null;
+  week_start: string | null; // YYYY-MM-DD
+  changes: EventChange[];
+  unchanged: number;
+  skipped: number; // Newly reported events that turned out to be stored already
+  validation: GenerationReport;
+  usage: UsageEntry[];
+}
+
+// Outcome of one week of a range generation
+export interface RangeWeekResult {
+  week_start: string; // YYYY-MM-DD (Sunday)
+  status: 'succeeded' | 'failed' | 'skipped';
+  runId?: string | null;
+  created?: number;
+  skipped?: number; // Duplicates skipped while storing
+  existing?: number; // Events already stored, for weeks skipped because of them
+  error?: string;
+}
+
+// Result of a generate-range job, also reported as progress data while it runs
+export interface RangeGeneration {
+  from: string;
+  to: string;
+  weeks: RangeWeekResult[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
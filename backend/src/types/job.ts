@@ -0,0 +1,43 @@
+// Background jobs, persisted in generation_jobs so they survive a backend restart
+
+export const JOB_KINDS = ['generate-week', 'preview-week', 'regenerate-week', 'generate-range', 'refresh-week'] as const;
+export type JobKind = typeof JOB_KINDS[number];
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobProgress {
+  phase: string; // e.g. "generating", "storing"
+  message: string;
+  completed?: number; // Steps done out of total, when the job knows them
+  total?: number;
+  data?: Record<string, unknown>; // Phase-specific details (provider, search query, rejected event, ...)
+  at?: string; // ISO timestamp
+}
+
+export interface Job<TParams = Record<string, unknown>, TResult = unknown> {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  params: TParams;
+  progress: JobProgress | null;
+  result: TResult | null;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  started_at: string | null;
+  heartbeat_at: string | null; // Refreshed while running, so jobs of a crashed process can be picked up again
+  finished_at: string | null;
+}
+
+// Parameters of generate-week, preview-week, regenerate-week and refresh-week jobs
+export interface GenerateWeekJobParams {
+  weekStart?: string; // ISO date, current week when missing
+}
+
+// Parameters of a generate-range job
+export interface GenerateRangeJobParams {
+  from: string; // YYYY-MM-DD, the week containing it is the first generated
+  to: string; // YYYY-MM-DD, inclusive
+  force?: boolean; // Generate weeks that already have events too
+  concurrency?: number; // Weeks generated at once
+}
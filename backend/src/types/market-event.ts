@@ -1,30 +1,240 @@
 import { z } from 'zod';
+import { UsageEntry } from './usage';
+import { PromptRef } from './prompt-template';
+import { EVENT_STATUSES } from '../utils/event-status';
 
 // Zod schemas for runtime validation
+
+// Where ensemble providers disagreed on a merged event
+export const ConsensusSchema = z.object({
+  providers: z.array(z.string()), // Providers that reported the event
+  disagreements: z.array(z.object({
+    field: z.string(),
+    values: z.record(z.string(), z.string()), // Provider -> reported value
+  })),
+});
+
 export const MarketEventSchema = z.object({
   id: z.string().uuid().optional(),
   date: z.string(), // Date in format like "November 24 2025" or "November 24-29 2025"
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Parsed from date, YYYY-MM-DD
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Same as start_date for single-day events
+  release_time: z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/).nullable().optional(), // Local time in timezone
+  timezone: z.string().nullable().optional(), // IANA zone, e.g. "America/New_York"
+  all_day: z.boolean().optional(), // No release time known
   event: z.string(),
   type: z.enum(['Economic', 'Fed', 'Crypto', 'Retail/Geopolitical', 'Holiday', 'Geopolitical', 'Corporate']), // Specific event types supported by database
   description: z.string(),
   significance: z.enum(['High', 'Medium', 'Low']),
   market_sentiment: z.enum(['Bullish', 'Bearish', 'Neutral', 'Mixed']),
-  citations: z.array(z.string().url()).optional(), // Array of citation URLs
+  status: z.enum(EVENT_STATUSES).optional(), // Defaults to scheduled, see utils/event-status for the lifecycle
+  citations: z.array(z.string().url()).optional(), // Citation URLs supporting this specific event
+  unsourced: z.boolean().optional(), // True when no source could be attributed to the event
+  confidence: z.number().min(0).max(1).optional(), // Ensemble agreement score
+  consensus: ConsensusSchema.optional(),
+  prompt_name: z.string().optional(), // Prompt template that generated the event
+  prompt_version: z.number().int().nonnegative().optional(), // Version of that template (0 = built-in default)
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 });
 
+// Shape of each event as returned by the AI (camelCase sentiment), derived from MarketEventSchema.
+// Used both to validate responses and to build the JSON schema sent to providers with structured output.
+export const AIMarketEventSchema = z.object({
+  date: MarketEventSchema.shape.date.min(1),
+  event: MarketEventSchema.shape.event.min(1),
+  type: MarketEventSchema.shape.type,
+  description: MarketEventSchema.shape.description.min(1),
+  significance: MarketEventSchema.shape.significance,
+  marketSentiment: MarketEventSchema.shape.market_sentiment,
+  sources: z.array(z.string()).default([]), // URLs the model used for this event
+});
+
+export const AIMarketEventsResponseSchema = z.object({
+  events: z.array(AIMarketEventSchema),
+});
+
+// The AI's verdict on a stored event when re-verifying a week (daily refresh). Every field is required,
+// null when it didn't change, so providers with strict structured output accept the schema.
+export const AIEventCheckSchema = z.object({
+  ref: z.number().int(), // Number of the stored event in the prompt
+  status: z.enum(['unchanged', 'updated', 'postponed', 'cancelled']),
+  date: z.string().nullable(), // New date when rescheduled
+  description: z.string().nullable(),
+  significance: MarketEventSchema.shape.significance.nullable(),
+  marketSentiment: MarketEventSchema.shape.market_sentiment.nullable(),
+  reason: z.string(), // What changed and why, empty when unchanged
+  sources: z.array(z.string()), // URLs supporting the change
+});
+
+export const AIWeekRefreshResponseSchema = z.object({
+  checks: z.array(AIEventCheckSchema),
+  newEvents: z.array(AIMarketEventSchema), // Announced since the week was generated
+});
+
 // TypeScript types inferred from schemas
 export type MarketEvent = z.infer<typeof MarketEventSchema>;
 export type CreateMarketEvent = Omit<MarketEvent, 'id' | 'created_at' | 'updated_at'>;
 export type UpdateMarketEvent = Partial<CreateMarketEvent>;
+export type AIMarketEvent = z.infer<typeof AIMarketEventSchema>;
+export type Consensus = z.infer<typeof ConsensusSchema>;
+export type AIEventCheck = z.infer<typeof AIEventCheckSchema>;
+
+// Result of storing a batch of events. Duplicates of stored events aren't inserted: their new citations
+// are merged into the stored event (updated), or they are skipped when they add nothing.
+export interface CreateEventsResult {
+  created: MarketEvent[];
+  updated: MarketEvent[]; // Stored events that gained citations from a duplicate
+  skipped: number;
+  duplicates: DuplicateEvent[]; // Every duplicate, updated or skipped, with the stored event it matched
+}
+
+export interface DuplicateEvent {
+  event: string;
+  date: string;
+  existingId: string; // Stored event it duplicates
+  existingEvent: string; // Name of that stored event
+  score: number; // Name similarity, 1 = same name after normalization
+  citationsAdded: number; // Citations merged into the stored event, 0 when skipped
+}
+
+// What storing a candidate event would do: insert it, skip it as a duplicate of a stored event,
+// or insert it next to a stored event that looks like the same release
+export type PreviewStatus = 'new' | 'duplicate' | 'conflicting';
+
+export interface EventConflict {
+  existingId: string;
+  event: string;
+  date: string;
+  similarity: number; // Name similarity, 1 = same name
+  sameDates: boolean; // Whether the stored event covers the same days
+}
+
+export interface EventPreview {
+  index: number; // Position in the preview, used to pick candidates to commit
+  status: PreviewStatus;
+  event: CreateMarketEvent;
+  existingId?: string; // Stored event a duplicate matches
+  score?: number; // Name similarity to that stored event
+  conflicts: EventConflict[];
+}
+
+// Difference between a week's stored events and a fresh generation of it
+export interface EventFieldChange {
+  field: keyof CreateMarketEvent;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ChangedEvent {
+  id: string; // Stored event that is updated in place
+  event: string;
+  changes: EventFieldChange[];
+  update: UpdateMarketEvent; // Values written to the stored event
+}
+
+export interface WeekDiff {
+  week_start: string; // YYYY-MM-DD
+  week_end: string;
+  added: CreateMarketEvent[];
+  removed: MarketEvent[];
+  changed: ChangedEvent[];
+  unchanged: number;
+}
+
+// A verified change to a stored event found by the daily refresh, validated against the stored event
+export interface EventCheck {
+  eventId: string;
+  status: Exclude<AIEventCheck['status'], 'unchanged'>;
+  update: UpdateMarketEvent; // Only the fields that changed
+  reason: string;
+  citations: string[];
+}
+
+export type EventChangeKind = 'updated' | 'added' | 'postponed' | 'cancelled';
+
+// Change made to an event by a refresh, kept in event_changes with its reason and sources
+export interface EventChange {
+  id: string;
+  event_id: string;
+  run_id: string | null; // Generation run that made the change
+  kind: EventChangeKind;
+  changes: EventFieldChange[];
+  reason: string;
+  citations: string[];
+  created_at: string;
+}
+
+export interface RejectedEvent {
+  event: unknown;
+  errors: string[];
+}
+
+export interface GenerationReport {
+  accepted: number; // Valid on the first pass
+  repaired: number; // Valid after sending validation errors back to the model
+  rejected: number;
+  rejections: RejectedEvent[];
+  providers?: EnsembleProviderReport[]; // Per-member outcome of an ensemble run
+}
+
+export interface EnsembleProviderReport {
+  provider: string;
+  model: string;
+  events: number;
+  error?: string;
+}
+
+export interface GenerationResult {
+  events: CreateMarketEvent[];
+  heldBack?: CreateMarketEvent[]; // Low-agreement ensemble events, not published automatically
+  report: GenerationReport;
+  usage?: UsageEntry[]; // Tokens and cost per provider/model for the run
+  prompt?: PromptRef; // Template version the run was generated with
+}
+
+// Outcome of re-verifying a week: changes to stored events, plus newly announced events in events
+export interface RefreshResult extends GenerationResult {
+  checks: EventCheck[];
+  unchanged: number; // Stored events confirmed as they are
+}
+
+// Query contract of GET /api/market-events
+export const EVENT_SORT_FIELDS = ['date', 'significance', 'name', 'type', 'sentiment', 'created_at'] as const;
+export type EventSortField = typeof EVENT_SORT_FIELDS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export interface EventsQuery {
+  limit?: number;
+  offset?: number; // Ignored when cursor is set
+  cursor?: string; // nextCursor/prevCursor of a previous page with the same sort
+  type?: MarketEvent['type'][]; // Any of
+  significance?: MarketEvent['significance'][];
+  sentiment?: MarketEvent['market_sentiment'][];
+  status?: NonNullable<MarketEvent['status']>[];
+  date?: string; // Substring of the free-text date (legacy)
+  from?: string; // YYYY-MM-DD, events ending on or after
+  to?: string; // YYYY-MM-DD, events starting on or before
+  has_citations?: boolean;
+  sort?: EventSortField; // Default created_at
+  direction?: SortOrder; // Default desc for created_at, asc otherwise
+}
+
+export interface EventsPage {
+  events: MarketEvent[];
+  total: number; // All events matching the filters
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
 
 // API response types
 export interface MarketEventsResponse {
   events: MarketEvent[];
   total: number;
-  page: number;
+  page?: number; // Offset pagination only
   limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
 
 export interface ApiResponse<T> {
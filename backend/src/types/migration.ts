@@ -0,0 +1,17 @@
+// A versioned SQL file from backend/migrations (NNN_name.sql)
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null; // null when the file has no "-- migrate:down" section and can't be rolled back
+  checksum: string; // sha256 of the up section
+}
+
+// A migration and whether the database has it
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null; // null while pending
+  modified: boolean; // Applied, but the file's up section changed afterwards
+  missing: boolean; // Applied, but the file is gone from backend/migrations
+}
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { findUnknownVariables, PROMPT_VARIABLES } from '../utils/prompt-template';
+
+// A saved version of a named prompt template
+export interface PromptTemplate {
+  id: string;
+  name: string; // e.g. "market-events"
+  version: number; // 0 is the built-in default that ships with the code
+  template: string; // Text with {{variable}} placeholders
+  description: string | null; // What changed in this version
+  is_active: boolean; // The version used for generation
+  created_at: string;
+}
+
+// Which template version produced a generation run or event
+export interface PromptRef {
+  name: string;
+  version: number;
+}
+
+export const CreatePromptTemplateSchema = z.object({
+  template: z.string().min(1).superRefine((template, ctx) => {
+    const unknown = findUnknownVariables(template);
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Unknown variables: ${unknown.join(', ')} (available: ${PROMPT_VARIABLES.join(', ')})`
+      });
+    }
+  }),
+  description: z.string().optional(),
+  activate: z.boolean().default(true), // Make the new version the one used for generation
+});
+
+export type CreatePromptTemplate = z.infer<typeof CreatePromptTemplateSchema>;
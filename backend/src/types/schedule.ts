@@ -0,0 +1,26 @@
+// Named cron schedules run by the scheduler, persisted in scheduled_jobs so runs missed while the
+// backend was down are caught up and only one backend instance runs each occurrence
+
+export type ScheduleRunStatus = 'succeeded' | 'failed';
+
+export interface ScheduledJob {
+  name: string; // e.g. "weekly-generation"
+  cron: string;
+  paused: boolean; // Paused schedules skip their occurrences but can still be triggered on demand
+  next_run_at: string | null; // Next occurrence; a past value on boot means a run was missed
+  last_run_at: string | null; // When the last run started
+  last_finished_at: string | null;
+  last_status: ScheduleRunStatus | null;
+  last_result: string | null; // Short summary of what the last run did
+  last_error: string | null;
+  locked_by: string | null; // Instance running the job right now
+  locked_until: string | null; // The lock is free again after this, even if its holder crashed
+  created_at: string;
+  updated_at: string;
+}
+
+// A schedule as listed by the admin API
+export interface ScheduleStatus extends ScheduledJob {
+  description: string;
+  running: boolean; // An instance holds the lock
+}
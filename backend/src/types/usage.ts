@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+// Token and tool usage of one provider/model during a generation run
+export interface UsageEntry {
+  provider: string;
+  model: string;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  reasoning_tokens: number;
+  tool_calls: number;
+  search_calls: number;
+  cost_usd: number | null; // null when the model has no entry in the rate table
+}
+
+export interface UsageRecord extends UsageEntry {
+  id: string;
+  week_start: string; // YYYY-MM-DD
+  created_at: string;
+}
+
+// USD rates for one model: per million tokens, and per tool invocation
+export const ModelPricingSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+  searchCall: z.number().nonnegative().default(0),
+});
+
+export const PricingTableSchema = z.record(z.string(), ModelPricingSchema);
+
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+export type PricingTable = z.infer<typeof PricingTableSchema>;
+
+export interface CostBreakdown {
+  key: string; // Provider, model or week start depending on the grouping
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  tool_calls: number;
+  search_calls: number;
+  cost_usd: number;
+  unpriced_requests: number; // Requests for models missing from the rate table
+}
+
+export interface CostSummary {
+  from?: string;
+  to?: string;
+  total: CostBreakdown;
+  byProvider: CostBreakdown[];
+  byModel: CostBreakdown[];
+  byWeek: CostBreakdown[];
+  budget: {
+    monthlyLimitUsd: number | null;
+    monthToDateUsd: number;
+    remainingUsd: number | null;
+  };
+}
@@ -0,0 +1,80 @@
+import { formatIsoDate, parseEventDates, parseReleaseTime } from './event-dates';
+
+const reference = new Date(2025, 10, 23); // Sunday, November 23 2025
+
+describe('parseEventDates', () => {
+  it('parses a single day with a year', () => {
+    expect(parseEventDates('November 24 2025')).toEqual({
+      start_date: '2025-11-24',
+      end_date: '2025-11-24',
+      release_time: null,
+      timezone: null,
+      all_day: true
+    });
+  });
+
+  it('ignores weekdays, ordinals and commas', () => {
+    expect(parseEventDates('Monday, December 1st, 2025')).toMatchObject({ start_date: '2025-12-01', end_date: '2025-12-01' });
+  });
+
+  it('parses ranges within and across months', () => {
+    expect(parseEventDates('November 24-29 2025')).toMatchObject({ start_date: '2025-11-24', end_date: '2025-11-29' });
+    expect(parseEventDates('Nov 30 - Dec 2, 2025')).toMatchObject({ start_date: '2025-11-30', end_date: '2025-12-02' });
+  });
+
+  it('starts a range crossing new year in the previous year', () => {
+    expect(parseEventDates('December 29 - January 2 2026')).toMatchObject({ start_date: '2025-12-29', end_date: '2026-01-02' });
+  });
+
+  it('parses day-first, ISO and US numeric dates', () => {
+    expect(parseEventDates('3-5 December 2025')).toMatchObject({ start_date: '2025-12-03', end_date: '2025-12-05' });
+    expect(parseEventDates('2025-12-10 to 2025-12-11')).toMatchObject({ start_date: '2025-12-10', end_date: '2025-12-11' });
+    expect(parseEventDates('12/10/2025')).toMatchObject({ start_date: '2025-12-10', end_date: '2025-12-10' });
+  });
+
+  it('infers a missing year from the reference date', () => {
+    expect(parseEventDates('December 1', { referenceDate: reference })).toMatchObject({ start_date: '2025-12-01' });
+    expect(parseEventDates('January 2', { referenceDate: reference })).toMatchObject({ start_date: '2026-01-02' });
+  });
+
+  it('takes the release time from the date, else from the description', () => {
+    expect(parseEventDates('December 10 2025 8:30 AM ET')).toMatchObject({
+      release_time: '08:30',
+      timezone: 'America/New_York',
+      all_day: false
+    });
+    expect(parseEventDates('December 10 2025', { description: 'Released at 14:00 GMT' })).toMatchObject({
+      release_time: '14:00',
+      timezone: 'Europe/London',
+      all_day: false
+    });
+  });
+
+  it('leaves multi-day events without a release time', () => {
+    expect(parseEventDates('December 1-3 2025', { description: 'Opens at 9:00 AM ET' })).toMatchObject({
+      release_time: null,
+      all_day: true
+    });
+  });
+
+  it('returns null for dates it cannot read or that do not exist', () => {
+    expect(parseEventDates('Sometime next week')).toBeNull();
+    expect(parseEventDates('February 30 2025')).toBeNull();
+  });
+});
+
+describe('parseReleaseTime', () => {
+  it('does not take bare numbers for times', () => {
+    expect(parseReleaseTime('PMI expected at 48.5 in 2025')).toBeNull();
+  });
+
+  it('defaults the zone to US Eastern', () => {
+    expect(parseReleaseTime('2pm')).toEqual({ time: '14:00', timezone: 'America/New_York' });
+  });
+});
+
+describe('formatIsoDate', () => {
+  it('formats the local date', () => {
+    expect(formatIsoDate(new Date(2025, 0, 5))).toBe('2025-01-05');
+  });
+});
@@ -0,0 +1,245 @@
+// Parse the free-text dates the AI produces ("December 1 2025", "Nov 30 - Dec 2, 2025", "Monday, December 1st")
+// into structured start/end dates and an optional release time.
+// Shared with the Next.js app via @backend/utils/event-dates, so keep it free of third-party imports.
+
+export interface EventDates {
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, equal to start_date for single-day events
+  release_time: string | null; // HH:MM (24h) in timezone
+  timezone: string | null; // IANA zone of release_time
+  all_day: boolean; // No release time known
+}
+
+// Release times without a zone follow the convention of US economic calendars
+export const DEFAULT_EVENT_TIMEZONE = 'America/New_York';
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const TIMEZONE_ABBREVIATIONS: Record<string, string> = {
+  et: 'America/New_York',
+  eastern: 'America/New_York',
+  est: 'America/New_York',
+  edt: 'America/New_York',
+  ct: 'America/Chicago',
+  central: 'America/Chicago',
+  cst: 'America/Chicago',
+  cdt: 'America/Chicago',
+  pt: 'America/Los_Angeles',
+  pacific: 'America/Los_Angeles',
+  pst: 'America/Los_Angeles',
+  pdt: 'America/Los_Angeles',
+  gmt: 'Europe/London',
+  bst: 'Europe/London',
+  uk: 'Europe/London',
+  utc: 'UTC',
+  cet: 'Europe/Berlin',
+  cest: 'Europe/Berlin',
+  jst: 'Asia/Tokyo',
+  hkt: 'Asia/Hong_Kong',
+  sgt: 'Asia/Singapore',
+  aest: 'Australia/Sydney',
+  aedt: 'Australia/Sydney'
+};
+
+// "jan", "january", "sept" ...
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+// Month Day [Year] [- [Month] Day] [Year]
+const MONTH_FIRST = new RegExp(`^${MONTH_PATTERN} (\\d{1,2})(?: (\\d{4}))?(?: - (?:${MONTH_PATTERN} )?(\\d{1,2})(?: (\\d{4}))?)?(?: (\\d{4}))?\\b`);
+// Day [- Day] Month Year
+const DAY_FIRST = new RegExp(`^(\\d{1,2})(?: - (\\d{1,2}))? ${MONTH_PATTERN}(?: (\\d{4}))?\\b`);
+// YYYY-MM-DD [to YYYY-MM-DD]
+const ISO = /^(\d{4})-(\d{2})-(\d{2})(?:\s*(?:to|through|–|—|\/)\s*(\d{4})-(\d{2})-(\d{2}))?/;
+// MM/DD/YYYY
+const US_NUMERIC = /^(\d{1,2})\/(\d{1,2})\/(\d{4})\b/;
+
+// 8:30 AM ET, 2pm EST, 14:00 GMT, 10:00 a.m. (America/New_York)
+const TIME = /\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?(?:\s*\(?([A-Za-z]+\/[A-Za-z_]+|[A-Za-z]{2,7})\)?)?(?![\w/])/gi;
+
+const pad = (value: number): string => (value < 10 ? `0${value}` : String(value));
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month, day));
+  // Reject impossible dates such as February 30
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month + 1)}-${pad(day)}`;
+};
+
+const monthIndex = (name: string): number => {
+  return MONTHS.findIndex(month => month.startsWith(name.slice(0, 3)));
+};
+
+const isValidTimezone = (zone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Lowercase and strip weekdays, ordinals and punctuation so the variants reduce to a few shapes
+ */
+const normalizeDateText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/\b(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s*/g, '')
+    .replace(/(\d)(st|nd|rd|th)\b/g, '$1')
+    .replace(/\s*(?:–|—|-|\bto\b|\bthrough\b|\bthru\b)\s*/g, ' - ')
+    .replace(/[.,]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Year closest to the reference date for a date written without one
+ */
+const inferYear = (month: number, day: number, reference: Date): number => {
+  const year = reference.getFullYear();
+  const candidates = [year - 1, year, year + 1];
+  const distance = (candidate: number) => Math.abs(Date.UTC(candidate, month, day) - reference.getTime());
+  return candidates.reduce((best, candidate) => distance(candidate) < distance(best) ? candidate : best);
+};
+
+const parseDateRange = (text: string, reference: Date): { start: string; end: string } | null => {
+  const normalized = normalizeDateText(text);
+
+  const iso = text.trim().match(ISO);
+  if (iso) {
+    const start = toIsoDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    const end = iso[4] ? toIsoDate(Number(iso[4]), Number(iso[5]) - 1, Number(iso[6])) : start;
+    return start && end ? { start, end } : null;
+  }
+
+  const numeric = text.trim().match(US_NUMERIC);
+  if (numeric) {
+    const date = toIsoDate(Number(numeric[3]), Number(numeric[1]) - 1, Number(numeric[2]));
+    return date ? { start: date, end: date } : null;
+  }
+
+  let startMonth: number;
+  let startDay: number;
+  let endMonth: number;
+  let endDay: number;
+  let startYear: number | undefined;
+  let endYear: number | undefined;
+
+  const monthFirst = normalized.match(MONTH_FIRST);
+  const dayFirst = monthFirst ? null : normalized.match(DAY_FIRST);
+
+  if (monthFirst) {
+    const [, month, day, yearAfterStart, rangeMonth, rangeDay, yearAfterRange, trailingYear] = monthFirst;
+    startMonth = monthIndex(month!);
+    startDay = Number(day);
+    endMonth = rangeMonth ? monthIndex(rangeMonth) : startMonth;
+    endDay = rangeDay ? Number(rangeDay) : startDay;
+    endYear = Number(yearAfterRange || trailingYear || yearAfterStart) || undefined;
+    startYear = yearAfterStart ? Number(yearAfterStart) : undefined;
+  } else if (dayFirst) {
+    const [, day, rangeDay, month, year] = dayFirst;
+    startMonth = endMonth = monthIndex(month!);
+    startDay = Number(day);
+    endDay = rangeDay ? Number(rangeDay) : startDay;
+    startYear = endYear = year ? Number(year) : undefined;
+  } else {
+    return null;
+  }
+
+  if (endYear === undefined) {
+    endYear = inferYear(endMonth, endDay, reference);
+  }
+  if (startYear === undefined) {
+    // "December 29 - January 2 2026" starts in the previous year
+    startYear = startMonth > endMonth ? endYear - 1 : endYear;
+  }
+
+  const start = toIsoDate(startYear, startMonth, startDay);
+  const end = toIsoDate(endYear, endMonth, endDay);
+  if (!start || !end || end < start) {
+    return null;
+  }
+
+  return { start, end };
+};
+
+/**
+ * Find the first clock time in text, with its zone if one is given
+ */
+export const parseReleaseTime = (text: string): { time: string; timezone: string } | null => {
+  const pattern = new RegExp(TIME.source, 'gi'); // Fresh lastIndex per call
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const [, hourText, minuteText, meridiem, zoneText] = match;
+    // A bare number ("48.5", "2025") is not a time: require minutes or AM/PM
+    if (minuteText === undefined && !meridiem) {
+      continue;
+    }
+
+    let hour = Number(hourText);
+    const minute = minuteText ? Number(minuteText) : 0;
+    if (meridiem) {
+      if (hour < 1 || hour > 12) {
+        continue;
+      }
+      const pm = meridiem.toLowerCase().startsWith('p');
+      hour = (hour % 12) + (pm ? 12 : 0);
+    }
+    if (hour > 23 || minute > 59) {
+      continue;
+    }
+
+    let timezone = DEFAULT_EVENT_TIMEZONE;
+    if (zoneText) {
+      const zone = zoneText.includes('/') ? zoneText : TIMEZONE_ABBREVIATIONS[zoneText.toLowerCase()];
+      if (zone && isValidTimezone(zone)) {
+        timezone = zone;
+      }
+    }
+
+    return { time: `${pad(hour)}:${pad(minute)}`, timezone };
+  }
+
+  return null;
+};
+
+/**
+ * Parse an event's date text into structured dates. The release time is taken from the date text,
+ * else from the description ("released at 8:30 AM ET"). Years missing from the text are inferred
+ * from referenceDate (typically the week being generated). Returns null when the date can't be read.
+ */
+export const parseEventDates = (
+  date: string,
+  options: { description?: string; referenceDate?: Date } = {}
+): EventDates | null => {
+  const range = parseDateRange(date, options.referenceDate || new Date());
+  if (!range) {
+    return null;
+  }
+
+  // Times only make sense for a single release, not a multi-day conference
+  const release = range.start === range.end
+    ? parseReleaseTime(date) || (options.description ? parseReleaseTime(options.description) : null)
+    : null;
+
+  return {
+    start_date: range.start,
+    end_date: range.end,
+    release_time: release?.time ?? null,
+    timezone: release?.timezone ?? null,
+    all_day: !release
+  };
+};
+
+/**
+ * Format a local date as YYYY-MM-DD for comparisons against start_date/end_date
+ */
+export const formatIsoDate = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
@@ -0,0 +1,52 @@
+import { MatchableEvent, eventNameScore, findDuplicate } from './event-matching';
+
+const event = (overrides: Partial<MatchableEvent>): MatchableEvent => ({
+  event: 'CPI',
+  date: 'December 10 2025',
+  type: 'Economic',
+  start_date: '2025-12-10',
+  end_date: '2025-12-10',
+  ...overrides
+});
+
+describe('eventNameScore', () => {
+  it('scores names equal but for case as identical', () => {
+    expect(eventNameScore('FOMC Meeting', 'fomc meeting')).toBe(1);
+  });
+
+  it('matches spelled-out releases with their acronym and ignores stopwords', () => {
+    expect(eventNameScore('US Consumer Price Index (CPI) Report', 'CPI')).toBe(1);
+    expect(eventNameScore('U.S. Gross Domestic Product', 'GDP Release')).toBe(1);
+  });
+
+  it('scores unrelated names as 0', () => {
+    expect(eventNameScore('CPI', 'Retail Sales')).toBe(0);
+  });
+});
+
+describe('findDuplicate', () => {
+  it('finds the most similar stored event of the same type on overlapping days', () => {
+    const close = event({ event: 'Core CPI' });
+    const exact = event({ event: 'Consumer Price Index' });
+    expect(findDuplicate(event({}), [close, exact])).toEqual({ match: exact, score: 1 });
+  });
+
+  it('ignores events of another type or on other days', () => {
+    expect(findDuplicate(event({}), [event({ type: 'Fed' })])).toBeNull();
+    expect(findDuplicate(event({}), [event({ start_date: '2025-12-11', end_date: '2025-12-11' })])).toBeNull();
+  });
+
+  it('matches a single day inside a stored range', () => {
+    const stored = event({ event: 'CPI', start_date: '2025-12-09', end_date: '2025-12-12' });
+    expect(findDuplicate(event({}), [stored])?.match).toBe(stored);
+  });
+
+  it('compares date text when dates were not parsed', () => {
+    const stored = event({ date: 'December 10, 2025', start_date: undefined, end_date: undefined });
+    expect(findDuplicate(event({ start_date: undefined, end_date: undefined }), [stored])?.match).toBe(stored);
+  });
+
+  it('rejects names below the duplicate threshold', () => {
+    expect(findDuplicate(event({ event: 'CPI Inflation Expectations Survey' }), [event({})])).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { CreateMarketEvent } from '../types/market-event';
+
+// Helpers for deciding whether two generated events describe the same real-world release
+
+// Generated and stored events of the same type on overlapping days at least this similar are one event
+export const DUPLICATE_SIMILARITY = 0.75;
+
+// Words that carry no identity for an event name ("US CPI Report" vs "CPI")
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'of', 'for', 'and', 'on', 'in', 'to',
+  'us', 'report', 'release', 'data', 'announcement'
+]);
+
+// Spelled-out names of releases better known by their acronym ("Consumer Price Index (CPI)" vs "CPI")
+const ACRONYMS: [RegExp, string][] = [
+  [/\bconsumer price index\b/g, 'cpi'],
+  [/\bproducer price index\b/g, 'ppi'],
+  [/\bpersonal consumption expenditures?\b/g, 'pce'],
+  [/\bgross domestic product\b/g, 'gdp'],
+  [/\bfederal open market committee\b/g, 'fomc'],
+  [/\bpurchasing managers? index\b/g, 'pmi'],
+  [/\bnon ?farm payrolls?\b/g, 'nfp']
+];
+
+// The fields the duplicate matcher looks at
+export type MatchableEvent = Pick<CreateMarketEvent, 'event' | 'date' | 'type' | 'start_date' | 'end_date'>;
+
+export interface EventMatch<T> {
+  match: T;
+  score: number; // Name similarity, 1 = same name after normalization
+}
+
+/**
+ * Lowercase, strip punctuation, shorten known release names to their acronym, drop stopwords,
+ * and return the remaining tokens
+ */
+export const normalizeEventName = (name: string): string[] => {
+  const text = ACRONYMS.reduce(
+    (normalized, [phrase, acronym]) => normalized.replace(phrase, acronym),
+    name.toLowerCase().replace(/u\.s\./g, 'us').replace(/[^a-z0-9\s]/g, ' ')
+  );
+
+  return text
+    .split(/\s+/)
+    .filter(token => token && !STOPWORDS.has(token));
+};
+
+/**
+ * Dice coefficient over the normalized name tokens (0 = unrelated, 1 = identical)
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const tokensA = new Set(normalizeEventName(a));
+  const tokensB = new Set(normalizeEventName(b));
+
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+
+  return (2 * shared) / (tokensA.size + tokensB.size);
+};
+
+/**
+ * Normalize a free-text date ("December 10, 2025" vs "December 10 2025")
+ */
+export const normalizeDateText = (date: string): string => {
+  return date.toLowerCase().replace(/,/g, '').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Name similarity where names equal but for case count as identical
+ */
+export const eventNameScore = (a: string, b: string): number => {
+  return a.toLowerCase() === b.toLowerCase() ? 1 : nameSimilarity(a, b);
+};
+
+/**
+ * Whether two events share at least one day; events without parsed dates compare their date text
+ */
+export const datesOverlap = (a: MatchableEvent, b: MatchableEvent): boolean => {
+  if (a.start_date && b.start_date) {
+    return a.start_date <= (b.end_date || b.start_date) && b.start_date <= (a.end_date || a.start_date);
+  }
+  return normalizeDateText(a.date) === normalizeDateText(b.date);
+};
+
+/**
+ * The stored event that event duplicates: same type, overlapping days and the most similar name,
+ * at least DUPLICATE_SIMILARITY. null when none qualifies.
+ */
+export const findDuplicate = <T extends MatchableEvent>(event: MatchableEvent, stored: T[]): EventMatch<T> | null => {
+  let best: EventMatch<T> | null = null;
+
+  stored.forEach(candidate => {
+    if (candidate.type !== event.type || !datesOverlap(candidate, event)) {
+      return;
+    }
+    const score = eventNameScore(candidate.event, event.event);
+    if (score >= DUPLICATE_SIMILARITY && (!best || score > best.score)) {
+      best = { match: candidate, score };
+    }
+  });
+
+  return best;
+};
+
+/**
+ * The stored citations followed by the new ones they don't include yet
+ */
+export const mergeCitations = (stored: string[] = [], incoming: string[] = []): string[] => {
+  return incoming.reduce((merged, url) => (merged.indexOf(url) === -1 ? merged.concat(url) : merged), stored);
+};
@@ -0,0 +1,36 @@
+import { EVENT_STATUSES, canTransition, effectiveStatus } from './event-status';
+
+describe('canTransition', () => {
+  it('always allows keeping the same status', () => {
+    EVENT_STATUSES.forEach(status => expect(canTransition(status, status)).toBe(true));
+  });
+
+  it('follows the lifecycle', () => {
+    expect(canTransition('scheduled', 'confirmed')).toBe(true);
+    expect(canTransition('confirmed', 'completed')).toBe(true);
+    expect(canTransition('postponed', 'scheduled')).toBe(true);
+    expect(canTransition('confirmed', 'scheduled')).toBe(false);
+    expect(canTransition('postponed', 'completed')).toBe(false);
+  });
+
+  it('treats cancelled and completed events as settled', () => {
+    EVENT_STATUSES
+      .filter(status => status !== 'cancelled')
+      .forEach(status => expect(canTransition('cancelled', status)).toBe(false));
+    EVENT_STATUSES
+      .filter(status => status !== 'completed')
+      .forEach(status => expect(canTransition('completed', status)).toBe(false));
+  });
+});
+
+describe('effectiveStatus', () => {
+  it('completes scheduled and confirmed events that have ended', () => {
+    expect(effectiveStatus(undefined, '2025-12-01', '2025-12-02')).toBe('completed');
+    expect(effectiveStatus('confirmed', '2025-12-01', '2025-12-02')).toBe('completed');
+  });
+
+  it('keeps postponed and ongoing events as they are', () => {
+    expect(effectiveStatus('postponed', '2025-12-01', '2025-12-02')).toBe('postponed');
+    expect(effectiveStatus('scheduled', '2025-12-02', '2025-12-02')).toBe('scheduled');
+  });
+});
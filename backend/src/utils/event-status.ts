@@ -0,0 +1,36 @@
+// Event status lifecycle: which status changes are allowed and when an event counts as completed.
+// Shared with the Next.js app via @backend/utils/event-status, so keep it free of third-party imports.
+
+export const EVENT_STATUSES = ['scheduled', 'confirmed', 'postponed', 'cancelled', 'completed'] as const;
+
+export type EventStatus = typeof EVENT_STATUSES[number];
+
+// Statuses an event can move to from each status. Cancelled and completed events are settled;
+// a postponed event goes back to scheduled (or confirmed) once it has a new date.
+export const EVENT_STATUS_TRANSITIONS: Record<EventStatus, readonly EventStatus[]> = {
+  scheduled: ['confirmed', 'postponed', 'cancelled', 'completed'],
+  confirmed: ['postponed', 'cancelled', 'completed'],
+  postponed: ['scheduled', 'confirmed', 'cancelled'],
+  cancelled: [],
+  completed: []
+};
+
+// Statuses that become completed once the event's end date has passed. Postponed events keep their
+// status: the date they were postponed from passing doesn't mean they took place.
+export const COMPLETABLE_STATUSES: readonly EventStatus[] = ['scheduled', 'confirmed'];
+
+/**
+ * Whether an event can move from one status to another; keeping the same status is always allowed
+ */
+export const canTransition = (from: EventStatus, to: EventStatus): boolean => {
+  return from === to || EVENT_STATUS_TRANSITIONS[from].indexOf(to) !== -1;
+};
+
+/**
+ * Status to show for an event on the given day (YYYY-MM-DD), for events the scheduled completion
+ * hasn't caught up with yet
+ */
+export const effectiveStatus = (status: EventStatus | undefined, endDate: string | undefined, today: string): EventStatus => {
+  const current = status || 'scheduled';
+  return endDate && endDate < today && COMPLETABLE_STATUSES.indexOf(current) !== -1 ? 'completed' : current;
+};
@@ -0,0 +1,28 @@
+import { EventCursor, InvalidCursorError, decodeCursor, encodeCursor } from './pagination';
+
+const cursor: EventCursor = {
+  sort: 'date',
+  direction: 'asc',
+  keys: ['2025-12-10', null, 'b3c1f6a2-0000-4000-8000-000000000000'],
+  backward: true
+};
+
+describe('encodeCursor / decodeCursor', () => {
+  it('round-trips a cursor through a URL-safe string', () => {
+    const encoded = encodeCursor(cursor);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(encoded, 'date', 'asc')).toEqual(cursor);
+  });
+
+  it('rejects a cursor issued for another sort order', () => {
+    const encoded = encodeCursor(cursor);
+    expect(() => decodeCursor(encoded, 'date', 'desc')).toThrow('Cursor was issued for a different sort order');
+    expect(() => decodeCursor(encoded, 'significance', 'asc')).toThrow(InvalidCursorError);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => decodeCursor('not a cursor', 'date', 'asc')).toThrow('Malformed cursor');
+    const wrongShape = Buffer.from(JSON.stringify({ sort: 'date' })).toString('base64url');
+    expect(() => decodeCursor(wrongShape, 'date', 'asc')).toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,47 @@
+import { EventSortField, SortOrder } from '../types/market-event';
+
+// Position in a sorted event list: the sort it belongs to and the sort key values of the row it points at
+export interface EventCursor {
+  sort: EventSortField;
+  direction: SortOrder;
+  keys: (string | number | null)[]; // Values of the sort columns followed by id
+  backward: boolean; // Page towards the start of the list (prevCursor)
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ */
+export const encodeCursor = (cursor: EventCursor): string => {
+  const payload = [cursor.sort, cursor.direction, cursor.keys, cursor.backward ? 1 : 0];
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Decode a cursor, checking it was issued for the sort order being requested
+ */
+export const decodeCursor = (value: string, sort: EventSortField, direction: SortOrder): EventCursor => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  if (!Array.isArray(payload) || payload.length !== 4 || !Array.isArray(payload[2])) {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  const [cursorSort, cursorDirection, keys, backward] = payload;
+  if (cursorSort !== sort || cursorDirection !== direction) {
+    throw new InvalidCursorError('Cursor was issued for a different sort order');
+  }
+
+  return { sort, direction, keys, backward: backward === 1 };
+};
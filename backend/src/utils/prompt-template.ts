@@ -0,0 +1,113 @@
+// Prompt templates with {{variable}} placeholders, shared with the Next.js app via @backend/utils/prompt-template.
+// Keep this module free of third-party imports so both packages can load it.
+
+export const MARKET_EVENTS_PROMPT = 'market-events';
+
+// Variables available to prompt templates
+export interface PromptVariables {
+  weekStart: string; // e.g. "December 1, 2025"
+  weekEnd: string;
+  categories: string; // Quoted, comma-separated event types
+  targetCount: string; // e.g. "10-15"
+}
+
+export const PROMPT_VARIABLES: readonly (keyof PromptVariables)[] = ['weekStart', 'weekEnd', 'categories', 'targetCount'];
+
+const DEFAULT_TARGET_COUNT = '10-15';
+
+// Built-in template, used until a version has been saved through the admin API
+export const DEFAULT_MARKET_EVENTS_TEMPLATE = `You are a financial analyst researching CURRENT market-moving events. Use web_search and x_search tools to find real-time information about significant events happening THIS WEEK ({{weekStart}} to {{weekEnd}}).
+
+RESEARCH INSTRUCTIONS:
+1. Use web_search to find official economic calendars, central bank announcements, corporate earnings, and geopolitical developments
+2. Use x_search to check recent Twitter discussions about market-moving events, breaking news, and analyst commentary
+3. Focus on events that will actually occur this week - not hypothetical future events
+4. Look for specific dates, times, and expected outcomes
+
+EVENT TYPES TO RESEARCH:
+- Economic data releases (GDP, inflation, employment, PMI, etc.)
+- Central bank meetings, rate decisions, and press conferences
+- Corporate earnings reports and guidance
+- Geopolitical developments, trade talks, conflicts
+- Regulatory announcements and policy changes
+- Major conferences, summits, or technological releases
+- Market holidays and closures
+
+For each event you find through research, provide:
+1. Date (exact date like "December 1 2025" or date range like "December 1-3 2025")
+2. Event name (official name)
+3. Type (descriptive category based on your research)
+4. Description & Potential Impact (what it is, when it happens, expected outcomes, market impact)
+5. Significance (High, Medium, Low based on historical market impact)
+6. Market Sentiment (Bullish, Bearish, Neutral, Mixed based on expected outcome)
+7. Sources (URLs of the pages you found that support this specific event, not every page you searched)
+
+Format your response as a valid JSON array. Use the tools to ensure accuracy and timeliness.
+
+Example format:
+[
+  {
+    "date": "December 1 2025",
+    "event": "US ISM Manufacturing PMI",
+    "type": "Economic",
+    "description": "Manufacturing activity indicator released at 10:00 AM ET. Expected 48.5 vs previous 47.8. Key gauge of US manufacturing health.",
+    "significance": "High",
+    "marketSentiment": "Mixed",
+    "sources": ["https://www.ismworld.org/supply-management-news-and-reports/reports/ism-report-on-business/"]
+  }
+]
+
+Valid event types: {{categories}}
+
+Generate {{targetCount}} events based on your research findings. Focus on events with confirmed dates this week.`;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Names of the placeholders used by a template that aren't known prompt variables
+ */
+export const findUnknownVariables = (template: string): string[] => {
+  const unknown = new Set<string>();
+  template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (!PROMPT_VARIABLES.includes(name as keyof PromptVariables)) {
+      unknown.add(name);
+    }
+    return placeholder;
+  });
+  return Array.from(unknown);
+};
+
+/**
+ * Substitute {{variable}} placeholders; unknown placeholders are left untouched
+ */
+export const renderPromptTemplate = (template: string, variables: PromptVariables): string => {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    return name in variables ? variables[name as keyof PromptVariables] : placeholder;
+  });
+};
+
+/**
+ * Variables for generating the events of the week starting at weekStart
+ */
+export const buildPromptVariables = (
+  weekStart: Date,
+  options: { categories: readonly string[]; targetCount?: string }
+): PromptVariables => {
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekStart.getDate() + 6);
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  return {
+    weekStart: formatDate(weekStart),
+    weekEnd: formatDate(weekEnd),
+    categories: options.categories.map(category => `"${category}"`).join(', '),
+    targetCount: options.targetCount || DEFAULT_TARGET_COUNT
+  };
+};
@@ -1,24 +1,33 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { Database } from '../types/database-types';
 
-const supabaseUrl = process.env.SUPABASE_URL!;
-const supabaseKey = process.env.SUPABASE_ANON_KEY!;
+let client: SupabaseClient<Database> | null = null;
 
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+// Created on first use, so the backend starts without Supabase settings when another storage backend is configured
+export const getSupabase = (): SupabaseClient<Database> => {
+  if (!client) {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_ANON_KEY;
 
-export const supabase = createClient<Database>(supabaseUrl, supabaseKey, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    client = createClient<Database>(supabaseUrl, supabaseKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
   }
-});
+
+  return client;
+};
 
 // Test connection function
 export const testSupabaseConnection = async (): Promise<boolean> => {
   try {
-    const { data, error } = await supabase
+    const { error } = await getSupabase()
       .from('market_events')
       .select('count')
       .limit(1);
@@ -34,3 +43,34 @@ export const testSupabaseConnection = async (): Promise<boolean> => {
     return false;
   }
 };
+
+/**
+ * Run SQL against the project's database through the Supabase Management API (used by migrations; the
+ * client above only reaches tables through PostgREST). Needs SUPABASE_ACCESS_TOKEN, a personal access
+ * token; the project ref defaults to the subdomain of SUPABASE_URL. Returns the rows of the last statement.
+ */
+export const runSupabaseSql = async <T = Record<string, unknown>>(query: string): Promise<T[]> => {
+  const accessToken = process.env.SUPABASE_ACCESS_TOKEN;
+  const projectRef = process.env.SUPABASE_PROJECT_REF
+    || (process.env.SUPABASE_URL ? new URL(process.env.SUPABASE_URL).hostname.split('.')[0] : undefined);
+
+  if (!accessToken || !projectRef) {
+    throw new Error('Missing SUPABASE_ACCESS_TOKEN, or SUPABASE_URL / SUPABASE_PROJECT_REF, to run SQL');
+  }
+
+  const response = await fetch(`https://api.supabase.com/v1/projects/${projectRef}/database/query`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ query })
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`SQL failed (${response.status}): ${body}`);
+  }
+
+  return await response.json() as T[];
+};
@@ -0,0 +1,79 @@
+import { CreateMarketEvent, MarketEvent } from '../types/market-event';
+import { diffWeekEvents } from './week-diff';
+
+const week = { start: '2025-11-23', end: '2025-11-29' };
+
+const generated = (overrides: Partial<CreateMarketEvent>): CreateMarketEvent => ({
+  date: 'November 25 2025',
+  start_date: '2025-11-25',
+  end_date: '2025-11-25',
+  event: 'CPI',
+  type: 'Economic',
+  description: 'Consumer prices for October',
+  significance: 'High',
+  market_sentiment: 'Neutral',
+  citations: ['https://www.bls.gov/cpi/'],
+  ...overrides
+});
+
+const stored = (id: string, overrides: Partial<MarketEvent>): MarketEvent => ({
+  ...generated({}),
+  id,
+  status: 'scheduled',
+  ...overrides
+});
+
+describe('diffWeekEvents', () => {
+  it('reports matching events with the same fields as unchanged', () => {
+    const diff = diffWeekEvents(week, [stored('a', {})], [generated({})]);
+    expect(diff).toMatchObject({ week_start: week.start, week_end: week.end, added: [], removed: [], changed: [], unchanged: 1 });
+  });
+
+  it('reports the changed fields of a regenerated event', () => {
+    const update = generated({ event: 'US CPI Report', significance: 'Medium' });
+    const diff = diffWeekEvents(week, [stored('a', {})], [update]);
+
+    expect(diff.changed).toEqual([{
+      id: 'a',
+      event: 'CPI',
+      changes: [
+        { field: 'event', from: 'CPI', to: 'US CPI Report' },
+        { field: 'significance', from: 'High', to: 'Medium' }
+      ],
+      update
+    }]);
+  });
+
+  it('ignores seconds in release times and the order of citations', () => {
+    const existing = stored('a', { release_time: '08:30:00', citations: ['https://b.example/', 'https://a.example/'] });
+    const update = generated({ release_time: '08:30', citations: ['https://a.example/', 'https://b.example/'] });
+    expect(diffWeekEvents(week, [existing], [update]).unchanged).toBe(1);
+  });
+
+  it('pairs the best name match first, preferring the same dates on a tie', () => {
+    const monday = stored('monday', { start_date: '2025-11-24', end_date: '2025-11-24', date: 'November 24 2025' });
+    const tuesday = stored('tuesday', {});
+    const diff = diffWeekEvents(week, [monday, tuesday], [generated({})]);
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.removed.map(event => event.id)).toEqual(['monday']);
+  });
+
+  it('adds generated events without a match', () => {
+    const fomc = generated({ event: 'FOMC Meeting', type: 'Fed' });
+    expect(diffWeekEvents(week, [stored('a', {})], [generated({}), fomc]).added).toEqual([fomc]);
+  });
+
+  it('only removes scheduled events that start within the week', () => {
+    const events = [
+      stored('scheduled', { event: 'Retail Sales' }),
+      stored('undated', { event: 'Jobless Claims', start_date: undefined, end_date: undefined }),
+      stored('postponed', { event: 'GDP', status: 'postponed' }),
+      stored('confirmed', { event: 'PCE', status: 'confirmed' }),
+      stored('earlier', { event: 'Energy Summit', start_date: '2025-11-20', end_date: '2025-11-24' })
+    ];
+
+    const diff = diffWeekEvents(week, events, []);
+    expect(diff.removed.map(event => event.id)).toEqual(['scheduled', 'undated']);
+  });
+});
@@ -0,0 +1,107 @@
+import { ChangedEvent, CreateMarketEvent, EventFieldChange, MarketEvent, UpdateMarketEvent, WeekDiff } from '../types/market-event';
+import { eventNameScore } from './event-matching';
+
+// Generated and stored events at least this similar are treated as the same event
+const MATCH_SIMILARITY = 0.6;
+
+// Fields compared between a stored event and its regenerated counterpart
+const DIFF_FIELDS: (keyof CreateMarketEvent)[] = [
+  'event', 'date', 'start_date', 'end_date', 'release_time', 'timezone', 'all_day',
+  'type', 'description', 'significance', 'market_sentiment', 'citations'
+];
+
+/**
+ * Comparable form of a field value: Postgres returns times with seconds and arrays in insertion order
+ */
+const normalizeValue = (field: keyof CreateMarketEvent, value: unknown): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (field === 'release_time' && typeof value === 'string') {
+    return value.slice(0, 5);
+  }
+  if (Array.isArray(value)) {
+    return JSON.stringify([...value].sort());
+  }
+  return value;
+};
+
+/**
+ * Fields (of DIFF_FIELDS by default) whose value in update differs from the stored event's
+ */
+export const diffEventFields = (
+  existing: MarketEvent,
+  update: UpdateMarketEvent,
+  fields: (keyof CreateMarketEvent)[] = DIFF_FIELDS
+): EventFieldChange[] => {
+  return fields
+    .filter(field => normalizeValue(field, existing[field]) !== normalizeValue(field, update[field]))
+    .map(field => ({ field, from: existing[field] ?? null, to: update[field] ?? null }));
+};
+
+/**
+ * Whether a stored event that wasn't generated again should go. Events the refresh or the lifecycle has
+ * moved past scheduled keep their history in event_changes, and multi-day events that started in an earlier
+ * week belong to that week's generation, so both stay.
+ */
+const isRemovable = (event: MarketEvent, weekStart: string): boolean => {
+  return (event.status || 'scheduled') === 'scheduled' && (!event.start_date || event.start_date >= weekStart);
+};
+
+/**
+ * Pair each generated event with the stored event it most likely regenerates (best name match first,
+ * same dates breaking ties) and report what would be added, removed and changed
+ */
+export const diffWeekEvents = (
+  week: { start: string; end: string },
+  stored: MarketEvent[],
+  generated: CreateMarketEvent[]
+): WeekDiff => {
+  const pairs: { storedIndex: number; generatedIndex: number; score: number; sameDates: boolean }[] = [];
+
+  stored.forEach((existing, storedIndex) => {
+    generated.forEach((candidate, generatedIndex) => {
+      const score = eventNameScore(existing.event, candidate.event);
+      if (score >= MATCH_SIMILARITY) {
+        const sameDates = existing.start_date === candidate.start_date && existing.end_date === candidate.end_date;
+        pairs.push({ storedIndex, generatedIndex, score, sameDates });
+      }
+    });
+  });
+
+  pairs.sort((a, b) => b.score - a.score || Number(b.sameDates) - Number(a.sameDates));
+
+  const matchedStored = new Set<number>();
+  const matchedGenerated = new Set<number>();
+  const changed: ChangedEvent[] = [];
+  let unchanged = 0;
+
+  pairs.forEach(({ storedIndex, generatedIndex }) => {
+    if (matchedStored.has(storedIndex) || matchedGenerated.has(generatedIndex)) {
+      return;
+    }
+    matchedStored.add(storedIndex);
+    matchedGenerated.add(generatedIndex);
+
+    const existing = stored[storedIndex]!;
+    const candidate = generated[generatedIndex]!;
+    const changes = diffEventFields(existing, candidate);
+
+    if (changes.length === 0) {
+      unchanged++;
+      return;
+    }
+
+    // The whole regenerated event is written, so provenance (prompt version, confidence) follows the change
+    changed.push({ id: existing.id!, event: existing.event, changes, update: candidate });
+  });
+
+  return {
+    week_start: week.start,
+    week_end: week.end,
+    added: generated.filter((_, index) => !matchedGenerated.has(index)),
+    removed: stored.filter((event, index) => !matchedStored.has(index) && isRemovable(event, week.start)),
+    changed,
+    unchanged
+  };
+};
@@ -0,0 +1,11 @@
+'use client'
+
+import SchedulesPage from '@/components/SchedulesPage'
+
+export default function AdminSchedules() {
+  return (
+    <main className="min-h-screen bg-background">
+      <SchedulesPage />
+    </main>
+  )
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
+
+const ACTIONS = ['pause', 'resume', 'trigger'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { name: string; action: string } }
+) {
+  if (!ACTIONS.includes(params.action)) {
+    return NextResponse.json(
+      { success: false, error: 'Unknown schedule action' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/admin/schedules/${encodeURIComponent(params.name)}/${params.action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Admin-Key': request.headers.get('X-Admin-Key') || '',
+      },
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Error proxying to backend:', error);
+    return NextResponse.json(
+      { success: false, error: `Failed to ${params.action} schedule` },
+      { status: 500 }
+    );
+  }
+}
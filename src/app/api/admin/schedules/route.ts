@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
+
+export async function GET(request: NextRequest) {
+  try {
+    // The admin key comes from the browser, the backend checks it
+    const response = await fetch(`${BACKEND_URL}/api/admin/schedules`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Admin-Key': request.headers.get('X-Admin-Key') || '',
+      },
+      cache: 'no-store',
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Error proxying to backend:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch schedules' },
+      { status: 500 }
+    );
+  }
+}
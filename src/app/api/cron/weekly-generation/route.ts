@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SchedulerService } from '@/services/scheduler.service';
+
+// Never cache or prerender: every call is a run
+export const dynamic = 'force-dynamic';
+
+const schedulerService = new SchedulerService();
+
+// GET /api/cron/weekly-generation - Clean up old events and generate the upcoming week
+// Invoked by Vercel Cron (see vercel.json), which sends "Authorization: Bearer $CRON_SECRET"
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  // Without a secret the route is open in development and disabled in production
+  if (!cronSecret) {
+    if (process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { success: false, error: 'Cron route is disabled (CRON_SECRET not set)' },
+        { status: 503 }
+      );
+    }
+  } else if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await schedulerService.generateUpcomingWeekEvents();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error in weekly generation cron:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate upcoming week events' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,14 @@
 import { NextResponse } from 'next/server';
-import { testSupabaseConnection } from '@/utils/supabase';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
 
 export async function GET() {
   try {
-    // Test database connection
-    const dbHealthy = await testSupabaseConnection();
+    // The backend checks its storage (Supabase or in-memory) and AI providers
+    const response = await fetch(`${BACKEND_URL}/health`);
 
-    return NextResponse.json({
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      services: {
-        database: dbHealthy ? 'healthy' : 'unhealthy'
-      }
-    });
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
   } catch (error) {
     return NextResponse.json(
       {
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
+
+// Never cache or pre-render the stream
+export const dynamic = 'force-dynamic';
+
+// Passes the backend's Server-Sent Events stream through unchanged. When the function hits its
+// duration limit the browser's EventSource reconnects and the backend replays the progress so far.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/jobs/${encodeURIComponent(params.id)}/events`, {
+      cache: 'no-store',
+      headers: { Accept: 'text/event-stream' },
+      signal: request.signal, // Stop reading from the backend when the client goes away
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json();
+      return NextResponse.json(data, { status: response.status });
+    }
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error proxying to backend:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to stream job events' },
+      { status: 500 }
+    );
+  }
+}
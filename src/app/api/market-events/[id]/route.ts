@@ -1,37 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MarketEventsService } from '@/services/market-events.service';
 
-const marketEventsService = new MarketEventsService();
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const { id } = params;
+    const response = await fetch(`${BACKEND_URL}/api/market-events/${encodeURIComponent(params.id)}`);
 
-    if (!id) {
-      return NextResponse.json(
-        { success: false, error: 'Event ID is required' },
-        { status: 400 }
-      );
-    }
-
-    const event = await marketEventsService.getEventById(id);
-
-    if (!event) {
-      return NextResponse.json(
-        { success: false, error: 'Market event not found' },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json({
-      success: true,
-      data: event,
-    });
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
   } catch (error) {
-    console.error('Error fetching market event by ID:', error);
+    console.error('Error proxying to backend:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to fetch market event' },
       { status: 500 }
@@ -44,33 +25,20 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const { id } = params;
-
-    if (!id) {
-      return NextResponse.json(
-        { success: false, error: 'Event ID is required' },
-        { status: 400 }
-      );
-    }
-
     const body = await request.json();
-    const updates = body;
-
-    const updatedEvent = await marketEventsService.updateEvent(id, updates);
 
-    if (!updatedEvent) {
-      return NextResponse.json(
-        { success: false, error: 'Market event not found' },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json({
-      success: true,
-      data: updatedEvent,
+    const response = await fetch(`${BACKEND_URL}/api/market-events/${encodeURIComponent(params.id)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
     });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
   } catch (error) {
-    console.error('Error updating market event:', error);
+    console.error('Error proxying to backend:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update market event' },
       { status: 500 }
@@ -83,30 +51,14 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const { id } = params;
-
-    if (!id) {
-      return NextResponse.json(
-        { success: false, error: 'Event ID is required' },
-        { status: 400 }
-      );
-    }
-
-    const deleted = await marketEventsService.deleteEvent(id);
-
-    if (!deleted) {
-      return NextResponse.json(
-        { success: false, error: 'Market event not found' },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json({
-      success: true,
-      data: { deleted: true },
+    const response = await fetch(`${BACKEND_URL}/api/market-events/${encodeURIComponent(params.id)}`, {
+      method: 'DELETE',
     });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
   } catch (error) {
-    console.error('Error deleting market event:', error);
+    console.error('Error proxying to backend:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to delete market event' },
       { status: 500 }
@@ -4,10 +4,12 @@ const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
 
 export async function DELETE(request: NextRequest) {
     try {
-        const response = await fetch(`${BACKEND_URL}/api/market-events/clear-regenerate`, {
+        const { searchParams } = new URL(request.url);
+        const response = await fetch(`${BACKEND_URL}/api/market-events/clear-regenerate?${searchParams.toString()}`, {
             method: 'DELETE',
             headers: {
                 'Content-Type': 'application/json',
+                'X-Admin-Key': request.headers.get('X-Admin-Key') || '',
             },
         });
 
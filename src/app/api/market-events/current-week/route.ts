@@ -1,18 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MarketEventsService } from '@/services/market-events.service';
 
-const marketEventsService = new MarketEventsService();
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
 
 export async function GET(request: NextRequest) {
   try {
-    const events = await marketEventsService.getCurrentWeekEvents();
-
-    return NextResponse.json({
-      success: true,
-      data: events,
+    const response = await fetch(`${BACKEND_URL}/api/market-events/current-week`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
     });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
   } catch (error) {
-    console.error('Error fetching current week events:', error);
+    console.error('Error proxying to backend:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to fetch current week events' },
       { status: 500 }
@@ -8,6 +8,7 @@ export async function DELETE(request: NextRequest) {
             method: 'DELETE',
             headers: {
                 'Content-Type': 'application/json',
+                'X-Admin-Key': request.headers.get('X-Admin-Key') || '',
             },
         });
 
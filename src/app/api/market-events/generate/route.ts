@@ -10,6 +10,7 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'X-Admin-Key': request.headers.get('X-Admin-Key') || '',
       },
       body: JSON.stringify(body),
     });
@@ -12,7 +12,7 @@ export async function GET(request: NextRequest) {
     // Build backend URL with query params
     const backendUrl = new URL(`${BACKEND_URL}/api/market-events`);
     searchParams.forEach((value, key) => {
-      backendUrl.searchParams.set(key, value);
+      backendUrl.searchParams.append(key, value); // Keep repeated multi-value filters
     });
 
     console.log('Proxying to:', backendUrl.toString());
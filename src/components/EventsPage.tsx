@@ -2,25 +2,39 @@
 
 import { useState, useEffect } from 'react';
 import EventsTable from './EventsTable';
-import { MarketEvent } from '@/types/market-event';
+import { Button } from '@/components/ui/button';
+import { EventSort, MarketEvent } from '@/types/market-event';
 import { apiService } from '@/services/api';
 
+// Events fetched per request; older ones are appended on demand
+const PAGE_SIZE = 25;
+
 export default function EventsPage() {
   const [events, setEvents] = useState<MarketEvent[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<EventSort | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
 
-  // Load events on component mount
+  // Load events on mount and whenever the sort order changes (sorting is done by the API)
   useEffect(() => {
-    loadEvents();
-  }, []);
+    loadEvents(sort);
+  }, [sort]);
 
-  const loadEvents = async () => {
+  const loadEvents = async (currentSort: EventSort | null) => {
     try {
       setLoading(true);
       setError(null);
-      const { events: eventsData } = await apiService.getEvents({ limit: 50 }); // Get recent events instead of just current week
-      setEvents(eventsData);
+      const page = await apiService.getEvents({
+        limit: PAGE_SIZE,
+        sort: currentSort?.field,
+        direction: currentSort?.direction,
+      });
+      setEvents(page.events);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load events');
       console.error('Error loading events:', err);
@@ -29,6 +43,30 @@ export default function EventsPage() {
     }
   };
 
+  // Append the next page, keyed on the last loaded event so new inserts don't shift it
+  const loadMoreEvents = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      setError(null);
+      const page = await apiService.getEvents({
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+        sort: sort?.field,
+        direction: sort?.direction,
+      });
+      setEvents(prevEvents => [...prevEvents, ...page.events]);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more events');
+      console.error('Error loading more events:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
 
   const handleEventUpdate = async (id: string, updates: Partial<MarketEvent>) => {
     try {
@@ -46,6 +84,7 @@ export default function EventsPage() {
     try {
       await apiService.deleteEvent(id);
       setEvents(prevEvents => prevEvents.filter(event => event.id !== id));
+      setTotal(prevTotal => Math.max(0, prevTotal - 1));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete event');
       console.error('Error deleting event:', err);
@@ -72,9 +111,23 @@ export default function EventsPage() {
         <EventsTable
           events={events}
           loading={loading}
+          sort={sort}
+          onSortChange={setSort}
           onEventUpdate={handleEventUpdate}
           onEventDelete={handleEventDelete}
         />
+
+        {/* Older events */}
+        {!loading && nextCursor && (
+          <div className="mt-4 flex items-center justify-center gap-3">
+            <Button variant="outline" size="sm" onClick={loadMoreEvents} disabled={loadingMore}>
+              {loadingMore ? 'Loading...' : sort ? 'Load more events' : 'Load older events'}
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              Showing {events.length} of {total}
+            </span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,7 @@
 'use client'
 
-import React, { useState, useMemo } from 'react';
-import { MarketEvent, SortDirection, SortField, TableColumn } from '@/types/market-event';
+import React from 'react';
+import { EventSort, EventSortField, MarketEvent, TableColumn } from '@/types/market-event';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
@@ -12,17 +12,40 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { effectiveStatus, EventStatus } from '@backend/utils/event-status';
+import { formatIsoDate } from '@backend/utils/event-dates';
 
 interface EventsTableProps {
   events: MarketEvent[];
   loading?: boolean;
+  sort?: EventSort | null; // Applied by the API, the table only renders the order it's given
+  onSortChange?: (sort: EventSort | null) => void;
   onEventUpdate?: (id: string, updates: Partial<MarketEvent>) => void;
   onEventDelete?: (id: string) => void;
 }
 
+// API sort option behind each sortable column
+const SORT_FIELDS: Partial<Record<keyof MarketEvent, EventSortField>> = {
+  date: 'date',
+  event: 'name',
+  type: 'type',
+  significance: 'significance',
+  market_sentiment: 'sentiment',
+};
+
+const STATUS_BADGES: Record<EventStatus, { label: string; variant: 'outline' | 'low' | 'medium' | 'destructive' | 'secondary' }> = {
+  scheduled: { label: 'Scheduled', variant: 'outline' },
+  confirmed: { label: 'Confirmed', variant: 'low' },
+  postponed: { label: 'Postponed', variant: 'medium' },
+  cancelled: { label: 'Cancelled', variant: 'destructive' },
+  completed: { label: 'Completed', variant: 'secondary' },
+};
+
 const EventsTable: React.FC<EventsTableProps> = ({
   events,
   loading = false,
+  sort = null,
+  onSortChange,
   onEventUpdate,
   onEventDelete
 }) => {
@@ -35,8 +58,10 @@ const EventsTable: React.FC<EventsTableProps> = ({
       }
     }
   }, [events]);
-  const [sortField, setSortField] = useState<SortField>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>(null);
+
+  // Events the daily completion hasn't reached yet still show as completed once they've ended
+  const today = formatIsoDate(new Date());
+  const statusOf = (event: MarketEvent) => effectiveStatus(event.status, event.end_date, today);
 
   // Define table columns
   const columns: TableColumn<MarketEvent>[] = [
@@ -44,11 +69,33 @@ const EventsTable: React.FC<EventsTableProps> = ({
       key: 'date',
       header: 'Date',
       sortable: true,
+      render: (value: string, event: MarketEvent) => (
+        <div className="whitespace-nowrap">
+          {/* A postponed event's date no longer holds */}
+          <span className={statusOf(event) === 'postponed' ? 'line-through text-muted-foreground' : ''}>{value}</span>
+          {event.release_time && (
+            <div className="text-xs text-muted-foreground">
+              {event.release_time.slice(0, 5)} {event.timezone?.replace('_', ' ')}
+            </div>
+          )}
+        </div>
+      ),
     },
     {
       key: 'event',
       header: 'Event',
       sortable: true,
+      render: (value: string, event: MarketEvent) => (
+        <span className={statusOf(event) === 'cancelled' ? 'line-through text-muted-foreground' : ''}>{value}</span>
+      ),
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (_value: string, event: MarketEvent) => {
+        const badge = STATUS_BADGES[statusOf(event)];
+        return <Badge variant={badge.variant}>{badge.label}</Badge>;
+      },
     },
     {
       key: 'type',
@@ -85,6 +132,13 @@ const EventsTable: React.FC<EventsTableProps> = ({
               </div>
             </div>
           )}
+          {event.unsourced && (
+            <div className="mt-3 pt-2 border-t border-border/50">
+              <span className="text-xs text-muted-foreground px-2 py-1 bg-muted/30 rounded">
+                No supporting source found
+              </span>
+            </div>
+          )}
         </div>
       ),
     },
@@ -102,47 +156,43 @@ const EventsTable: React.FC<EventsTableProps> = ({
       key: 'market_sentiment',
       header: 'Market Sentiment',
       sortable: true,
-      render: (value: string) => (
-        <Badge variant={value.toLowerCase() as "bullish" | "bearish" | "neutral" | "mixed"}>
-          {value}
-        </Badge>
+      render: (value: string, event: MarketEvent) => (
+        <div className="space-y-2">
+          <Badge variant={value.toLowerCase() as "bullish" | "bearish" | "neutral" | "mixed"}>
+            {value}
+          </Badge>
+          {event.confidence !== undefined && event.confidence !== null && (
+            <div className="text-xs text-muted-foreground">
+              {Math.round(event.confidence * 100)}% agreement
+            </div>
+          )}
+          {event.consensus?.disagreements.map(disagreement => (
+            <div key={disagreement.field} className="text-xs text-muted-foreground">
+              <span className="font-medium">{disagreement.field.replace('_', ' ')}:</span>{' '}
+              {Object.entries(disagreement.values).map(([provider, reported]) => `${provider} ${reported}`).join(' · ')}
+            </div>
+          ))}
+        </div>
       ),
     },
   ];
 
-  // Handle sorting
-  const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      // Toggle direction or reset
-      if (sortDirection === 'asc') {
-        setSortDirection('desc');
-      } else if (sortDirection === 'desc') {
-        setSortField(null);
-        setSortDirection(null);
-      } else {
-        setSortDirection('asc');
-      }
+  // Cycle a column through ascending, descending and the API's default order
+  const handleSort = (column: keyof MarketEvent) => {
+    const field = SORT_FIELDS[column];
+    if (!field || !onSortChange) return;
+
+    if (sort?.field !== field) {
+      onSortChange({ field, direction: 'asc' });
+    } else if (sort.direction === 'asc') {
+      onSortChange({ field, direction: 'desc' });
     } else {
-      setSortField(field);
-      setSortDirection('asc');
+      onSortChange(null);
     }
   };
 
-  // Sort events
-  const sortedEvents = useMemo(() => {
-    if (!sortField || !sortDirection) {
-      return events;
-    }
-
-    return [...events].sort((a, b) => {
-      const aValue = a[sortField] || '';
-      const bValue = b[sortField] || '';
-
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }, [events, sortField, sortDirection]);
+  const sortDirectionOf = (column: keyof MarketEvent) =>
+    sort && SORT_FIELDS[column] === sort.field ? sort.direction : null;
 
   if (loading) {
     return (
@@ -171,11 +221,11 @@ const EventsTable: React.FC<EventsTableProps> = ({
                     <span>{column.header}</span>
                     {column.sortable && (
                       <div className="flex flex-col ml-1">
-                        <span className={`text-[10px] leading-none ${sortField === column.key && sortDirection === 'asc'
+                        <span className={`text-[10px] leading-none ${sortDirectionOf(column.key) === 'asc'
                           ? 'text-primary'
                           : 'text-muted-foreground/30'
                           }`}>▲</span>
-                        <span className={`text-[10px] leading-none ${sortField === column.key && sortDirection === 'desc'
+                        <span className={`text-[10px] leading-none ${sortDirectionOf(column.key) === 'desc'
                           ? 'text-primary'
                           : 'text-muted-foreground/30'
                           }`}>▼</span>
@@ -187,15 +237,18 @@ const EventsTable: React.FC<EventsTableProps> = ({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {sortedEvents.length === 0 ? (
+            {events.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={columns.length} className="px-4 py-12 text-center text-sm text-muted-foreground">
                   No market events found.
                 </TableCell>
               </TableRow>
             ) : (
-              sortedEvents.map(event => (
-                <TableRow key={event.id} className="hover:bg-muted/50 border-border">
+              events.map(event => (
+                <TableRow
+                  key={event.id}
+                  className={`hover:bg-muted/50 border-border ${statusOf(event) === 'cancelled' ? 'opacity-60' : ''}`}
+                >
                   {columns.map(column => (
                     <TableCell key={column.key as string} className="px-4 py-4 text-sm text-foreground align-top">
                       {column.render
@@ -213,7 +266,7 @@ const EventsTable: React.FC<EventsTableProps> = ({
 
       {/* Footer */}
       <div className="px-4 py-3 border-t border-border bg-muted/5 text-xs text-muted-foreground">
-        {sortedEvents.length} events
+        {events.length} events
       </div>
     </div>
   );
@@ -0,0 +1,196 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ScheduleAction, ScheduleStatus } from '@/types/market-event';
+import { ADMIN_KEY_STORAGE, apiService } from '@/services/api';
+
+const formatTime = (value: string | null): string => {
+  return value ? new Date(value).toLocaleString() : '—';
+};
+
+export default function SchedulesPage() {
+  const [schedules, setSchedules] = useState<ScheduleStatus[]>([]);
+  const [adminKey, setAdminKey] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null); // Schedule with an action in flight
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const storedKey = window.localStorage.getItem(ADMIN_KEY_STORAGE) || '';
+    setAdminKey(storedKey);
+    loadSchedules(storedKey);
+  }, []);
+
+  const loadSchedules = async (key: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSchedules(await apiService.getSchedules(key));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+      console.error('Error loading schedules:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveAdminKey = () => {
+    window.localStorage.setItem(ADMIN_KEY_STORAGE, adminKey);
+    loadSchedules(adminKey);
+  };
+
+  const handleAction = async (name: string, action: ScheduleAction) => {
+    try {
+      setPending(name);
+      setError(null);
+      const updated = await apiService.updateSchedule(name, action, adminKey);
+      setSchedules(prevSchedules =>
+        prevSchedules.map(schedule => schedule.name === name ? updated : schedule)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} schedule`);
+      console.error(`Error running ${action} on schedule:`, err);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const renderState = (schedule: ScheduleStatus) => {
+    if (schedule.running) return <Badge variant="default">Running</Badge>;
+    if (schedule.paused) return <Badge variant="outline">Paused</Badge>;
+    return <Badge variant="secondary">Active</Badge>;
+  };
+
+  const renderOutcome = (schedule: ScheduleStatus) => {
+    if (!schedule.last_status) {
+      return <span className="text-muted-foreground">Never ran</span>;
+    }
+
+    return (
+      <div className="space-y-1">
+        <Badge variant={schedule.last_status === 'succeeded' ? 'low' : 'high'}>
+          {schedule.last_status === 'succeeded' ? 'Succeeded' : 'Failed'}
+        </Badge>
+        <p className="text-xs text-muted-foreground">
+          {schedule.last_status === 'succeeded' ? schedule.last_result : schedule.last_error}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-[1600px] mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="mb-8 flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight text-foreground">Scheduled Jobs</h1>
+            <p className="text-muted-foreground text-sm mt-1">Pause, resume or run the backend schedules</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="password"
+              value={adminKey}
+              onChange={event => setAdminKey(event.target.value)}
+              placeholder="Admin key"
+              className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={saveAdminKey}>
+              Save
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => loadSchedules(adminKey)} disabled={loading}>
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {/* Error message */}
+        {error && (
+          <div className="mb-6 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <p className="text-xs text-destructive font-medium">{error}</p>
+          </div>
+        )}
+
+        {/* Schedules */}
+        <div className="rounded-md border border-border bg-card text-card-foreground overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-muted/50 border-border">
+                  {['Schedule', 'Cron', 'State', 'Next run', 'Last run', 'Last outcome', ''].map(header => (
+                    <TableHead
+                      key={header}
+                      className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider"
+                    >
+                      {header}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="px-4 py-12 text-center text-sm text-muted-foreground">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : schedules.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="px-4 py-12 text-center text-sm text-muted-foreground">
+                      No schedules found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  schedules.map(schedule => (
+                    <TableRow key={schedule.name} className="hover:bg-muted/50 border-border">
+                      <TableCell className="px-4 py-4 text-sm text-foreground align-top">
+                        <div className="font-medium">{schedule.name}</div>
+                        <div className="text-xs text-muted-foreground">{schedule.description}</div>
+                      </TableCell>
+                      <TableCell className="px-4 py-4 text-sm font-mono text-foreground align-top">{schedule.cron}</TableCell>
+                      <TableCell className="px-4 py-4 text-sm align-top">{renderState(schedule)}</TableCell>
+                      <TableCell className="px-4 py-4 text-sm text-foreground align-top">
+                        {schedule.paused ? '—' : formatTime(schedule.next_run_at)}
+                      </TableCell>
+                      <TableCell className="px-4 py-4 text-sm text-foreground align-top">{formatTime(schedule.last_run_at)}</TableCell>
+                      <TableCell className="px-4 py-4 text-sm align-top max-w-sm">{renderOutcome(schedule)}</TableCell>
+                      <TableCell className="px-4 py-4 text-sm align-top">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAction(schedule.name, schedule.paused ? 'resume' : 'pause')}
+                            disabled={pending === schedule.name}
+                          >
+                            {schedule.paused ? 'Resume' : 'Pause'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleAction(schedule.name, 'trigger')}
+                            disabled={pending === schedule.name || schedule.running}
+                          >
+                            Run now
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
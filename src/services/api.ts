@@ -1,5 +1,28 @@
 import axios from 'axios';
-import { MarketEvent, CreateMarketEvent, MarketEventsResponse, GenerateEventsResponse, ApiResponse } from '@/types/market-event';
+import {
+  MarketEvent,
+  CreateMarketEvent,
+  MarketEventsResponse,
+  GenerateEventsResponse,
+  GenerationPreview,
+  CommitPreviewResponse,
+  WeekRegeneration,
+  WeekRefresh,
+  EventChange,
+  RangeGeneration,
+  ScheduleStatus,
+  ScheduleAction,
+  ApiResponse,
+  EventsQuery,
+  Job,
+  JobProgress,
+} from '@/types/market-event';
+
+// The admin key is kept in the browser only (saved on the schedules page), and sent with each admin request
+export const ADMIN_KEY_STORAGE = 'market-events-admin-key';
+
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_TIMEOUT_MS = 15 * 60 * 1000; // Generation with web searches can take several minutes
 
 class ApiService {
   private client = axios.create({
@@ -10,21 +33,29 @@ class ApiService {
     },
   });
 
+  // Generation and bulk deletes need the admin key
+  private adminHeaders() {
+    const adminKey = typeof window === 'undefined' ? '' : window.localStorage.getItem(ADMIN_KEY_STORAGE) || '';
+    return { headers: { 'X-Admin-Key': adminKey } };
+  }
+
   // GET /api/market-events - Get all market events with optional filtering
-  async getEvents(options: {
-    limit?: number;
-    offset?: number;
-    type?: string;
-    significance?: string;
-    date?: string;
-  } = {}): Promise<MarketEventsResponse> {
+  async getEvents(options: EventsQuery = {}): Promise<MarketEventsResponse> {
     const params = new URLSearchParams();
 
     if (options.limit) params.append('limit', options.limit.toString());
     if (options.offset) params.append('offset', options.offset.toString());
-    if (options.type) params.append('type', options.type);
-    if (options.significance) params.append('significance', options.significance);
+    if (options.cursor) params.append('cursor', options.cursor);
+    if (options.type?.length) params.append('type', options.type.join(','));
+    if (options.significance?.length) params.append('significance', options.significance.join(','));
+    if (options.sentiment?.length) params.append('sentiment', options.sentiment.join(','));
+    if (options.status?.length) params.append('status', options.status.join(','));
     if (options.date) params.append('date', options.date);
+    if (options.from) params.append('from', options.from);
+    if (options.to) params.append('to', options.to);
+    if (options.has_citations !== undefined) params.append('has_citations', String(options.has_citations));
+    if (options.sort) params.append('sort', options.sort);
+    if (options.direction) params.append('direction', options.direction);
 
     const response = await this.client.get<ApiResponse<MarketEventsResponse>>(
       `/market-events?${params.toString()}`
@@ -37,6 +68,22 @@ class ApiService {
     return response.data.data!;
   }
 
+  // GET /api/market-events/upcoming - Get events that haven't finished yet, soonest first
+  async getUpcomingEvents(options: { days?: number; limit?: number } = {}): Promise<MarketEvent[]> {
+    const params = new URLSearchParams();
+
+    if (options.days) params.append('days', options.days.toString());
+    if (options.limit) params.append('limit', options.limit.toString());
+
+    const response = await this.client.get<ApiResponse<MarketEvent[]>>(`/market-events/upcoming?${params.toString()}`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to fetch upcoming events');
+    }
+
+    return response.data.data!;
+  }
+
   // GET /api/market-events/current-week - Get events for the current week
   async getCurrentWeekEvents(): Promise<MarketEvent[]> {
     const response = await this.client.get<ApiResponse<MarketEvent[]>>('/market-events/current-week');
@@ -72,12 +119,73 @@ class ApiService {
   }
 
   // POST /api/market-events/generate - Generate new events using AI
-  async generateEvents(weekStart?: Date): Promise<GenerateEventsResponse> {
-    const response = await this.client.post<ApiResponse<GenerateEventsResponse>>(
+  // Generation runs as a background job; this polls it until it finishes
+  async generateEvents(
+    weekStart?: Date,
+    onProgress?: (progress: JobProgress) => void
+  ): Promise<GenerateEventsResponse> {
+    const response = await this.client.post<ApiResponse<Job>>(
       '/market-events/generate',
-      weekStart ? { weekStart: weekStart.toISOString() } : {}
+      weekStart ? { weekStart: weekStart.toISOString() } : {},
+      this.adminHeaders()
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to generate market events');
+    }
+
+    return this.waitForJob<GenerateEventsResponse>(response.data.data!.id, onProgress);
+  }
+
+  // POST /api/market-events/preview - Generate without storing; resolves with the candidates once the job finishes
+  // The returned jobId identifies the preview when committing
+  async previewEvents(
+    weekStart?: Date,
+    onProgress?: (progress: JobProgress) => void
+  ): Promise<{ jobId: string; preview: GenerationPreview }> {
+    const response = await this.client.post<ApiResponse<Job>>(
+      '/market-events/preview',
+      weekStart ? { weekStart: weekStart.toISOString() } : {},
+      this.adminHeaders()
     );
 
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to preview market events');
+    }
+
+    const jobId = response.data.data!.id;
+    const preview = await this.waitForJob<GenerationPreview>(jobId, onProgress);
+    return { jobId, preview };
+  }
+
+  // POST /api/market-events/preview/:id/commit - Store the chosen preview candidates
+  async commitPreview(jobId: string, candidates: number[]): Promise<CommitPreviewResponse> {
+    const response = await this.client.post<ApiResponse<CommitPreviewResponse>>(
+      `/market-events/preview/${jobId}/commit`,
+      { candidates },
+      this.adminHeaders()
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to commit preview');
+    }
+
+    return response.data.data!;
+  }
+
+  // POST /api/market-events/generate-range - Queue generation of every week between two dates
+  // Returns the queued job rather than waiting: a long range can outlast the polling timeout, follow it with watchJob
+  async generateRange(
+    from: string, // YYYY-MM-DD
+    to: string,
+    options: { force?: boolean; concurrency?: number } = {}
+  ): Promise<Job<RangeGeneration>> {
+    const response = await this.client.post<ApiResponse<Job<RangeGeneration>>>('/market-events/generate-range', {
+      from,
+      to,
+      ...options,
+    }, this.adminHeaders());
+
     if (!response.data.success) {
       throw new Error(response.data.error || 'Failed to generate market events');
     }
@@ -85,6 +193,82 @@ class ApiService {
     return response.data.data!;
   }
 
+  // GET /api/jobs/:id - Get the status of a background job
+  async getJob<TResult>(id: string): Promise<Job<TResult>> {
+    const response = await this.client.get<ApiResponse<Job<TResult>>>(`/jobs/${id}`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to fetch job');
+    }
+
+    return response.data.data!;
+  }
+
+  // GET /api/jobs/:id/events - Follow a job's progress live; returns a function that stops listening
+  watchJob<TResult>(
+    id: string,
+    handlers: { onProgress?: (progress: JobProgress) => void; onDone?: (job: Job<TResult>) => void }
+  ): () => void {
+    const source = new EventSource(`/api/jobs/${id}/events`);
+
+    source.addEventListener('progress', event => {
+      handlers.onProgress?.(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener('done', event => {
+      source.close();
+      handlers.onDone?.(JSON.parse((event as MessageEvent).data));
+    });
+
+    return () => source.close();
+  }
+
+  // Poll a job until it succeeds (resolving with its result) or fails
+  async waitForJob<TResult>(id: string, onProgress?: (progress: JobProgress) => void): Promise<TResult> {
+    const deadline = Date.now() + JOB_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      const job = await this.getJob<TResult>(id);
+
+      if (job.progress) onProgress?.(job.progress);
+      if (job.status === 'succeeded') return job.result!;
+      if (job.status === 'failed') throw new Error(job.error || 'Job failed');
+
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+
+    throw new Error('Timed out waiting for job to finish');
+  }
+
+  // POST /api/market-events/refresh - Re-check a week's stored events against current sources
+  // Runs as a background job; resolves with the changes it made once it finishes
+  async refreshEvents(
+    weekStart?: string, // YYYY-MM-DD, current week when omitted
+    onProgress?: (progress: JobProgress) => void
+  ): Promise<WeekRefresh> {
+    const response = await this.client.post<ApiResponse<Job>>(
+      '/market-events/refresh',
+      weekStart ? { weekStart } : {},
+      this.adminHeaders()
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to refresh market events');
+    }
+
+    return this.waitForJob<WeekRefresh>(response.data.data!.id, onProgress);
+  }
+
+  // GET /api/market-events/:id/changes - Changes the refresh made to an event, newest first
+  async getEventChanges(id: string): Promise<EventChange[]> {
+    const response = await this.client.get<ApiResponse<EventChange[]>>(`/market-events/${id}/changes`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to fetch event changes');
+    }
+
+    return response.data.data!;
+  }
+
   // PUT /api/market-events/:id - Update a market event
   async updateEvent(id: string, updates: Partial<CreateMarketEvent>): Promise<MarketEvent> {
     const response = await this.client.put<ApiResponse<MarketEvent>>(`/market-events/${id}`, updates);
@@ -107,7 +291,7 @@ class ApiService {
 
   // DELETE /api/market-events/delete-all - Delete all market events
   async deleteAllEvents(): Promise<{ deleted: number }> {
-    const response = await this.client.delete<ApiResponse<{ deleted: number }>>(`/market-events/delete-all`);
+    const response = await this.client.delete<ApiResponse<{ deleted: number }>>(`/market-events/delete-all`, this.adminHeaders());
 
     if (!response.data.success) {
       throw new Error(response.data.error || 'Failed to delete all market events');
@@ -116,27 +300,25 @@ class ApiService {
     return response.data.data!;
   }
 
-  // DELETE /api/market-events/clear-regenerate - Clear all and regenerate
-  async clearAndRegenerateEvents(): Promise<{
-    deleted: number;
-    generated: number;
-    created: number;
-    skipped: number;
-    events: MarketEvent[];
-  }> {
-    const response = await this.client.delete<ApiResponse<{
-      deleted: number;
-      generated: number;
-      created: number;
-      skipped: number;
-      events: MarketEvent[];
-    }>>(`/market-events/clear-regenerate`);
+  // DELETE /api/market-events/clear-regenerate - Regenerate a week and replace its events
+  // Runs as a background job; resolves with what changed once it finishes
+  async clearAndRegenerateEvents(
+    weekStart?: string, // YYYY-MM-DD, current week when omitted
+    onProgress?: (progress: JobProgress) => void
+  ): Promise<WeekRegeneration> {
+    const params = new URLSearchParams();
+    if (weekStart) params.append('weekStart', weekStart);
+
+    const response = await this.client.delete<ApiResponse<Job>>(
+      `/market-events/clear-regenerate?${params.toString()}`,
+      this.adminHeaders()
+    );
 
     if (!response.data.success) {
       throw new Error(response.data.error || 'Failed to clear and regenerate events');
     }
 
-    return response.data.data!;
+    return this.waitForJob<WeekRegeneration>(response.data.data!.id, onProgress);
   }
 
   // DELETE /api/market-events/old/:days - Delete old events
@@ -150,6 +332,34 @@ class ApiService {
     return response.data.data!;
   }
 
+  // GET /api/admin/schedules - Scheduled jobs with their last and next runs (admin key required)
+  async getSchedules(adminKey: string): Promise<ScheduleStatus[]> {
+    const response = await this.client.get<ApiResponse<ScheduleStatus[]>>('/admin/schedules', {
+      headers: { 'X-Admin-Key': adminKey },
+    });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to fetch schedules');
+    }
+
+    return response.data.data!;
+  }
+
+  // POST /api/admin/schedules/:name/{pause,resume,trigger} - Pause, resume or run a scheduled job now
+  async updateSchedule(name: string, action: ScheduleAction, adminKey: string): Promise<ScheduleStatus> {
+    const response = await this.client.post<ApiResponse<ScheduleStatus>>(
+      `/admin/schedules/${encodeURIComponent(name)}/${action}`,
+      {},
+      { headers: { 'X-Admin-Key': adminKey } }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || `Failed to ${action} schedule`);
+    }
+
+    return response.data.data!;
+  }
+
   // Health check
   async healthCheck(): Promise<{ status: string; services: Record<string, string> }> {
     const response = await this.client.get('/health');
@@ -0,0 +1,94 @@
+import { repositories } from '@backend/repositories';
+import { generationService } from '@backend/services/generation.service';
+import { MarketEventsService } from '@backend/services/market-events.service';
+import { formatIsoDate } from '@backend/utils/event-dates';
+import { CronRunOutcome } from '@backend/types/cron-run';
+
+const WEEKLY_GENERATION = 'weekly-generation';
+
+// Events that ended longer ago than EVENT_RETENTION_DAYS are cleaned up before generating, as the backend
+// scheduler does. Unset keeps every event, so weeks backfilled by range generation aren't deleted and regenerated.
+const RETENTION_DAYS = process.env.EVENT_RETENTION_DAYS ? parseInt(process.env.EVENT_RETENTION_DAYS) : null;
+
+// A claim still "running" after this was cut off by the function time limit and may be taken over
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+export interface CronRunResult {
+  status: 'completed' | 'skipped';
+  week: string; // YYYY-MM-DD start of the generated week
+  deleted?: number;
+  created?: number;
+  updated?: number; // Stored events that gained citations from a duplicate
+  skipped?: number; // Duplicates that added nothing
+  reason?: string; // Why the week was skipped
+}
+
+export class SchedulerService {
+  private marketEventsService: MarketEventsService;
+
+  constructor() {
+    this.marketEventsService = new MarketEventsService();
+  }
+
+  /**
+   * Clean up old events (when EVENT_RETENTION_DAYS is set) and generate the upcoming week through the backend's generation service, so the
+   * budget check, validation and repair, citation attribution and run log all apply as they do for the
+   * backend's SchedulerService.generateUpcomingWeekEvents. The week is claimed in the cron runs repository
+   * first, so repeated or overlapping invocations for the same week do nothing; a failed week is retried
+   * on the next call.
+   */
+  async generateUpcomingWeekEvents(): Promise<CronRunResult> {
+    const weekStart = this.getNextWeekStart();
+    const week = formatIsoDate(weekStart);
+
+    const staleBefore = new Date(Date.now() - STALE_RUN_MS).toISOString();
+    const claimed = await repositories.cronRuns.claim(WEEKLY_GENERATION, week, staleBefore);
+    if (!claimed) {
+      console.log(`Week of ${week} already generated or in progress, skipping`);
+      return { status: 'skipped', week, reason: 'Already generated or in progress' };
+    }
+
+    try {
+      let deleted: number | undefined;
+      if (RETENTION_DAYS !== null) {
+        console.log('Cleaning up old events before generating new ones...');
+        deleted = await this.marketEventsService.deleteOldEvents(RETENTION_DAYS);
+      }
+
+      console.log(`Generating events for week of ${week}...`);
+      const { created, updated, skipped } = await generationService.generateWeek({ weekStart, trigger: 'cron' });
+
+      const result: CronRunResult = { status: 'completed', week, deleted, created: created.length, updated: updated.length, skipped };
+      await this.finishRun(week, { status: 'succeeded', result });
+      return result;
+    } catch (error) {
+      console.error('Error generating upcoming week events:', error);
+      await this.finishRun(week, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record how the week went; a failure to record is only logged, so it doesn't hide the run's own outcome
+   */
+  private async finishRun(week: string, outcome: CronRunOutcome): Promise<void> {
+    try {
+      await repositories.cronRuns.finish(WEEKLY_GENERATION, week, outcome);
+    } catch (error) {
+      console.error('Error recording cron run:', error);
+    }
+  }
+
+  /**
+   * Get the start date of the next week (Sunday)
+   */
+  private getNextWeekStart(): Date {
+    const today = new Date();
+    const nextSunday = new Date(today);
+    nextSunday.setDate(today.getDate() + (7 - today.getDay()));
+    return nextSunday;
+  }
+}
@@ -1,15 +1,37 @@
 import { z } from 'zod';
+import { EVENT_STATUSES } from '@backend/utils/event-status';
 
 // Zod schemas for runtime validation
+
+// Where ensemble providers disagreed on a merged event
+export const ConsensusSchema = z.object({
+  providers: z.array(z.string()), // Providers that reported the event
+  disagreements: z.array(z.object({
+    field: z.string(),
+    values: z.record(z.string(), z.string()), // Provider -> reported value
+  })),
+});
+
 export const MarketEventSchema = z.object({
   id: z.string().uuid().optional(),
   date: z.string(), // e.g., "November 24 2025" or "November 24-29 2025"
+  start_date: z.string().optional(), // Parsed from date, YYYY-MM-DD
+  end_date: z.string().optional(), // Same as start_date for single-day events
+  release_time: z.string().nullable().optional(), // Local time in timezone
+  timezone: z.string().nullable().optional(), // IANA zone, e.g. "America/New_York"
+  all_day: z.boolean().optional(), // No release time known
   event: z.string(),
   type: z.enum(['Economic', 'Fed', 'Crypto', 'Retail/Geopolitical', 'Holiday', 'Geopolitical', 'Corporate']), // Specific event types supported by database
   description: z.string(),
   significance: z.enum(['High', 'Medium', 'Low']),
   market_sentiment: z.enum(['Bullish', 'Bearish', 'Neutral', 'Mixed']),
-  citations: z.array(z.string().url()).optional(), // Array of citation URLs
+  citations: z.array(z.string().url()).optional(), // Citation URLs supporting this specific event
+  unsourced: z.boolean().optional(), // True when no source could be attributed to the event
+  confidence: z.number().min(0).max(1).optional(), // Ensemble agreement score
+  consensus: ConsensusSchema.optional(),
+  status: z.enum(EVENT_STATUSES).optional(), // Defaults to scheduled; postponed and cancelled are set by the daily refresh
+  prompt_name: z.string().optional(), // Prompt template that generated the event
+  prompt_version: z.number().int().nonnegative().optional(), // Version of that template (0 = built-in default)
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 });
@@ -19,21 +41,204 @@ export type MarketEvent = z.infer<typeof MarketEventSchema>;
 export type CreateMarketEvent = Omit<MarketEvent, 'id' | 'created_at' | 'updated_at'>;
 export type UpdateMarketEvent = Partial<CreateMarketEvent>;
 
+// Query contract of GET /api/market-events
+export type EventSortField = 'date' | 'significance' | 'name' | 'type' | 'sentiment' | 'created_at';
+export type SortOrder = 'asc' | 'desc';
+
+export interface EventsQuery {
+  limit?: number;
+  offset?: number; // Ignored when cursor is set
+  cursor?: string; // nextCursor/prevCursor of a previous page with the same sort
+  type?: MarketEvent['type'][]; // Any of
+  significance?: MarketEvent['significance'][];
+  sentiment?: MarketEvent['market_sentiment'][];
+  status?: NonNullable<MarketEvent['status']>[];
+  date?: string; // Substring of the free-text date (legacy)
+  from?: string; // YYYY-MM-DD, events ending on or after
+  to?: string; // YYYY-MM-DD, events starting on or before
+  has_citations?: boolean;
+  sort?: EventSortField; // Default created_at
+  direction?: SortOrder; // Default desc for created_at, asc otherwise
+}
+
 // API response types
 export interface MarketEventsResponse {
   events: MarketEvent[];
   total: number;
-  page: number;
+  page?: number; // Offset pagination only
   limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export interface GenerationReport {
+  accepted: number;
+  repaired: number;
+  rejected: number;
+  rejections: { event: unknown; errors: string[] }[];
+}
+
+export interface GenerationUsage {
+  provider: string;
+  model: string;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  reasoning_tokens: number;
+  tool_calls: number;
+  search_calls: number;
+  cost_usd: number | null;
 }
 
 export interface GenerateEventsResponse {
+  runId?: string | null; // Generation run log entry, see /api/generation-runs
   generated: number;
   created: number;
+  updated: number; // Stored events that gained citations from a duplicate
   skipped: number;
+  validation?: GenerationReport;
+  heldBack?: CreateMarketEvent[]; // Low-agreement ensemble events that were not stored
+  usage?: GenerationUsage[]; // Tokens and cost per provider/model for the run
   events: MarketEvent[];
 }
 
+// Dry-run generation: what storing each candidate would do
+export type PreviewStatus = 'new' | 'duplicate' | 'conflicting';
+
+export interface EventConflict {
+  existingId: string;
+  event: string;
+  date: string;
+  similarity: number;
+  sameDates: boolean;
+}
+
+export interface EventPreview {
+  index: number;
+  status: PreviewStatus;
+  event: CreateMarketEvent;
+  existingId?: string;
+  score?: number; // Name similarity to the stored event a duplicate matches
+  conflicts: EventConflict[];
+}
+
+export interface GenerationPreview {
+  runId: string | null;
+  week_start: string | null;
+  candidates: EventPreview[];
+  heldBack: CreateMarketEvent[];
+  validation: GenerationReport;
+  usage: GenerationUsage[];
+}
+
+// A stored event matched by an event that was then not inserted; its new citations were merged in
+export interface DuplicateEvent {
+  event: string;
+  date: string;
+  existingId: string;
+  existingEvent: string;
+  score: number; // Name similarity, 1 = same name after normalization
+  citationsAdded: number; // 0 when the duplicate was skipped
+}
+
+export interface CommitPreviewResponse {
+  created: MarketEvent[];
+  updated: MarketEvent[];
+  skipped: number;
+  duplicates: DuplicateEvent[];
+}
+
+// Result of clear-regenerate: how the week's stored events changed
+export interface EventFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface WeekDiff {
+  week_start: string;
+  week_end: string;
+  added: CreateMarketEvent[];
+  removed: MarketEvent[];
+  changed: { id: string; event: string; changes: EventFieldChange[] }[];
+  unchanged: number;
+}
+
+export interface WeekRegeneration {
+  runId: string | null;
+  diff: WeekDiff;
+  heldBack: CreateMarketEvent[];
+  validation: GenerationReport;
+  usage: GenerationUsage[];
+}
+
+// Change made to an event by the daily refresh (GET /api/market-events/:id/changes)
+export interface EventChange {
+  id: string;
+  event_id: string;
+  run_id: string | null;
+  kind: 'updated' | 'added' | 'postponed' | 'cancelled';
+  changes: EventFieldChange[];
+  reason: string;
+  citations: string[];
+  created_at: string;
+}
+
+export interface WeekRefresh {
+  runId: string | null;
+  week_start: string | null;
+  changes: EventChange[];
+  unchanged: number;
+  skipped: number;
+  validation: GenerationReport;
+  usage: GenerationUsage[];
+}
+
+// Result of one week of a range generation job (POST /api/market-events/generate-range)
+export interface RangeWeekResult {
+  week_start: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  runId?: string | null;
+  created?: number;
+  skipped?: number;
+  existing?: number; // Events already stored for a skipped week
+  error?: string;
+}
+
+export interface RangeGeneration {
+  from: string;
+  to: string;
+  weeks: RangeWeekResult[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+// Background job, see GET /api/jobs/:id
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobProgress {
+  phase: string;
+  message: string;
+  completed?: number;
+  total?: number;
+  data?: Record<string, unknown>;
+  at?: string;
+}
+
+export interface Job<TResult = unknown> {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  progress: JobProgress | null;
+  result: TResult | null;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -48,5 +253,24 @@ export interface TableColumn<T> {
   render?: (value: any, item: T) => React.ReactNode;
 }
 
-export type SortDirection = 'asc' | 'desc' | null;
-export type SortField = keyof MarketEvent | null;
+export interface EventSort {
+  field: EventSortField;
+  direction: SortOrder;
+}
+
+// Scheduled job as listed by GET /api/admin/schedules
+export interface ScheduleStatus {
+  name: string;
+  description: string;
+  cron: string;
+  paused: boolean;
+  running: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_finished_at: string | null;
+  last_status: 'succeeded' | 'failed' | null;
+  last_result: string | null;
+  last_error: string | null;
+}
+
+export type ScheduleAction = 'pause' | 'resume' | 'trigger';
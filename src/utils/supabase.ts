@@ -1,35 +0,0 @@
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = process.env.SUPABASE_URL!;
-const supabaseKey = process.env.SUPABASE_ANON_KEY!;
-
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error('Missing Supabase environment variables');
-}
-
-export const supabase = createClient(supabaseUrl, supabaseKey, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false
-  }
-});
-
-// Test connection function
-export const testSupabaseConnection = async (): Promise<boolean> => {
-  try {
-    const { data, error } = await supabase
-      .from('market_events')
-      .select('count')
-      .limit(1);
-
-    if (error) {
-      console.error('Supabase connection error:', error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Supabase connection test failed:', error);
-    return false;
-  }
-};